@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import {
+  parseConfigJson, mappingOf, levelKey, decodeAddress, parseHexAddress, formatHexAddress, validateMapping,
+  parseSizeInputToAddressBits, parseSystemMap, systemToDram, type DramConfig, type HierarchyLevel, type NbitMappingConfig,
+  type SystemWindow,
+} from '../src/core';
+
+// --- dram-map: decode physical addresses with a saved configuration ---
+
+const USAGE = `Usage: dram-map --config <file.json> [--json] [address ...]
+
+Decodes physical addresses (hex, e.g. 0x1f40) into hierarchy IDs using a configuration
+exported from the visualizer. Without address arguments, addresses are read from stdin,
+one per line; only the first token of a line is used, so trace files work too (blank
+lines and lines starting with # are skipped). When the configuration has a system map,
+addresses are system addresses and are translated to DRAM addresses first.
+
+Options:
+  -c, --config <file>  configuration file (required)
+      --json           print one JSON object per address instead of text
+  -h, --help           show this help
+
+Exit status: 0 on success, 1 if any address could not be parsed or has no DRAM behind it, 2 on usage or configuration errors.`;
+
+// `dramAddress` is only present when the system map moves the address.
+type DecodeLine = { address: string; dramAddress?: string; ids: Record<string, number> } | { input: string; error: string };
+
+function decodeLine(input: string, levels: HierarchyLevel[], mapping: NbitMappingConfig, windows: SystemWindow[]): DecodeLine {
+  const address = parseHexAddress(input);
+  if (address === null) return { input, error: 'Invalid address' };
+  const dramAddress = systemToDram(windows, address);
+  if (dramAddress === null) return { input, error: 'Not backed by DRAM' };
+  const decoded = decodeAddress(dramAddress, mapping);
+  const ids = Object.fromEntries(levels.map(level => [level.name, decoded[levelKey(level.name)] ?? 0]));
+  return dramAddress === address
+    ? { address: formatHexAddress(address), ids }
+    : { address: formatHexAddress(address), dramAddress: formatHexAddress(dramAddress), ids };
+}
+
+function formatText(line: DecodeLine): string {
+  if ('error' in line) return `${line.input}: ${line.error}`;
+  const dram = line.dramAddress ? ` (DRAM ${line.dramAddress})` : '';
+  return `${line.address}${dram}: ${Object.entries(line.ids).map(([level, id]) => `${level}=${id}`).join(' ')}`;
+}
+
+function loadConfig(path: string): DramConfig | string {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    return `cannot read ${path}: ${(error as Error).message}`;
+  }
+  const result = parseConfigJson(text);
+  if (!result.ok) return `invalid configuration ${path}:\n${result.errors.map(error => `  ${error.field}: ${error.message}`).join('\n')}`;
+  return result.config;
+}
+
+async function main(): Promise<number> {
+  let options;
+  try {
+    options = parseArgs({
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    console.error(`dram-map: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = options;
+  if (values.help) { console.log(USAGE); return 0; }
+  if (!values.config) { console.error(`dram-map: --config is required\n\n${USAGE}`); return 2; }
+
+  const config = loadConfig(values.config);
+  if (typeof config === 'string') { console.error(`dram-map: ${config}`); return 2; }
+  const addressBits = parseSizeInputToAddressBits(config.totalCapacity);
+  const mapping = mappingOf(config.levels);
+  const windows = parseSystemMap(config.memoryMap ?? []);
+  validateMapping(config.levels, typeof addressBits === 'number' ? addressBits : null).issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => console.error(`dram-map: warning: ${issue.message}`));
+
+  let failures = 0;
+  const emit = (input: string) => {
+    const line = decodeLine(input, config.levels, mapping, windows);
+    if ('error' in line) failures++;
+    console.log(values.json ? JSON.stringify(line) : formatText(line));
+  };
+
+  if (positionals.length > 0) {
+    positionals.forEach(emit);
+  } else {
+    for await (const rawLine of createInterface({ input: process.stdin, crlfDelay: Infinity })) {
+      const input = rawLine.trim();
+      if (input && !input.startsWith('#')) emit(input.split(/\s+/)[0]);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+main().then(code => { process.exitCode = code; });
@@ -0,0 +1,63 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, Button, Divider } from '@mui/material';
+import { formatHexAddress, formatBytes, type NbitMappingConfig } from './core/helpers';
+import { dramRangesToSystem, type SystemWindow } from './core/systemMap';
+import { resolveAddressSet, addressSetSize, takeIntervals, type AddressRange, type HierarchyPathSegment } from './core/addressSet';
+
+interface AddressSetDetailsProps {
+  path: HierarchyPathSegment[];
+  mapping: NbitMappingConfig;
+  // DRAM ranges memory can be at (see usableDramRanges).
+  usable: AddressRange[];
+  // With a system map the set is in DRAM addresses; the windows give the system addresses behind it.
+  windows: SystemWindow[];
+}
+
+const INTERVAL_PAGE_SIZE = 8;
+
+const AddressSetDetails: React.FC<AddressSetDetailsProps> = ({ path, mapping, usable, windows }) => {
+  const [intervalLimit, setIntervalLimit] = useState<number>(INTERVAL_PAGE_SIZE);
+  const addressSet = useMemo(() => resolveAddressSet(path, mapping, usable), [path, mapping, usable]);
+  const size = useMemo(() => (addressSet ? addressSetSize(addressSet) : 0n), [addressSet]);
+  const { intervals, truncated } = useMemo(
+    () => (addressSet ? takeIntervals(addressSet, intervalLimit) : { intervals: [], truncated: false }),
+    [addressSet, intervalLimit]);
+  const systemIntervals = useMemo(() => (windows.length > 0 ? dramRangesToSystem(windows, intervals) : []), [windows, intervals]);
+
+  if (usable.length === 0) return null;
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Divider sx={{ my: 1 }} />
+      <Typography variant="subtitle2">{windows.length > 0 ? 'DRAM Address Set' : 'Physical Address Set'}</Typography>
+      {!addressSet || size === 0n ? (
+        <Typography variant="body2" color="text.secondary">No address within the capacity maps to this element.</Typography>
+      ) : (
+        <>
+          <Typography variant="body2"><strong>Bytes:</strong> {formatBytes(size)} ({size.toLocaleString()} B)</Typography>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', overflowWrap: 'anywhere' }}><strong>Base:</strong> {formatHexAddress(addressSet.base)}</Typography>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', overflowWrap: 'anywhere' }}><strong>Free-bit mask:</strong> {formatHexAddress(addressSet.freeMask)}</Typography>
+          <Typography variant="body2"><strong>Granularity:</strong> aligned {formatBytes(1n << BigInt(addressSet.blockBits))} blocks</Typography>
+          <Typography variant="body2" sx={{ mt: 0.5 }}><strong>Intervals:</strong></Typography>
+          {intervals.map(interval => (
+            <Typography key={interval.start.toString()} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+              {formatHexAddress(interval.start)} - {formatHexAddress(interval.end)}
+            </Typography>
+          ))}
+          {systemIntervals.length > 0 && (
+            <>
+              <Typography variant="body2" sx={{ mt: 0.5 }}><strong>System addresses:</strong></Typography>
+              {systemIntervals.map(interval => (
+                <Typography key={interval.start.toString()} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+                  {formatHexAddress(interval.start)} - {formatHexAddress(interval.end)}
+                </Typography>
+              ))}
+            </>
+          )}
+          {truncated && <Button size="small" onClick={() => setIntervalLimit(limit => limit * 4)}>Show more</Button>}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default AddressSetDetails;
@@ -1,355 +1,424 @@
-import React, { useState, useEffect, useMemo, type ChangeEvent } from 'react';
+import React, { useState, useEffect, useMemo, useRef, type ChangeEvent } from 'react';
 import {
   Box, Paper, Typography, TextField, ThemeProvider, createTheme,
-  Grid, List, ListItemButton, ListItemText, Breadcrumbs, Link as MuiLink, Tooltip, IconButton,
-  Accordion, AccordionSummary, AccordionDetails, Divider
+  Breadcrumbs, Link as MuiLink, Tooltip, IconButton,
+  Accordion, AccordionSummary, AccordionDetails, Divider, Button, Alert, ToggleButton, ToggleButtonGroup, MenuItem
 } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import ShareIcon from '@mui/icons-material/Share';
+import {
+  getBit, getAddressBitsForBytes, parseUnitBasedSizeToBytes, parseSizeInputToAddressBits, toggleNbitPosition, formatBytes,
+  parseHexAddress, formatHexAddress,
+} from './core/helpers';
+import {
+  countsOf, mappingOf, totalIdBits, resizeLevel, findLevel, levelKey, DEFAULT_HIERARCHY, type HierarchyLevel,
+} from './core/hierarchy';
+import {
+  createConfig, parseConfigJson, serializeConfig, buildShareUrl, parseConfigFromHash,
+  type DramConfig, type ConfigFieldError, type VmConfig, type ReservedRegion, type SystemMapEntry,
+} from './core/config';
+import { decodePhysicalAddress } from './core/decode';
+import { parsePastedAddresses, decodeAddressBatch } from './core/batchDecode';
+import { formatElementPath, parseElementPath } from './core/elementPath';
+import { parseSystemMap, systemRangesToDram, systemToDram, dramToSystem, usableDramRanges } from './core/systemMap';
+import {
+  downloadTextFile, downloadSvgAsPng, loadAutosavedConfig, autosaveConfig, readElementLocation, writeElementLocation, type ElementLocation,
+} from './browser';
+import PresetPanel from './PresetPanel';
+import type { MappingPreset } from './presets';
+import EncoderPanel, { type NamedEncodeScope } from './EncoderPanel';
+import { pathEquations, buildAddressSet, intersectsRange, type AddressRange, type AddressSet } from './core/addressSet';
+import {
+  hasPageList, intersectRanges, pageSizeBytes, parsePageList, rangesBytes, usableCapacity, vmAddressRanges, vmLabel, DEFAULT_PAGE_SIZE, PAGE_SIZES,
+} from './core/vmMemory';
+import AddressSetDetails from './AddressSetDetails';
+import TracePanel from './TracePanel';
+import TraceHistograms from './TraceHistograms';
+import RowBufferSimPanel from './RowBufferSimPanel';
+import ComparePanel from './ComparePanel';
+import MappingMatrix from './MappingMatrix';
+import HierarchyEditor from './HierarchyEditor';
+import RowHammerPanel, { type VmRange } from './RowHammerPanel';
+import BatchDecodePanel from './BatchDecodePanel';
+import ElementSearch from './ElementSearch';
+import MappingInferencePanel from './MappingInferencePanel';
+import RowNeighbourDetails from './RowNeighbourDetails';
+import PagePlannerPanel from './PagePlannerPanel';
+import PageAlignmentPanel from './PageAlignmentPanel';
+import MemoryMapImportPanel from './MemoryMapImportPanel';
+import SystemMapEditor from './SystemMapEditor';
+import VmUsagePanel from './VmUsagePanel';
+import { ElementGrid, ElementList, ElementPixelMap, UNUSED_COLUMN_COLOR, VM_CONFLICT_COLOR, type DrillDownCell } from './DrillDownViews';
+import { levelUsage } from './core/usageStats';
+import { renderViewSvg, type ViewSnapshot } from './core/viewExport';
+import { reportToCsv, reportToMarkdown, type AnalysisReport } from './core/report';
+import { rowLevelOf, rowNeighbours, type RowRemapping } from './core/rowHammer';
+import { decodeTrace, countAccessesPerElement, heatColor, type MemoryTrace } from './core/trace';
+import { validateMapping, fieldKey, type MappingIssue, type MappingIssueKind } from './core/validation';
 
-// --- Helper Functions ---
-function getBit(value: number): number {
-  if (value <= 0) return 0;
-  if (value === 1) return 0;
-  return Math.floor(Math.log2(value - 1)) + 1;
-}
+const theme = createTheme();
 
-function parseUnitBasedSizeToBytes(sizeStr: string): number | string {
-  if (!sizeStr.trim()) { return "Input is empty"; }
-  const cleanedStr = sizeStr.trim().toUpperCase();
-  const sizePattern = /^(\d+(?:\.\d+)?)\s*([KMGT])?([B])?$/;
-  const match = cleanedStr.match(sizePattern);
-  if (!match) { return "Invalid format. Example: 2GB, 512M, 1024KB, 2048B, or 4096 (Bytes)"; }
-  const value = parseFloat(match[1]);
-  const prefix = match[2] || '';
-  const unitChar = match[3] || '';
-  let multiplier = 1;
-  if (prefix === 'K') multiplier = 1024;
-  else if (prefix === 'M') multiplier = 1024 * 1024;
-  else if (prefix === 'G') multiplier = 1024 * 1024 * 1024;
-  else if (prefix !== '') return `Unknown prefix: ${prefix}`;
-  if (unitChar !== 'B' && unitChar !== '') return `Invalid unit character: ${unitChar}`;
-  const bytes = value * multiplier;
-  if (bytes <= 0 || !isFinite(bytes) || isNaN(bytes)) { return "Cannot convert to a valid byte count (must be greater than 0)"; }
-  return bytes;
-}
+const ISSUE_SHORT_LABELS: Record<MappingIssueKind, string> = {
+  invalid: 'Invalid', empty: 'Empty', repeated: 'Repeated bit', duplicate: 'Duplicate direct bit',
+  'out-of-range': 'Out of range', dependent: 'Linearly dependent', unused: 'Unused bits',
+};
 
-function parseHexDataSizeToBytes(sizeStr: string): number | string {
-  if (!sizeStr.trim()) { return "Size input is empty"; }
-  const cleanedStr = sizeStr.trim().toLowerCase();
-  let sizeBytes: number;
-  if (cleanedStr.startsWith('0x')) {
-    sizeBytes = parseInt(cleanedStr.substring(2), 16);
-  } else {
-    if (/^[0-9a-f]+$/.test(cleanedStr)) {
-        sizeBytes = parseInt(cleanedStr, 16);
-    } else {
-        return "Invalid hexadecimal size. Expected e.g., 0x1000 or 1000 (hex bytes).";
-    }
-  }
-  if (isNaN(sizeBytes) || sizeBytes <= 0 || !isFinite(sizeBytes)) {
-    return "Invalid byte count from hex. Value must be a positive number.";
-  }
-  return sizeBytes;
-}
+const CENTER_MODE_TITLES = { visualizer: 'DRAM Hierarchy Visualizer', matrix: 'Mapping Matrix', compare: 'Mapping Comparison' };
 
-function parseSizeInputToAddressBits(sizeStr: string): number | string {
-    const bytes = parseUnitBasedSizeToBytes(sizeStr);
-    if (typeof bytes === 'string') return bytes;
-    return getBit(bytes);
-}
+interface PathItem { type: string; id: number; name: string; parentName?: string; }
 
-function getBitValueFromAddress(address: number, bitPosition: number): number {
-  if (isNaN(address) || isNaN(bitPosition) || bitPosition < 0) return 0;
-  return (address >> bitPosition) & 1;
-}
+// What the visualizer shows: the elements under `navigationPath` (of level `currentView`), and
+// the selected element, which is either the last item of the path or one of the elements shown.
+interface DrillDownState { navigationPath: PathItem[]; currentView: string; selectedPath: PathItem[] | null; }
 
-function parseNbitMappingToPositions(mappingStr: string): number[] | null {
-  if (!mappingStr || !mappingStr.trim()) return null;
-  const positions = mappingStr.split(',').map(s => parseInt(s.trim(), 10));
-  if (positions.some(isNaN)) return null;
-  return positions;
+// Path items of the elements `ids` name, outermost level first.
+function elementPathItems(levels: HierarchyLevel[], ids: number[]): PathItem[] {
+  return ids.reduce<PathItem[]>((path, id, index) => [
+    ...path, { type: levels[index].name, id, name: `${levels[index].name}${id}`, parentName: path[path.length - 1]?.name ?? 'System' },
+  ], []);
 }
 
-const HIERARCHY_ORDER = ["Channel", "Rank", "Bank", "BankGroup", "Subarray", "Row", "Column"];
-const HIERARCHY_KEYS_LOWER = HIERARCHY_ORDER.map(s => s.toLowerCase());
-
-function decodePhysicalAddress(
-  physicalAddressHexStr: string,
-  config: { channel: string[]; rank: string[]; bank: string[]; bankGroup: string[];
-            subarray: string[]; row: string[]; column: string[]; }
-): Record<string, number | string> {
-  const decodedIDs: Record<string, number | string> = {};
-  let physicalAddress: number;
-
-  if (!physicalAddressHexStr.trim()) {
-    HIERARCHY_KEYS_LOWER.forEach(key => decodedIDs[key] = "Address not entered");
-    return decodedIDs;
-  }
-  if (physicalAddressHexStr.toLowerCase().startsWith('0x')) {
-    physicalAddress = parseInt(physicalAddressHexStr.substring(2), 16);
-  } else {
-    physicalAddress = parseInt(physicalAddressHexStr, 16);
-  }
-  if (isNaN(physicalAddress)) {
-    HIERARCHY_KEYS_LOWER.forEach(key => decodedIDs[key] = "Invalid address");
-    return decodedIDs;
-  }
-
-  const processSection = (sectionNameKey: keyof typeof config) => {
-    const nbitMappingStrings = config[sectionNameKey];
-    const sectionKeyLower = sectionNameKey.toLowerCase();
-    if (!nbitMappingStrings || nbitMappingStrings.length === 0) {
-      decodedIDs[sectionKeyLower] = 0; return;
-    }
-    let idBinaryString = "";
-    for (let i = 0; i < nbitMappingStrings.length; i++) {
-      const mappingStr = nbitMappingStrings[i];
-      const physicalBitPositions = parseNbitMappingToPositions(mappingStr);
-      let currentIdBitValue = 0;
-      if (physicalBitPositions && physicalBitPositions.length > 0) {
-        if (physicalBitPositions.length > 1) {
-          currentIdBitValue = physicalBitPositions.reduce((acc, pos) => acc ^ getBitValueFromAddress(physicalAddress, pos), 0);
-        } else {
-          currentIdBitValue = getBitValueFromAddress(physicalAddress, physicalBitPositions[0]);
-        }
-      }
-      idBinaryString = currentIdBitValue.toString() + idBinaryString;
-    }
-    if (idBinaryString === "") {
-      decodedIDs[sectionKeyLower] = nbitMappingStrings.length > 0 ? "Invalid mapping" : 0;
-    } else {
-      decodedIDs[sectionKeyLower] = parseInt(idBinaryString, 2);
-    }
-  };
-  (Object.keys(config) as Array<keyof typeof config>).forEach(key => processSection(key));
-  return decodedIDs;
+function elementInfo(path: PathItem[]) {
+  return { ...path[path.length - 1], fullPath: path.map(item => item.name).join(' > ') };
 }
 
-const theme = createTheme();
+// `path` holds the IDs of the elements drilled into; `select` picks one of the elements shown.
+function drillDownAt(levels: HierarchyLevel[], target: { path: number[]; select: number | null }): DrillDownState {
+  const navigationPath = elementPathItems(levels, target.path);
+  const selectedPath = target.select !== null ? elementPathItems(levels, [...target.path, target.select]) : navigationPath.length > 0 ? navigationPath : null;
+  return { navigationPath, currentView: levels[target.path.length].name, selectedPath };
+}
 
-interface VmConfig { baseAddress: string; size: string; }
-interface PathItem { type: string; id: number; name: string; parentName?: string; }
+// The drill-down position the URL names (see readElementLocation); the top level when it does
+// not fit the hierarchy.
+function drillDownFromLocation(levels: HierarchyLevel[], location: ElementLocation): DrillDownState {
+  const top = drillDownAt(levels, { path: [], select: null });
+  const path = location.path ? parseElementPath(location.path, levels) : [];
+  if (typeof path === 'string' || path.length >= levels.length) return top;
+  if (!location.select) return drillDownAt(levels, { path, select: null });
+  const target = parseElementPath([location.path, location.select].filter(Boolean).join('/'), levels);
+  return typeof target === 'string' || target.length !== path.length + 1 ? top : drillDownAt(levels, { path, select: target[path.length] });
+}
 
 const VM_COLORS = [
   'rgba(255, 105, 97, 0.7)',  'rgba(137, 207, 240, 0.7)', 'rgba(191, 255, 191, 0.7)',
   'rgba(255, 182, 193, 0.7)', 'rgba(255, 214, 151, 0.7)', 'rgba(177, 156, 217, 0.7)',
   'rgba(255, 255, 179, 0.7)', 'rgba(173, 216, 230, 0.7)',
 ];
-const VM_CONFLICT_COLOR = 'rgba(100, 100, 100, 0.7)';
-const UNUSED_COLUMN_COLOR = 'rgba(230, 230, 230, 0.7)';
+// Views with more elements count their VM usage only on request: every element needs its own address set.
+const AUTO_USAGE_ELEMENTS = 1024;
 
+// baseAddressNum/endAddressNum is the extent of the VM; a page-framed VM only owns `ranges`.
+// `dramRanges` is the DRAM behind `ranges`, which is what the mapping decodes.
 interface ProcessedVmConfig extends VmConfig {
-  id: number; baseAddressNum: number; endAddressNum: number; sizeBytes: number;
+  id: number; label: string; baseAddressNum: bigint; endAddressNum: bigint; sizeBytes: bigint; ranges: AddressRange[]; dramRanges: AddressRange[];
   color: string; decodedStart?: Record<string, number | string>;
   decodedEnd?: Record<string, number | string>; isValid: boolean;
 }
 
-interface AddressRange { start: number; end: number; }
-
-function calculatePhysicalAddressRanges(
-  itemFullPath: PathItem[],
-  nbitValueStates: Record<string, string[]>,
-  totalCapacityInBytes: number
-): AddressRange[] {
-  if (totalCapacityInBytes <= 0) {
-    return [];
-  }
-
-  const activeHashGroups: { physicalBitPositions: number[]; targetIdBitValue: number; }[] = [];
-  for (const pathSegment of itemFullPath) {
-    const itemTypeLower = pathSegment.type.toLowerCase();
-    const itemTargetId = pathSegment.id;
-    const nbitMappings = nbitValueStates[itemTypeLower];
-    const numIdBits = nbitMappings ? nbitMappings.length : 0;
-    for (let i = 0; i < numIdBits; i++) {
-      const targetIdBitValue = (itemTargetId >> i) & 1;
-      const physicalBitPositions = parseNbitMappingToPositions(nbitMappings[i]);
-      if (physicalBitPositions) {
-        activeHashGroups.push({ physicalBitPositions, targetIdBitValue });
-      }
-    }
-  }
-
-  if (activeHashGroups.length === 0) {
-    return [{ start: 0, end: totalCapacityInBytes - 1 }];
-  }
-
-  const allBits = new Set<number>();
-  activeHashGroups.forEach(g => g.physicalBitPositions.forEach(b => allBits.add(b)));
-  if (allBits.size === 0) {
-    return [{ start: 0, end: totalCapacityInBytes - 1 }];
-  }
-  const relevantBits = Array.from(allBits);
-  const minBit = Math.min(...relevantBits);
-  const maxBit = Math.max(...relevantBits);
-
-  const maxPossibleBitForCapacity = Math.floor(Math.log2(totalCapacityInBytes));
-  if (maxBit > maxPossibleBitForCapacity) {
-      console.warn(`A specified Nbit (${maxBit}) is outside the addressable range for the given capacity (${totalCapacityInBytes} bytes). Max possible bit is ${maxPossibleBitForCapacity}.`);
-      return [];
-  }
-
-  if (maxBit - minBit > 24) {
-    console.warn(`Bit range too large (${maxBit - minBit}). Skipping PA range calculation for performance.`);
-    return [];
-  }
-
-  const calculatedRanges: AddressRange[] = [];
-  const numCombinations = 1 << (maxBit - minBit + 1);
-  let inTargetRange = false;
-  let rangeStartAddr = 0;
-
-  for (let i = 0; i < numCombinations; i++) {
-    const currentBaseAddr = i << minBit;
-    
-    if (currentBaseAddr >= totalCapacityInBytes) {
-      break;
-    }
-    
-    let meetsAllCriteria = true;
-    for (const group of activeHashGroups) {
-      const currentXorSum = group.physicalBitPositions.reduce(
-        (acc, bit) => acc ^ getBitValueFromAddress(currentBaseAddr, bit), 0
-      );
-      if (currentXorSum !== group.targetIdBitValue) {
-        meetsAllCriteria = false;
-        break;
-      }
-    }
-
-    if (meetsAllCriteria && !inTargetRange) {
-      inTargetRange = true;
-      rangeStartAddr = currentBaseAddr;
-    } else if (!meetsAllCriteria && inTargetRange) {
-      inTargetRange = false;
-      calculatedRanges.push({ start: rangeStartAddr, end: currentBaseAddr - 1 });
-    }
-  }
-
-  if (inTargetRange) {
-    calculatedRanges.push({ start: rangeStartAddr, end: totalCapacityInBytes - 1 });
-  }
-
-  return calculatedRanges;
+function pageListError(vm: VmConfig): string | null {
+  if (!hasPageList(vm)) return null;
+  const ranges = parsePageList(vm.pages ?? '', pageSizeBytes(vm.pageSize));
+  return typeof ranges === 'string' ? ranges : null;
 }
 
+// A config in the URL hash (a shared link) takes precedence over the autosaved session.
+// A broken link is reported rather than silently ignored.
+function loadStartupConfig(): { config: DramConfig | null; errors: ConfigFieldError[] } {
+  const fromHash = parseConfigFromHash(window.location.hash);
+  if (fromHash?.ok) return { config: fromHash.config, errors: [] };
+  return { config: loadAutosavedConfig(), errors: fromHash ? fromHash.errors : [] };
+}
 
 const App: React.FC = () => {
-  const initialChannelValue = 1; const initialRankValue = 1; const initialBankValue = 4;
-  const initialBankGroupValue = 2; const initialSubarrayValue = 8;
-  const initialRowValue = 16; const initialColumnRowValue = 32;
+  const [startup] = useState(loadStartupConfig);
 
-  const [sizeInput, setSizeInput] = useState<string>('');
+  const [sizeInput, setSizeInput] = useState<string>(startup.config?.totalCapacity ?? '');
   const [calculationResult, setCalculationResult] = useState<number | string | null>(null);
   const [physicalAddressInput, setPhysicalAddressInput] = useState<string>('');
   const [decodedIDs, setDecodedIDs] = useState<Record<string, number | string> | null>(null);
+  const [batchAddressText, setBatchAddressText] = useState<string>('');
 
-  const [bankValue, setBankValue] = useState<number>(initialBankValue);
-  const [bankNbitValues, setBankNbitValues] = useState<string[]>(Array.from({ length: getBit(initialBankValue) }, () => ''));
-  const [bankGroupValue, setBankGroupValue] = useState<number>(initialBankGroupValue);
-  const [bankGroupNbitValues, setBankGroupNbitValues] = useState<string[]>(Array.from({ length: getBit(initialBankGroupValue) }, () => ''));
-  const [rankValue, setRankValue] = useState<number>(initialRankValue);
-  const [rankNbitValues, setRankNbitValues] = useState<string[]>(Array.from({ length: getBit(initialRankValue) }, () => ''));
-  const [channelValue, setChannelValue] = useState<number>(initialChannelValue);
-  const [channelNbitValues, setChannelNbitValues] = useState<string[]>(Array.from({ length: getBit(initialChannelValue) }, () => ''));
-  const [subarrayValue, setSubarrayValue] = useState<number>(initialSubarrayValue);
-  const [subarrayNbitValues, setSubarrayNbitValues] = useState<string[]>(Array.from({ length: getBit(initialSubarrayValue) }, () => ''));
-  const [rowValue, setRowValue] = useState<number>(initialRowValue);
-  const [rowNbitValues, setRowNbitValues] = useState<string[]>(Array.from({ length: getBit(initialRowValue) }, () => ''));
-  const [columnRowValue, setColumnValue] = useState<number>(initialColumnRowValue);
-  const [columnRowNbitValues, setColumnNbitValues] = useState<string[]>(Array.from({ length: getBit(initialColumnRowValue) }, () => ''));
-
-  const [vmCount, setVmCount] = useState<number>(0);
-  const [vmConfigs, setVmConfigs] = useState<VmConfig[]>([]);
-  const [processedVmConfigs, setProcessedVmConfigs] = useState<ProcessedVmConfig[]>([]);
-
-  const [currentView, setCurrentView] = useState<string>(HIERARCHY_ORDER[0]);
-  const [navigationPath, setNavigationPath] = useState<PathItem[]>([]);
-  const [selectedElementInfo, setSelectedElementInfo] = useState<any | null>(null);
+  const [levels, setLevels] = useState<HierarchyLevel[]>(startup.config?.levels ?? DEFAULT_HIERARCHY);
 
-  const valueStates: Record<string, number> = useMemo(() => ({
-    Channel: channelValue, Rank: rankValue, Bank: bankValue, BankGroup: bankGroupValue,
-    Subarray: subarrayValue, Row: rowValue, Column: columnRowValue,
-  }), [channelValue, rankValue, bankValue, bankGroupValue, subarrayValue, rowValue, columnRowValue]);
-  
-  const nbitValueStates = useMemo(() => ({
-      channel: channelNbitValues, rank: rankNbitValues, bank: bankNbitValues,
-      bankGroup: bankGroupNbitValues, subarray: subarrayNbitValues,
-      row: rowNbitValues, column: columnRowNbitValues,
-  }), [channelNbitValues, rankNbitValues, bankNbitValues, bankGroupNbitValues, subarrayNbitValues, rowNbitValues, columnRowNbitValues]);
+  const [vmCount, setVmCount] = useState<number>(startup.config?.vms.length ?? 0);
+  const [vmConfigs, setVmConfigs] = useState<VmConfig[]>(startup.config?.vms ?? []);
+  const [processedVmConfigs, setProcessedVmConfigs] = useState<ProcessedVmConfig[]>([]);
+  const [reservedRegions, setReservedRegions] = useState<ReservedRegion[]>(startup.config?.reserved ?? []);
+  const [systemMap, setSystemMap] = useState<SystemMapEntry[]>(startup.config?.memoryMap ?? []);
+
+  // A `path` in the URL opens the visualizer there (see writeElementLocation).
+  const [startupDrillDown] = useState(() => drillDownFromLocation(levels, readElementLocation()));
+  const [currentView, setCurrentView] = useState<string>(startupDrillDown.currentView);
+  const [navigationPath, setNavigationPath] = useState<PathItem[]>(startupDrillDown.navigationPath);
+  const [selectedElementInfo, setSelectedElementInfo] = useState<ReturnType<typeof elementInfo> | null>(startupDrillDown.selectedPath && elementInfo(startupDrillDown.selectedPath));
+  const [selectedElementPath, setSelectedElementPath] = useState<PathItem[] | null>(startupDrillDown.selectedPath);
+
+  const [trace, setTrace] = useState<MemoryTrace | null>(null);
+  const [overlayMode, setOverlayMode] = useState<'vm' | 'heatmap'>('vm');
+  const [centerMode, setCenterMode] = useState<'visualizer' | 'matrix' | 'compare'>('visualizer');
+
+  const [encoderIds, setEncoderIds] = useState<Record<string, string>>({});
+  // The last row selected, kept while navigating so its neighbours stay highlighted in the row list.
+  const [hammerRowPath, setHammerRowPath] = useState<PathItem[] | null>(null);
+  const [rowRemapping, setRowRemapping] = useState<RowRemapping>('none');
+  // The large view whose VM usage was asked for (see AUTO_USAGE_ELEMENTS).
+  const [usageRequestedView, setUsageRequestedView] = useState<string | null>(null);
+
+  const [configErrors, setConfigErrors] = useState<ConfigFieldError[]>(startup.errors);
+  const [configStatus, setConfigStatus] = useState<string>('');
+  const configFileInputRef = useRef<HTMLInputElement>(null);
+
+  const valueStates: Record<string, number> = useMemo(() => countsOf(levels), [levels]);
+  const nbitValueStates = useMemo(() => mappingOf(levels), [levels]);
+  const currentConfig = useMemo(() => createConfig(sizeInput, levels, vmConfigs, { reserved: reservedRegions, memoryMap: systemMap }),
+    [sizeInput, levels, vmConfigs, reservedRegions, systemMap]);
+  const systemWindows = useMemo(() => parseSystemMap(systemMap), [systemMap]);
 
   const totalCapacityInBytes = useMemo(() => {
     const bytes = parseUnitBasedSizeToBytes(sizeInput);
-    return typeof bytes === 'number' && bytes > 0 ? bytes : 0;
+    return typeof bytes === 'bigint' && bytes > 0n ? bytes : 0n;
   }, [sizeInput]);
+  // Reserved holes have no DRAM behind them, so the mapping only has to cover the rest.
+  const usableCapacityInBytes = useMemo(() => usableCapacity(totalCapacityInBytes, reservedRegions), [totalCapacityInBytes, reservedRegions]);
+  // The DRAM address sets, usage counts and analysis panels are clipped to.
+  const usableRanges = useMemo(() => usableDramRanges(totalCapacityInBytes, reservedRegions, systemWindows),
+    [totalCapacityInBytes, reservedRegions, systemWindows]);
+  const capacityAddressBits = typeof calculationResult === 'number' && reservedRegions.length > 0 && usableCapacityInBytes > 0n
+    ? getAddressBitsForBytes(usableCapacityInBytes) : calculationResult;
 
   const handleSizeInputChange = (event: ChangeEvent<HTMLInputElement>) => setSizeInput(event.target.value);
   const handlePhysicalAddressChange = (event: ChangeEvent<HTMLInputElement>) => setPhysicalAddressInput(event.target.value);
 
-  const createValueChangeHandler = (setValue: React.Dispatch<React.SetStateAction<number>>, setNbitValues: React.Dispatch<React.SetStateAction<string[]>>) => (event: ChangeEvent<HTMLInputElement>) => { const numValue = parseInt(event.target.value, 10); const validValue = isNaN(numValue) || numValue < 0 ? 0 : numValue; setValue(validValue); const bitCount = getBit(validValue); setNbitValues(Array.from({ length: bitCount }, () => '')); };
-  const createNbitChangeHandler = (nbitValues: string[], setNbitValues: React.Dispatch<React.SetStateAction<string[]>>) => (index: number, value: string) => { const newValues = [...nbitValues]; newValues[index] = value; setNbitValues(newValues); };
-
-  const handleRankChange = createValueChangeHandler(setRankValue, setRankNbitValues);
-  const handleRankNbitChange = createNbitChangeHandler(rankNbitValues, setRankNbitValues);
-  const handleBankChange = createValueChangeHandler(setBankValue, setBankNbitValues);
-  const handleBankNbitChange = createNbitChangeHandler(bankNbitValues, setBankNbitValues);
-  const handleBankGroupChange = createValueChangeHandler(setBankGroupValue, setBankGroupNbitValues);
-  const handleBankGroupNbitChange = createNbitChangeHandler(bankGroupNbitValues, setBankGroupNbitValues);
-  const handleChannelChange = createValueChangeHandler(setChannelValue, setChannelNbitValues);
-  const handleChannelNbitChange = createNbitChangeHandler(channelNbitValues, setChannelNbitValues);
-  const handleSubarrayChange = createValueChangeHandler(setSubarrayValue, setSubarrayNbitValues);
-  const handleSubarrayNbitChange = createNbitChangeHandler(subarrayNbitValues, setSubarrayNbitValues);
-  const handleRowChange = createValueChangeHandler(setRowValue, setRowNbitValues);
-  const handleRowNbitChange = createNbitChangeHandler(rowNbitValues, setRowNbitValues);
-  const handleColumnRowChange = createValueChangeHandler(setColumnValue, setColumnNbitValues);
-  const handleColumnRowNbitChange = createNbitChangeHandler(columnRowNbitValues, setColumnNbitValues);
+  const handleLevelCountChange = (index: number) => (event: ChangeEvent<HTMLInputElement>) => { const numValue = parseInt(event.target.value, 10); const validValue = isNaN(numValue) || numValue < 0 ? 0 : numValue; setLevels(prev => prev.map((level, i) => (i === index ? resizeLevel(level, validValue) : level))); };
+  const handleLevelNbitChange = (index: number) => (bitIndex: number, value: string) => { setLevels(prev => prev.map((level, i) => (i === index ? { ...level, nbits: level.nbits.map((text, b) => (b === bitIndex ? value : text)) } : level))); };
 
   const handleVmCountChange = (event: ChangeEvent<HTMLInputElement>) => { let count = parseInt(event.target.value, 10); if (isNaN(count) || count < 0) count = 0; setVmCount(count); setVmConfigs(prevConfigs => { const newArray: VmConfig[] = []; for (let i = 0; i < count; i++) { newArray.push(prevConfigs[i] || { baseAddress: '', size: '' }); } return newArray; }); };
   const handleVmConfigChange = (index: number, field: keyof VmConfig, value: string) => { setVmConfigs(prevConfigs => { const newConfigs = [...prevConfigs]; if (newConfigs[index]) newConfigs[index] = { ...newConfigs[index], [field]: value }; return newConfigs; }); };
 
-  const handleElementSelect = (elementType: string, elementId: number) => { const elementName = `${elementType}${elementId}`; const parentName = navigationPath.length > 0 ? navigationPath[navigationPath.length - 1].name : 'System'; const newPathItem: PathItem = { type: elementType, id: elementId, name: elementName, parentName }; const newPath = [...navigationPath, newPathItem]; setNavigationPath(newPath); const currentTypeIndex = HIERARCHY_ORDER.indexOf(elementType); if (currentTypeIndex < HIERARCHY_ORDER.length - 1) { setCurrentView(HIERARCHY_ORDER[currentTypeIndex + 1]); } else { setCurrentView(elementType); } setSelectedElementInfo({ ...newPathItem, fullPath: newPath.map(p => p.name).join(' > ') }); };
-  const navigateToPathIndex = (index: number) => { const newPath = navigationPath.slice(0, index + 1); setNavigationPath(newPath); if (index < 0) { setCurrentView(HIERARCHY_ORDER[0]); setSelectedElementInfo(null); return; } const targetElement = newPath[newPath.length - 1]; const currentTypeIndex = HIERARCHY_ORDER.indexOf(targetElement.type); if (currentTypeIndex < HIERARCHY_ORDER.length - 1) { setCurrentView(HIERARCHY_ORDER[currentTypeIndex + 1]); } else { setCurrentView(targetElement.type); } setSelectedElementInfo({...targetElement, fullPath: newPath.map(p=>p.name).join(' > ')}); };
+  const viewBelow = (levelName: string) => { const index = levels.findIndex(level => level.name === levelName); return index >= 0 && index < levels.length - 1 ? levels[index + 1].name : levelName; };
+  const handleElementSelect = (elementType: string, elementId: number) => { const elementName = `${elementType}${elementId}`; const parentName = navigationPath.length > 0 ? navigationPath[navigationPath.length - 1].name : 'System'; const newPathItem: PathItem = { type: elementType, id: elementId, name: elementName, parentName }; const newPath = [...navigationPath, newPathItem]; setNavigationPath(newPath); if (elementType === rowLevelOf(levels)?.name) setHammerRowPath(newPath); setCurrentView(viewBelow(elementType)); setSelectedElementInfo({ ...newPathItem, fullPath: newPath.map(p => p.name).join(' > ') }); setSelectedElementPath(newPath); };
+  const navigateToPathIndex = (index: number) => { const newPath = navigationPath.slice(0, index + 1); setNavigationPath(newPath); if (index < 0) { setCurrentView(levels[0].name); setSelectedElementInfo(null); setSelectedElementPath(null); return; } const targetElement = newPath[newPath.length - 1]; setCurrentView(viewBelow(targetElement.type)); setSelectedElementInfo({...targetElement, fullPath: newPath.map(p=>p.name).join(' > ')}); setSelectedElementPath(newPath); };
+  // Elements of the last level have nothing below them, so clicking one selects it and fills the encoder instead.
+  const handleLeafSelect = (level: HierarchyLevel, elementId: number) => {
+    const elementName = `${level.name}${elementId}`; const parentName = navigationPath[navigationPath.length - 1]?.name ?? 'System';
+    const fullPath: PathItem[] = [...navigationPath, { type: level.name, id: elementId, name: elementName, parentName }];
+    setSelectedElementInfo(elementInfo(fullPath));
+    setSelectedElementPath(fullPath);
+    if (level === rowLevelOf(levels)) setHammerRowPath(fullPath);
+    setEncoderIds(Object.fromEntries(fullPath.map(p => [levelKey(p.type), String(p.id)])));
+  };
+  const applyDrillDown = (state: DrillDownState) => {
+    setNavigationPath(state.navigationPath); setCurrentView(state.currentView);
+    setSelectedElementPath(state.selectedPath); setSelectedElementInfo(state.selectedPath && elementInfo(state.selectedPath));
+    if (state.selectedPath && state.selectedPath[state.selectedPath.length - 1].type === rowLevelOf(levels)?.name) setHammerRowPath(state.selectedPath);
+  };
+  // Shows an element of any level among its siblings, selected; from the search box or a decoded address.
+  const showElement = (ids: number[]) => {
+    applyDrillDown(drillDownAt(levels, { path: ids.slice(0, -1), select: ids[ids.length - 1] }));
+    setCenterMode('visualizer');
+  };
+  const resetNavigation = (firstView: string) => { setNavigationPath([]); setCurrentView(firstView); setSelectedElementInfo(null); setSelectedElementPath(null); setHammerRowPath(null); };
+
+  const applyConfig = (config: DramConfig) => {
+    setSizeInput(config.totalCapacity);
+    setLevels(config.levels);
+    setVmCount(config.vms.length); setVmConfigs(config.vms);
+    setReservedRegions(config.reserved ?? []);
+    setSystemMap(config.memoryMap ?? []);
+    resetNavigation(config.levels[0].name);
+  };
+
+  // Navigation holds level names, so it only survives edits that keep the level names and order.
+  const handleHierarchyChange = (newLevels: HierarchyLevel[]) => {
+    const structure = (list: HierarchyLevel[]) => list.map(level => level.name).join('/');
+    if (structure(newLevels) !== structure(levels)) resetNavigation(newLevels[0].name);
+    setLevels(newLevels);
+  };
+
+  const handleMatrixToggle = (levelName: string, bitIndex: number, paBit: number) => {
+    setLevels(prev => prev.map(level => (level.name !== levelName ? level
+      : { ...level, nbits: level.nbits.map((text, index) => (index === bitIndex ? toggleNbitPosition(text, paBit) : text)) })));
+  };
+  const handlePresetApply = (preset: MappingPreset) => {
+    applyConfig({ ...preset.config, vms: vmConfigs, reserved: reservedRegions, memoryMap: systemMap });
+    setConfigStatus(`Applied preset "${preset.name}"`);
+  };
+
+  const handleConfigExport = () => downloadTextFile('dram-config.json', serializeConfig(currentConfig), 'application/json');
+  const handleConfigImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const result = parseConfigJson(await file.text());
+    if (!result.ok) { setConfigErrors(result.errors); setConfigStatus(`${file.name} was not loaded; the current configuration is unchanged.`); return; }
+    applyConfig(result.config); setConfigErrors([]); setConfigStatus(`Loaded ${file.name}`);
+  };
+  const handleCopyShareLink = async () => {
+    const url = buildShareUrl(currentConfig, window.location.href);
+    try { await navigator.clipboard.writeText(url); setConfigStatus('Share link copied to clipboard'); }
+    catch { window.history.replaceState(null, '', url); setConfigStatus('Clipboard unavailable; the share link is now in the address bar'); }
+  };
 
+  // Once a shared config has been applied the hash is dropped, so later edits (autosaved) win on reload.
+  useEffect(() => { if (parseConfigFromHash(window.location.hash)) window.history.replaceState(null, '', window.location.pathname + window.location.search); }, []);
+  useEffect(() => { autosaveConfig(currentConfig); }, [currentConfig]);
   useEffect(() => { const result = parseSizeInputToAddressBits(sizeInput); setCalculationResult(result); }, [sizeInput]);
-  useEffect(() => { const result = decodePhysicalAddress(physicalAddressInput, nbitValueStates); setDecodedIDs(result); }, [physicalAddressInput, nbitValueStates]);
+  useEffect(() => { const result = decodePhysicalAddress(physicalAddressInput, nbitValueStates, systemWindows); setDecodedIDs(result); }, [physicalAddressInput, nbitValueStates, systemWindows]);
   
   useEffect(() => {
     const newProcessedVmConfigs = vmConfigs.map((vm, index) => {
-      let baseAddressNum = NaN; let sizeBytesNum = 0; let isValid = false;
-      if (vm.baseAddress.trim()) { baseAddressNum = vm.baseAddress.toLowerCase().startsWith('0x') ? parseInt(vm.baseAddress.substring(2), 16) : parseInt(vm.baseAddress, 16); }
-      const parsedSizeBytes = parseHexDataSizeToBytes(vm.size); 
-      if (typeof parsedSizeBytes === 'number' && !isNaN(baseAddressNum) && parsedSizeBytes > 0) { sizeBytesNum = parsedSizeBytes; isValid = true; }
+      const parsedRanges = vmAddressRanges(vm);
+      const ranges = typeof parsedRanges === 'string' ? [] : parsedRanges;
+      const isValid = ranges.length > 0;
       return {
-        ...vm, id: index, baseAddressNum: isValid ? baseAddressNum : NaN,
-        sizeBytes: sizeBytesNum, endAddressNum: isValid ? baseAddressNum + sizeBytesNum - 1 : NaN,
+        ...vm, id: index, label: vmLabel(vm, index), ranges, dramRanges: systemRangesToDram(systemWindows, ranges), baseAddressNum: isValid ? ranges[0].start : 0n,
+        sizeBytes: rangesBytes(ranges), endAddressNum: isValid ? ranges[ranges.length - 1].end : 0n,
         color: VM_COLORS[index % VM_COLORS.length], isValid: isValid,
       };
     });
     setProcessedVmConfigs(newProcessedVmConfigs);
-  }, [vmConfigs]);
+  }, [vmConfigs, systemWindows]);
 
-  const totalNbitSum = useMemo(() => (
-    getBit(rankValue) + getBit(bankValue) + getBit(bankGroupValue) +
-    getBit(channelValue) + getBit(subarrayValue) + getBit(rowValue) + getBit(columnRowValue)
-  ), [rankValue, bankValue, bankGroupValue, channelValue, subarrayValue, rowValue, columnRowValue]);
+  const totalNbitSum = useMemo(() => totalIdBits(levels), [levels]);
   
-  const itemAddressRanges = useMemo(() => {
+  // Address sets of the items in the view, each built the first time it is asked for: a view
+  // may hold 65,536 rows of which only a screenful is drawn. The parent's constraints are shared.
+  const itemAddressSet = useMemo(() => {
     const count = valueStates[currentView] ?? 0;
-    const rangesMap = new Map<number, AddressRange[]>();
-    if (totalCapacityInBytes > 0) {
-        for (let i = 0; i < count; i++) {
-            const itemFullPath = [...navigationPath, { type: currentView, id: i, name: `${currentView}${i}` }];
-            rangesMap.set(i, calculatePhysicalAddressRanges(itemFullPath, nbitValueStates, totalCapacityInBytes));
-        }
+    const cache = new Map<number, AddressSet | null>();
+    const parentEquations = pathEquations(navigationPath, nbitValueStates);
+    return (index: number): AddressSet | null => {
+      if (usableRanges.length === 0 || index < 0 || index >= count) return null;
+      if (!cache.has(index)) {
+        const itemEquations = pathEquations([{ type: currentView, id: index }], nbitValueStates);
+        cache.set(index, buildAddressSet([...parentEquations, ...itemEquations], usableRanges));
+      }
+      return cache.get(index) ?? null;
+    };
+  }, [currentView, navigationPath, nbitValueStates, valueStates, usableRanges]);
+
+  const getVmsUsingItem = useMemo(() => {
+    const cache = new Map<number, ProcessedVmConfig[]>();
+    return (index: number): ProcessedVmConfig[] => {
+      const cached = cache.get(index);
+      if (cached) return cached;
+      const itemSet = itemAddressSet(index);
+      const vms = itemSet ? processedVmConfigs.filter(vm => vm.dramRanges.some(range => intersectsRange(itemSet, range))) : [];
+      cache.set(index, vms);
+      return vms;
+    };
+  }, [itemAddressSet, processedVmConfigs]);
+
+  const decodedTrace = useMemo(() => (trace ? decodeTrace(trace, nbitValueStates) : null), [trace, nbitValueStates]);
+  const itemAccessCounts = useMemo(() => (
+    trace && decodedTrace ? countAccessesPerElement(decodedTrace, trace.count, navigationPath, currentView, valueStates[currentView] ?? 0) : null
+  ), [trace, decodedTrace, navigationPath, currentView, valueStates]);
+  const maxItemAccesses = useMemo(() => (itemAccessCounts ? Math.max(1, ...itemAccessCounts) : 1), [itemAccessCounts]);
+
+  // Stable between renders that change nothing in the view, so the pixel map is not repainted.
+  const cellAt = useMemo(() => (index: number): DrillDownCell => {
+    if (overlayMode === 'heatmap' && itemAccessCounts) {
+      const accesses = itemAccessCounts[index] ?? 0;
+      return { heat: { accesses, color: accesses > 0 ? heatColor(accesses / maxItemAccesses) : UNUSED_COLUMN_COLOR }, vms: [] };
     }
-    return rangesMap;
-  }, [currentView, navigationPath, nbitValueStates, valueStates, totalCapacityInBytes]);
-  
+    return { heat: null, vms: getVmsUsingItem(index) };
+  }, [overlayMode, itemAccessCounts, maxItemAccesses, getVmsUsingItem]);
+
+  const handleTraceChange = (newTrace: MemoryTrace | null) => { setTrace(newTrace); setOverlayMode(newTrace ? 'heatmap' : 'vm'); };
+
+  const encoderScopes: NamedEncodeScope[] = useMemo(() => [
+    totalCapacityInBytes > 0n
+      ? { label: 'Whole capacity', start: 0n, end: totalCapacityInBytes - 1n }
+      : { label: 'Any address (capacity not set)', start: 0n, end: (1n << 64n) - 1n },
+    // Scopes are DRAM ranges; a VM that the system map spreads over several windows is searched by its DRAM extent.
+    ...processedVmConfigs.filter(vm => vm.dramRanges.length > 0).map(vm => ({
+      label: hasPageList(vm) ? `${vm.label} (extent of its pages)` : vm.dramRanges.length > 1 ? `${vm.label} (DRAM extent)` : vm.label,
+      start: vm.dramRanges[0].start, end: vm.dramRanges[vm.dramRanges.length - 1].end,
+    })),
+  ], [totalCapacityInBytes, processedVmConfigs]);
+  // The DRAM address the decoder input translates to, shown when the system map moves it.
+  const decodedDramAddress = useMemo(() => {
+    const address = parseHexAddress(physicalAddressInput);
+    const dramAddress = address === null ? null : systemToDram(systemWindows, address);
+    return dramAddress !== null && dramAddress !== address ? dramAddress : null;
+  }, [physicalAddressInput, systemWindows]);
+  const batchDecode = useMemo(() => {
+    const { addresses, skippedLines } = parsePastedAddresses(batchAddressText);
+    return { rows: decodeAddressBatch(addresses, levels, systemWindows), skippedLines };
+  }, [batchAddressText, levels, systemWindows]);
+  // The encoder finds DRAM addresses; the decoder takes system addresses.
+  const handleEncoderPick = (dramAddress: string) => {
+    const address = parseHexAddress(dramAddress);
+    const systemAddress = address === null ? null : dramToSystem(systemWindows, address);
+    setPhysicalAddressInput(systemAddress === null ? dramAddress : formatHexAddress(systemAddress));
+  };
+
+  const vmRanges: VmRange[] = useMemo(() => processedVmConfigs
+    .map(vm => ({ label: vm.label, color: vm.color, ranges: totalCapacityInBytes > 0n ? intersectRanges(vm.dramRanges, usableRanges) : vm.dramRanges }))
+    .filter(vm => vm.ranges.length > 0), [processedVmConfigs, totalCapacityInBytes, usableRanges]);
+
+  // Bytes per VM per element of the current view; shared by the usage panel and the report.
+  const viewKey = [...navigationPath.map(item => item.name), currentView].join('/');
+  const viewUsage = useMemo(() => {
+    const level = findLevel(levels, currentView);
+    if (!level || usableRanges.length === 0 || vmRanges.length === 0) return null;
+    if (level.count > AUTO_USAGE_ELEMENTS && usageRequestedView !== viewKey) return null;
+    return levelUsage(Array.from({ length: level.count }, (_, id) => itemAddressSet(id)), vmRanges.map(vm => vm.ranges));
+  }, [levels, currentView, usableRanges, itemAddressSet, vmRanges, usageRequestedView, viewKey]);
+
+  // Offsets of the hammer row and its neighbours that are listed in the current view.
+  const rowHighlights = useMemo(() => {
+    const highlights = new Map<number, number>();
+    if (!hammerRowPath || currentView !== rowLevelOf(levels)?.name) return highlights;
+    const inView = (path: { type: string; id: number }[]) => path.length === navigationPath.length + 1
+      && navigationPath.every((item, index) => item.type === path[index].type && item.id === path[index].id);
+    [{ offset: 0, path: hammerRowPath }, ...rowNeighbours(hammerRowPath, levels, rowRemapping)]
+      .filter(row => inView(row.path))
+      .forEach(row => highlights.set(row.path[row.path.length - 1].id, row.offset));
+    return highlights;
+  }, [hammerRowPath, currentView, levels, navigationPath, rowRemapping]);
+
+  // The selected element when it is one of those shown, outlined in the view.
+  const selectedInView = selectedElementPath && selectedElementPath.length === navigationPath.length + 1
+    && navigationPath.every((item, index) => item.type === selectedElementPath[index].type && item.id === selectedElementPath[index].id)
+    ? selectedElementPath[navigationPath.length].id : null;
+
+  // The drill-down position lives in the URL, so back and forward move through it and a link
+  // (including a share link) opens the same element.
+  const locationPath = formatElementPath(levels, navigationPath.map(item => item.id));
+  const locationSelect = selectedInView === null ? '' : formatElementPath(levels.slice(navigationPath.length), [selectedInView]);
+  useEffect(() => { writeElementLocation({ path: locationPath, select: locationSelect }); }, [locationPath, locationSelect]);
+  // Registered anew on every render, so it restores against the current hierarchy.
+  useEffect(() => {
+    const handlePopState = () => applyDrillDown(drillDownFromLocation(levels, readElementLocation()));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  });
+
+  const mappingValidation = useMemo(
+    () => validateMapping(levels, typeof capacityAddressBits === 'number' ? capacityAddressBits : null),
+    [levels, capacityAddressBits]);
+  // Errors win over warnings when one field has several issues.
+  const fieldIssues = useMemo(() => {
+    const byField = new Map<string, MappingIssue>();
+    mappingValidation.issues.forEach(issue => {
+      if (issue.level === undefined || issue.bitIndex === undefined) return;
+      const key = fieldKey(issue.level, issue.bitIndex);
+      const existing = byField.get(key);
+      if (!existing || (existing.severity === 'warning' && issue.severity === 'error')) byField.set(key, issue);
+    });
+    return byField;
+  }, [mappingValidation]);
+
   let consistencyStatusText: string = ''; let consistencyStatusColor: string = 'text.secondary'; let consistencyMessageDetail: string = '';
-  if (typeof calculationResult === 'number') {
-    consistencyMessageDetail = `Address bits from capacity: ${calculationResult} bits`;
-    if (totalNbitSum === calculationResult) { consistencyStatusText = 'Status: Consistent'; consistencyStatusColor = 'success.main'; } 
+  if (typeof capacityAddressBits === 'number') {
+    consistencyMessageDetail = `Address bits from capacity: ${capacityAddressBits} bits`;
+    if (reservedRegions.length > 0) consistencyMessageDetail += ` (${formatBytes(usableCapacityInBytes)} without reserved regions)`;
+    if (totalNbitSum === capacityAddressBits) { consistencyStatusText = 'Status: Consistent'; consistencyStatusColor = 'success.main'; } 
     else { consistencyStatusText = 'Status: Inconsistent'; consistencyStatusColor = 'error.main'; }
   } else {
     consistencyMessageDetail = `Address bits from capacity: (Not calculated or ${calculationResult || 'invalid'})`;
@@ -367,128 +436,118 @@ const App: React.FC = () => {
       {getBit(value) > 0 && (
         <Box sx={{ mt: 1, pl: 1, borderLeft: '2px solid', borderColor: 'divider' }}>
           <Typography variant="subtitle2" sx={{ mb: 1, ml: 1 }}>Bits (PA Bit Pos):</Typography>
-          {Array.from({ length: getBit(value) }, (_, index) => (
+          {Array.from({ length: getBit(value) }, (_, index) => { const issue = fieldIssues.get(fieldKey(idPrefix, index)); return (
             <Box key={`${idPrefix}-nbit-${index}`} sx={{ display: 'flex', alignItems: 'center', mb: 1, ml: 1 }}>
               <Typography variant="body2" component="label" htmlFor={`${idPrefix}-nbit-input-${index}`} sx={{ mr: 1, minWidth: '80px', fontSize: '0.875rem', whiteSpace: 'nowrap', }}>{title}{index}bit</Typography>
-              <TextField type="text" placeholder="e.g., 5 or 0,2" id={`${idPrefix}-nbit-input-${index}`} 
-                value={nbitValues[index] === undefined ? '' : nbitValues[index]} 
-                onChange={(event) => onNbitValueChange(index, event.target.value)}
-                variant="outlined" size="small" sx={{ minWidth: '100px', maxWidth: '150px' }} />
+              <Tooltip title={issue?.message ?? ''} placement="right" arrow>
+                <TextField type="text" placeholder="e.g., 5 or 0,2" id={`${idPrefix}-nbit-input-${index}`} 
+                  value={nbitValues[index] === undefined ? '' : nbitValues[index]} 
+                  onChange={(event) => onNbitValueChange(index, event.target.value)}
+                  error={issue?.severity === 'error'}
+                  helperText={issue ? ISSUE_SHORT_LABELS[issue.kind] : undefined}
+                  FormHelperTextProps={{ sx: { mx: 0, color: issue?.severity === 'warning' ? 'warning.main' : undefined } }}
+                  variant="outlined" size="small" sx={{ minWidth: '100px', maxWidth: '150px' }} />
+              </Tooltip>
             </Box>
-          ))}
+          ); })}
         </Box>
       )}
     </Paper>
   );
 
-  const ItemGridView = ({ count, itemShortName, currentItemType }: { count: number, itemName: string, itemShortName: string, currentItemType: string }) => {
-    return (
-      <Grid container spacing={1} sx={{p:1}}>
-        {Array.from({ length: count }).map((_, index) => {
-          const itemPaRanges = itemAddressRanges.get(index) || [];
-          const vmsUsingThisItem = processedVmConfigs.filter(vm => vm.isValid && itemPaRanges.some(itemRange => (vm.baseAddressNum <= itemRange.end && vm.endAddressNum >= itemRange.start)));
-          let itemStyle: React.CSSProperties = { cursor: 'pointer', transition: 'background 0.3s' };
-          if (vmsUsingThisItem.length === 1) { itemStyle.backgroundColor = vmsUsingThisItem[0].color; } 
-          else if (vmsUsingThisItem.length > 1) {
-            const colors = vmsUsingThisItem.map(vm => vm.color);
-            const stripeSize = 100 / colors.length;
-            itemStyle.background = `linear-gradient(45deg, ${colors.map((c, i) => `${c} ${i * stripeSize}%, ${c} ${(i + 1) * stripeSize}%`).join(', ')})`;
-          }
-          return (
-            <Grid key={index} size={{ xs: 3, sm: 2, md: 1.5, lg: 1}}>
-              <Paper variant="outlined" sx={{ p: 1, minHeight: 30, display:'flex', alignItems:'center', justifyContent:'center', '&:hover': { boxShadow: 3, borderColor: 'primary.main' }, ...itemStyle }} onClick={() => handleElementSelect(currentItemType, index)}>
-                <Typography variant="caption" component="div">{itemShortName}{index}</Typography>
-              </Paper>
-            </Grid>
-          );
-        })}
-      </Grid>
-    );
+  const handleItemClick = (level: HierarchyLevel, index: number) => {
+    if (level === levels[levels.length - 1]) handleLeafSelect(level, index); else handleElementSelect(level.name, index);
   };
 
-  const RowListView = ({ count }: { count: number }) => {
-    return (
-      <List sx={{ maxHeight: 400, overflowY: 'auto', border: '1px solid #ccc', borderRadius: 1, m:1, p:0 }}>
-        {Array.from({ length: count }).map((_, index) => {
-          const itemPaRanges = itemAddressRanges.get(index) || [];
-          const vmsUsingThisItem = processedVmConfigs.filter(vm => vm.isValid && itemPaRanges.some(r => (vm.baseAddressNum <= r.end && vm.endAddressNum >= r.start)));
-          let itemStyle: React.CSSProperties = {cursor: 'pointer', paddingTop: '4px', paddingBottom: '4px'};
-          if (vmsUsingThisItem.length === 1) itemStyle.backgroundColor = vmsUsingThisItem[0].color;
-          else if (vmsUsingThisItem.length > 1) {
-            const colors = vmsUsingThisItem.map(vm => vm.color);
-            if (colors.length > 0) { const stripes = colors.map((color, i, arr) => `${color} ${(i * 100) / arr.length}%, ${color} ${((i + 1) * 100) / arr.length}%`).join(', '); itemStyle.background = `linear-gradient(45deg, ${stripes})`; }
-          }
-          return ( <ListItemButton key={index} onClick={() => handleElementSelect("Row", index)} dense sx={itemStyle}> <ListItemText primary={`Row ${index}`} /> </ListItemButton> );
-        })}
-      </List>
-    );
+  const viewTitle = () => {
+    const parentItem = navigationPath.length > 0 ? navigationPath[navigationPath.length - 1] : null;
+    const level = findLevel(levels, currentView) ?? levels[0];
+    if (navigationPath.length === 0 && level === levels[0]) return `${level.name}s (System Root)`;
+    return parentItem ? `${currentView}s in ${parentItem.name}` : `${currentView}s`;
+  };
+  // The title with every ancestor, for exports that are read without the breadcrumbs.
+  const fullViewTitle = () => (navigationPath.length > 0 ? `${currentView}s in ${navigationPath.map(item => item.name).join(' > ')}` : viewTitle());
+
+  // What the drill-down view shows, cell by cell, for image export.
+  const viewSnapshot = (): ViewSnapshot => {
+    const level = findLevel(levels, currentView) ?? levels[0];
+    const cells = Array.from({ length: level.count }, (_, index) => {
+      const { heat, vms } = cellAt(index);
+      const label = `${level.shortLabel}${level.layout === 'grid' ? '' : ' '}${index}`;
+      if (heat) return { label, colors: [heat.color], detail: `${heat.accesses.toLocaleString()} accesses` };
+      if (level.layout === 'pixel') return { label, colors: [vms.length > 1 ? VM_CONFLICT_COLOR : vms[0]?.color ?? UNUSED_COLUMN_COLOR], detail: vms.map(vm => vm.label).join(', ') || undefined };
+      return { label, colors: vms.map(vm => vm.color), detail: vms.map(vm => vm.label).join(', ') || undefined };
+    });
+    const legend = overlayMode === 'heatmap' && trace
+      ? [{ label: 'Fewest accesses', color: heatColor(0) }, { label: 'Most accesses', color: heatColor(1) }]
+      : [
+          ...processedVmConfigs.filter(vm => vm.isValid).map(vm => ({ label: vm.label, color: vm.color })),
+          ...(level.layout === 'pixel' ? [{ label: 'Several VMs', color: VM_CONFLICT_COLOR }] : []),
+        ];
+    return { title: fullViewTitle(), layout: level.layout, cells, legend };
+  };
+  const handleViewExport = async (format: 'svg' | 'png') => {
+    const svg = renderViewSvg(viewSnapshot());
+    const fileName = `dram-${currentView.toLowerCase()}-view.${format}`;
+    if (format === 'svg') { downloadTextFile(fileName, svg, 'image/svg+xml'); return; }
+    try { await downloadSvgAsPng(fileName, svg); } catch (error) { setConfigStatus(`PNG export failed: ${(error as Error).message}`); }
   };
 
-  const ColumnGridView = ({ count }: { count: number }) => {
-    return (
-      <Grid container spacing={0.2} sx={{p:0.5, border:'1px solid #ddd', borderRadius:1, maxHeight: 400, overflowY: 'auto'}}>
-        {Array.from({ length: count }).map((_, index) => {
-          const itemPaRanges = itemAddressRanges.get(index) || [];
-          const vmsUsingThisItem = processedVmConfigs.filter(vm => vm.isValid && itemPaRanges.some(r => (vm.baseAddressNum <= r.end && vm.endAddressNum >= r.start)));
-          let itemStyle: React.CSSProperties = { width: 8, height: 8, cursor: 'pointer', border: '1px solid #bbb'};
-          let tooltipTitle = `Column ${index}`;
-           if (vmsUsingThisItem.length === 1) {
-             itemStyle.backgroundColor = vmsUsingThisItem[0].color;
-             tooltipTitle += ` (VM ${vmsUsingThisItem[0].id + 1})`;
-           } else if (vmsUsingThisItem.length > 1) {
-             itemStyle.backgroundColor = VM_CONFLICT_COLOR; 
-             tooltipTitle += ` (Conflict: Used by ${vmsUsingThisItem.length} VMs)`;
-           } else {
-             itemStyle.backgroundColor = UNUSED_COLUMN_COLOR;
-           }
-          return (
-            <Grid key={index}>
-              <Tooltip title={tooltipTitle} placement="top" arrow>
-                <Box sx={itemStyle} onClick={() => {
-                    const colName = `Column${index}`; const parentName = navigationPath[navigationPath.length-1]?.name;
-                    const fullPathObj = [...navigationPath, {type: "Column", id: index, name: colName, parentName }];
-                    setSelectedElementInfo({ type: "Column", id: index, name: colName, parent: parentName, path: fullPathObj.map(p=>p.name).join(' > ') });
-                  }} />
-              </Tooltip>
-            </Grid>
-          );
-        })}
-      </Grid>
-    );
+  const analysisReport = (): AnalysisReport => ({
+    totalCapacity: sizeInput,
+    levels,
+    consistency: [`Configured ID bits: ${totalNbitSum}`, consistencyMessageDetail, consistencyStatusText],
+    issues: mappingValidation.issues,
+    decoded: [
+      ...(decodedIDs && physicalAddressInput.trim() ? [{
+        address: physicalAddressInput.trim(),
+        dramAddress: decodedDramAddress !== null ? formatHexAddress(decodedDramAddress) : undefined,
+        ids: decodedIDs,
+      }] : []),
+      ...batchDecode.rows.map(row => ({
+        address: formatHexAddress(row.address),
+        dramAddress: row.dramAddress === null ? 'Not backed by DRAM' : row.dramAddress !== row.address ? formatHexAddress(row.dramAddress) : undefined,
+        ids: Object.fromEntries(levels.map((level, index) => [levelKey(level.name), row.ids ? row.ids[index] : 'Not backed by DRAM'])),
+      })),
+    ],
+    usage: viewUsage && typeof viewUsage !== 'string' ? {
+      view: fullViewTitle(),
+      levelLabel: (findLevel(levels, currentView) ?? levels[0]).shortLabel,
+      vmLabels: vmRanges.map(vm => vm.label),
+      usage: viewUsage,
+    } : null,
+  });
+  const handleReportExport = (format: 'md' | 'csv') => {
+    const report = analysisReport();
+    if (format === 'md') downloadTextFile('dram-report.md', reportToMarkdown(report), 'text/markdown');
+    else downloadTextFile('dram-report.csv', reportToCsv(report), 'text/csv');
   };
 
+  // Keyed by the view, so a list or pixel map starts at the top when the view changes.
   const renderDrillDownView = () => {
-    const parentItem = navigationPath.length > 0 ? navigationPath[navigationPath.length - 1] : null;
-    let viewTitlePrefix = parentItem ? `${currentView}s in ${parentItem.name}` : `${currentView}s`;
-    if (navigationPath.length === 0 && currentView === HIERARCHY_ORDER[0]) {
-        viewTitlePrefix = `${HIERARCHY_ORDER[0]}s (System Root)`;
-    }
-    const count = valueStates[currentView] ?? 0;
-    return ( <Box> <Typography variant="h6" gutterBottom>{viewTitlePrefix}</Typography>
+    const level = findLevel(levels, currentView) ?? levels[0];
+    const onSelect = (index: number) => handleItemClick(level, index);
+    return ( <Box> <Typography variant="h6" gutterBottom>{viewTitle()}</Typography>
             {(() => {
-                switch (currentView) {
-                    case "Channel": return <ItemGridView count={count} itemName="Channel" itemShortName="Ch" currentItemType="Channel" />;
-                    case "Rank": return <ItemGridView count={count} itemName="Rank" itemShortName="Rk" currentItemType="Rank" />;
-                    case "Bank": return <ItemGridView count={count} itemName="Bank" itemShortName="Bk" currentItemType="Bank" />;
-                    case "BankGroup": return <ItemGridView count={count} itemName="BankGroup" itemShortName="BG" currentItemType="BankGroup" />;
-                    case "Subarray": return <ItemGridView count={count} itemName="Subarray" itemShortName="SA" currentItemType="Subarray" />;
-                    case "Row": return <RowListView count={count} />;
-                    case "Column": return <ColumnGridView count={count} />;
-                    default: return <ItemGridView count={channelValue} itemName={HIERARCHY_ORDER[0]} itemShortName={HIERARCHY_ORDER[0].substring(0,2)} currentItemType={HIERARCHY_ORDER[0]} />;
+                switch (level.layout) {
+                    case "list": return <ElementList key={viewKey} level={level} cellAt={cellAt} onSelect={onSelect} target={selectedInView} highlights={rowHighlights} />;
+                    case "pixel": return <ElementPixelMap key={viewKey} level={level} cellAt={cellAt} onSelect={onSelect} target={selectedInView} />;
+                    default: return <ElementGrid key={viewKey} level={level} cellAt={cellAt} onSelect={onSelect} target={selectedInView} />;
                 }
             })()} </Box>
     );
   };
-  const BreadcrumbNav = () => (
+  const renderBreadcrumbs = () => (
     <Box sx={{display:'flex', alignItems: 'center', mb:1}}>
         {navigationPath.length > 0 && ( <IconButton onClick={() => navigateToPathIndex(navigationPath.length - 2)} size="small" sx={{mr:1}} aria-label="Go back"> <ArrowBackIcon /> </IconButton> )}
         <Breadcrumbs aria-label="breadcrumb">
           <MuiLink component="button" variant="body2" onClick={() => navigateToPathIndex(-1)} sx={{cursor:'pointer'}}> System </MuiLink>
           {navigationPath.map((item, index) => ( <MuiLink component="button" variant="body2" key={`${item.type}-${item.id}`} onClick={() => navigateToPathIndex(index)} sx={{cursor:'pointer'}}> {item.name} </MuiLink> ))}
         </Breadcrumbs>
+        <Box sx={{ ml: 'auto' }}><ElementSearch levels={levels} windows={systemWindows} onGo={showElement} /></Box>
     </Box>
   );
-  const InformationPanel = () => {
+  const renderInformationPanel = () => {
     if (!selectedElementInfo) { return <Typography color="text.secondary">Select an element to see details.</Typography>; }
     return (<> <Typography variant="h6" gutterBottom>Details</Typography> {Object.entries(selectedElementInfo).map(([key, value]) => ( <Typography key={key} variant="body2" sx={{overflowWrap: 'break-word'}}> <strong>{key.charAt(0).toUpperCase() + key.slice(1)}:</strong> {String(value)} </Typography>))} </>);
   };
@@ -500,19 +559,73 @@ const App: React.FC = () => {
         {/* Left Column: Configuration Panels */}
         <Paper elevation={2} sx={{ width: '30%', minWidth: 400, display: 'flex', flexDirection: 'column', height: 'calc(100vh - 32px)', overflowY: 'auto' }}>
             <Typography variant="h5" sx={{p:2, borderBottom: '1px solid', borderColor: 'divider'}}>Configuration</Typography>
-            
+
+            <Accordion>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">Save, Load & Share</Typography></AccordionSummary>
+                <AccordionDetails sx={{display: 'flex', flexDirection: 'column', gap: 1}}>
+                    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                        <Button variant="outlined" size="small" startIcon={<FileDownloadIcon />} onClick={handleConfigExport}>Export JSON</Button>
+                        <Button variant="outlined" size="small" startIcon={<FileUploadIcon />} onClick={() => configFileInputRef.current?.click()}>Import JSON</Button>
+                        <Button variant="outlined" size="small" startIcon={<ShareIcon />} onClick={handleCopyShareLink}>Copy Share Link</Button>
+                        <Button variant="outlined" size="small" startIcon={<FileDownloadIcon />} onClick={() => handleReportExport('md')}>Report (Markdown)</Button>
+                        <Button variant="outlined" size="small" startIcon={<FileDownloadIcon />} onClick={() => handleReportExport('csv')}>Report (CSV)</Button>
+                        <input ref={configFileInputRef} type="file" accept="application/json,.json" hidden onChange={handleConfigImport} />
+                    </Box>
+                    <Typography variant="caption" color="text.secondary">Changes are saved automatically in this browser.</Typography>
+                    {configStatus && <Typography variant="body2">{configStatus}</Typography>}
+                    {configErrors.length > 0 && (
+                      <Alert severity="error" onClose={() => setConfigErrors([])}>
+                        {configErrors.map((error, index) => (<Typography key={index} variant="caption" component="div"><strong>{error.field}:</strong> {error.message}</Typography>))}
+                      </Alert>
+                    )}
+                </AccordionDetails>
+            </Accordion>
+
+            <Accordion>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">Mapping Presets</Typography></AccordionSummary>
+                <AccordionDetails>
+                    <PresetPanel currentConfig={currentConfig} onApply={handlePresetApply} />
+                </AccordionDetails>
+            </Accordion>
+
+            <Accordion>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">Infer Mapping from Timing</Typography></AccordionSummary>
+                <AccordionDetails>
+                    <MappingInferencePanel levels={levels} onApply={(inferred) => { handleHierarchyChange(inferred); setConfigStatus('Wrote the inferred functions into the Nbit fields'); }} />
+                </AccordionDetails>
+            </Accordion>
+
+            <Accordion>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">Memory Trace</Typography></AccordionSummary>
+                <AccordionDetails>
+                    <TracePanel trace={trace} onTraceChange={handleTraceChange} />
+                </AccordionDetails>
+            </Accordion>
+
             <Accordion defaultExpanded>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">System & VM</Typography></AccordionSummary>
                 <AccordionDetails sx={{display: 'flex', flexDirection: 'column', gap: 2}}>
                     <TextField label="Total Capacity (e.g., 2GB)" variant="outlined" size="small" value={sizeInput} onChange={handleSizeInputChange} />
                     <Divider sx={{my:1}} />
+                    <Typography variant="subtitle2">Import Memory Map</Typography>
+                    <MemoryMapImportPanel currentConfig={currentConfig} onApplyConfig={applyConfig} />
+                    <Divider sx={{my:1}} />
+                    <Typography variant="subtitle2">System Address Map</Typography>
+                    <SystemMapEditor currentConfig={currentConfig} onChange={setSystemMap} onApplyConfig={applyConfig} />
+                    <Divider sx={{my:1}} />
                     <Typography variant="h6" sx={{mt:1}}>Virtual Machine Configuration</Typography>
                     <TextField label="Number of VMs" type="number" value={vmCount === 0 ? '' : vmCount} onChange={handleVmCountChange} InputProps={{ inputProps: { min: 0 } }} variant="outlined" size="small" sx={{ width: '180px' }}/>
                     {vmConfigs.map((config, index) => (
                       <Box key={`vm-${index}`} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
-                        <Typography variant="body2" sx={{ minWidth: '50px', fontWeight:'bold', color: VM_COLORS[index % VM_COLORS.length].replace('0.7)', '1)') }}>VM {index + 1}</Typography>
-                        <TextField label={`Base Address`} value={config.baseAddress} onChange={(e) => handleVmConfigChange(index, 'baseAddress', e.target.value)} variant="outlined" size="small" placeholder="e.g., 0x1000" sx={{ flexGrow: 1, minWidth: '120px' }}/>
-                        <TextField label={`Size (Hex Bytes)`} value={config.size} onChange={(e) => handleVmConfigChange(index, 'size', e.target.value)} variant="outlined" size="small" placeholder="e.g., 0x1000" sx={{ flexGrow: 1, minWidth: '120px' }}/>
+                        <Typography variant="body2" sx={{ minWidth: '50px', fontWeight:'bold', color: VM_COLORS[index % VM_COLORS.length].replace('0.7)', '1)') }}>{vmLabel(config, index)}</Typography>
+                        <TextField label="Name" value={config.name ?? ''} onChange={(e) => handleVmConfigChange(index, 'name', e.target.value)} variant="outlined" size="small" placeholder={`VM ${index + 1}`} sx={{ width: '120px' }}/>
+                        <TextField label={`Base Address`} value={config.baseAddress} onChange={(e) => handleVmConfigChange(index, 'baseAddress', e.target.value)} variant="outlined" size="small" placeholder="e.g., 0x1000" disabled={hasPageList(config)} sx={{ flexGrow: 1, minWidth: '120px' }}/>
+                        <TextField label={`Size (Hex Bytes)`} value={config.size} onChange={(e) => handleVmConfigChange(index, 'size', e.target.value)} variant="outlined" size="small" placeholder="e.g., 0x1000" disabled={hasPageList(config)} sx={{ flexGrow: 1, minWidth: '120px' }}/>
+                        <TextField select label="Page Size" value={config.pageSize ?? DEFAULT_PAGE_SIZE} onChange={(e) => handleVmConfigChange(index, 'pageSize', e.target.value)} variant="outlined" size="small" sx={{ width: '90px' }}>
+                          {PAGE_SIZES.map(pageSize => (<MenuItem key={pageSize} value={pageSize}>{pageSize}</MenuItem>))}
+                        </TextField>
+                        <TextField label="Page Frames (optional)" value={config.pages ?? ''} onChange={(e) => handleVmConfigChange(index, 'pages', e.target.value)} variant="outlined" size="small" placeholder="e.g., 0x100-0x1ff, 0x400" sx={{ flexGrow: 1, minWidth: '200px' }}
+                          error={pageListError(config) !== null} helperText={pageListError(config) ?? (hasPageList(config) ? 'Replaces base address and size' : undefined)} />
                       </Box>
                     ))}
                 </AccordionDetails>
@@ -520,15 +633,16 @@ const App: React.FC = () => {
             
             <Accordion>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}><Typography fontWeight="medium">DRAM Address Mapping</Typography></AccordionSummary>
-                <AccordionDetails>
+                <AccordionDetails sx={{display: 'flex', flexDirection: 'column', gap: 1}}>
+                    <Typography variant="subtitle2">Hierarchy Levels</Typography>
+                    <HierarchyEditor levels={levels} onChange={handleHierarchyChange} />
+                    <Divider sx={{my:1}} />
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                        {renderSection("Channel", channelValue, handleChannelChange, channelNbitValues, handleChannelNbitChange, "channel")}
-                        {renderSection("Rank", rankValue, handleRankChange, rankNbitValues, handleRankNbitChange, "rank")}
-                        {renderSection("Bank", bankValue, handleBankChange, bankNbitValues, handleBankNbitChange, "bank")}
-                        {renderSection("BankGroup", bankGroupValue, handleBankGroupChange, bankGroupNbitValues, handleBankGroupNbitChange, "bankgroup")}
-                        {renderSection("Subarray", subarrayValue, handleSubarrayChange, subarrayNbitValues, handleSubarrayNbitChange, "subarray")}
-                        {renderSection("Row", rowValue, handleRowChange, rowNbitValues, handleRowNbitChange, "row")}
-                        {renderSection("Column", columnRowValue, handleColumnRowChange, columnRowNbitValues, handleColumnRowNbitChange, "column")}
+                        {levels.map((level, index) => (
+                          <React.Fragment key={index}>
+                            {renderSection(level.name, level.count, handleLevelCountChange(index), level.nbits, handleLevelNbitChange(index), levelKey(level.name))}
+                          </React.Fragment>
+                        ))}
                     </Box>
                 </AccordionDetails>
             </Accordion>
@@ -537,17 +651,49 @@ const App: React.FC = () => {
         {/* Center & Right Columns */}
         <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', gap: 2, height: 'calc(100vh - 32px)' }}>
             <Paper elevation={2} sx={{ flex: '1 1 60%', p:2, display:'flex', flexDirection:'column', overflow:'hidden' }}>
-                <Typography variant="h5" component="h2" gutterBottom>DRAM Hierarchy Visualizer</Typography>
-                <BreadcrumbNav />
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <Typography variant="h5" component="h2" gutterBottom>{CENTER_MODE_TITLES[centerMode]}</Typography>
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                        {centerMode === 'visualizer' && (
+                          <>
+                            <Button size="small" startIcon={<FileDownloadIcon />} onClick={() => handleViewExport('svg')}>SVG</Button>
+                            <Button size="small" startIcon={<FileDownloadIcon />} onClick={() => handleViewExport('png')}>PNG</Button>
+                          </>
+                        )}
+                        {centerMode === 'visualizer' && (
+                          <ToggleButtonGroup size="small" exclusive value={overlayMode} onChange={(_, mode) => { if (mode) setOverlayMode(mode); }}>
+                              <ToggleButton value="vm">VM Coloring</ToggleButton>
+                              <ToggleButton value="heatmap" disabled={!trace}>Trace Heatmap</ToggleButton>
+                          </ToggleButtonGroup>
+                        )}
+                        <ToggleButtonGroup size="small" exclusive value={centerMode} onChange={(_, mode) => { if (mode) setCenterMode(mode); }}>
+                            <ToggleButton value="visualizer">Visualize</ToggleButton>
+                            <ToggleButton value="matrix">Matrix</ToggleButton>
+                            <ToggleButton value="compare">Compare</ToggleButton>
+                        </ToggleButtonGroup>
+                    </Box>
+                </Box>
+                {centerMode === 'visualizer' && renderBreadcrumbs()}
                 <Box sx={{ flexGrow: 1, border: '1px solid', borderColor: 'divider', borderRadius: 1, p: 1, overflowY: 'auto' }}>
-                    {renderDrillDownView()}
+                    {centerMode === 'visualizer' && renderDrillDownView()}
+                    {centerMode === 'matrix' && (
+                      <MappingMatrix levels={levels} addressBits={typeof capacityAddressBits === 'number' ? capacityAddressBits : null}
+                          fieldIssues={fieldIssues} onToggle={handleMatrixToggle} />
+                    )}
+                    {centerMode === 'compare' && <ComparePanel currentConfig={currentConfig} trace={trace} decodedTrace={decodedTrace} onApplyConfig={applyConfig} />}
                 </Box>
             </Paper>
             <Box sx={{ flex: '1 1 40%', display: 'flex', gap: 2, overflow:'hidden' }}>
                  <Paper elevation={2} sx={{ p: 2, flex: 1, overflowY:'auto' }}>
                     <Typography variant="h6" gutterBottom>Information Panel</Typography>
                     <Divider sx={{mb:2}}/>
-                    <InformationPanel />
+                    {renderInformationPanel()}
+                    {selectedElementPath && (
+                      <AddressSetDetails key={selectedElementPath.map(p => p.name).join('/')} path={selectedElementPath} mapping={nbitValueStates} usable={usableRanges} windows={systemWindows} />
+                    )}
+                    {hammerRowPath && (
+                      <RowNeighbourDetails path={hammerRowPath} levels={levels} mapping={nbitValueStates} usable={usableRanges} vms={vmRanges} remapping={rowRemapping} />
+                    )}
                  </Paper>
                  <Paper elevation={2} sx={{ p: 2, flex: 1, overflowY:'auto' }}>
                     <Typography variant="h6" gutterBottom>Analysis & Checks</Typography>
@@ -557,13 +703,62 @@ const App: React.FC = () => {
                     <Typography variant="body2">{consistencyMessageDetail.replace('Address bits from capacity:', 'Capacity requires:')}</Typography>
                     <Typography variant="body2" sx={{ color: consistencyStatusColor, fontWeight: 'bold', mt:0.5 }}>{consistencyStatusText}</Typography>
                     <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1" gutterBottom>Mapping Validation</Typography>
+                    <Typography variant="body2">{`Mapping matrix rank: ${mappingValidation.rank} of ${mappingValidation.fieldCount} ID bits`}</Typography>
+                    {mappingValidation.issues.length === 0 ? (
+                      <Typography variant="body2" sx={{ color: 'success.main', fontWeight: 'bold', mt:0.5 }}>No mapping problems found</Typography>
+                    ) : (
+                      mappingValidation.issues.map((issue, index) => (
+                        <Typography key={index} variant="caption" component="div" sx={{ color: issue.severity === 'error' ? 'error.main' : 'warning.main' }}>{issue.message}</Typography>
+                      ))
+                    )}
+                    <Divider sx={{my:2}}/>
                     <Typography variant="subtitle1" gutterBottom>Physical Address Decode</Typography>
                     <TextField
                         label="Physical Address to Decode" variant="outlined" size="small"
                         value={physicalAddressInput} onChange={handlePhysicalAddressChange}
                         helperText="Enter in hexadecimal (e.g., 0x110)"
                         sx={{ mt: 1, mb: 2, width: '100%' }} />
-                    {decodedIDs ? (Object.entries(decodedIDs).map(([key, value]) => (<Typography key={key} variant="caption" component="div"><strong>{key.charAt(0).toUpperCase() + key.slice(1)} ID:</strong> {String(value)}</Typography>))) : (<Typography variant="body2" color="text.secondary">Enter a Physical Address above.</Typography>)}
+                    {decodedDramAddress !== null && <Typography variant="caption" component="div"><strong>DRAM address:</strong> {formatHexAddress(decodedDramAddress)}</Typography>}
+                    {decodedIDs ? (levels.map(level => (<Typography key={level.name} variant="caption" component="div"><strong>{level.name} ID:</strong> {String(decodedIDs[levelKey(level.name)])}</Typography>))) : (<Typography variant="body2" color="text.secondary">Enter a Physical Address above.</Typography>)}
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Batch Decode</Typography>
+                    <Typography variant="caption" color="text.secondary">Paste addresses or log lines to decode them together. Addresses in the same bank but different rows are conflicts; click an address to show it in the visualizer.</Typography>
+                    <BatchDecodePanel levels={levels} text={batchAddressText} onTextChange={setBatchAddressText}
+                        rows={batchDecode.rows} skippedLines={batchDecode.skippedLines} onJump={showElement} />
+                    {trace && decodedTrace && (
+                      <>
+                        <Divider sx={{my:2}}/>
+                        <Typography variant="subtitle1" gutterBottom>Trace Distribution</Typography>
+                        <TraceHistograms decoded={decodedTrace} accessCount={trace.count} levels={levels} />
+                      </>
+                    )}
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">VM Usage per Element</Typography>
+                    <Typography variant="caption" color="text.secondary">Bytes each VM maps into each element of the current view, and how evenly they are spread.</Typography>
+                    <VmUsagePanel levels={levels} level={findLevel(levels, currentView)} usage={viewUsage} usable={usableRanges} vms={vmRanges}
+                        onCount={() => setUsageRequestedView(viewKey)} />
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Physical Address Encode</Typography>
+                    <Typography variant="caption" color="text.secondary">Enter an ID per level (blank = any), or click an element of the last level in the visualizer.</Typography>
+                    <EncoderPanel ids={encoderIds} onIdsChange={setEncoderIds} levels={levels}
+                        scopes={encoderScopes} onAddressPick={handleEncoderPick} />
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Row-Buffer Simulation</Typography>
+                    <Typography variant="caption" color="text.secondary">Replays the loaded trace or a synthetic stream through one row buffer per bank.</Typography>
+                    <RowBufferSimPanel trace={trace} levels={levels} usable={usableRanges} />
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Row-Hammer Adjacency</Typography>
+                    <Typography variant="caption" color="text.secondary">Finds VM pairs that own rows within two physical rows of each other in the same bank. Select a row in the visualizer to see its neighbours.</Typography>
+                    <RowHammerPanel levels={levels} vms={vmRanges} remapping={rowRemapping} onRemappingChange={setRowRemapping} />
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Page-Coloring Planner</Typography>
+                    <Typography variant="caption" color="text.secondary">Splits page colors among the VMs so each owns its banks (or channels, ...) and places every VM on its colors. VM sizes are the capacity each asks for.</Typography>
+                    <PagePlannerPanel levels={levels} usable={usableRanges} vms={vmConfigs} windows={systemWindows} onApply={setVmConfigs} />
+                    <Divider sx={{my:2}}/>
+                    <Typography variant="subtitle1">Page Alignment</Typography>
+                    <Typography variant="caption" color="text.secondary">Which ID bits stay fixed within one aligned page and which vary, i.e. how many channels, banks and rows a page is spread across.</Typography>
+                    <PageAlignmentPanel levels={levels} vms={vmConfigs} windows={systemWindows} />
                  </Paper>
             </Box>
         </Box>
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, TextField, FormControlLabel, Checkbox, Table, TableHead, TableBody, TableRow, TableCell, TableSortLabel, Link as MuiLink } from '@mui/material';
+import { formatHexAddress } from './core/helpers';
+import { levelKey, type HierarchyLevel } from './core/hierarchy';
+import { filterBatchRows, sortBatchRows, type BatchDecodeRow } from './core/batchDecode';
+
+interface BatchDecodePanelProps {
+  levels: HierarchyLevel[];
+  text: string;
+  onTextChange: (text: string) => void;
+  // Decoded from `text` by the caller (see decodeAddressBatch), which also puts them in reports.
+  rows: BatchDecodeRow[];
+  skippedLines: number;
+  onJump: (ids: number[]) => void;
+}
+
+// Tints shared by the addresses of one conflicting bank.
+const CONFLICT_TINTS = ['rgba(255, 152, 0, 0.18)', 'rgba(233, 30, 99, 0.15)', 'rgba(156, 39, 176, 0.15)', 'rgba(0, 150, 136, 0.15)'];
+const MAX_SHOWN_ROWS = 500;
+
+const BatchDecodePanel: React.FC<BatchDecodePanelProps> = ({ levels, text, onTextChange, rows, skippedLines, onJump }) => {
+  const [filter, setFilter] = useState<string>('');
+  const [conflictsOnly, setConflictsOnly] = useState<boolean>(false);
+  const [sort, setSort] = useState<{ key: string; descending: boolean }>({ key: 'line', descending: false });
+
+  const filtered = useMemo(() => filterBatchRows(rows, levels, filter), [rows, levels, filter]);
+  const shown = useMemo(() => (typeof filtered === 'string' ? []
+    : sortBatchRows(conflictsOnly ? filtered.filter(row => row.conflicts > 0) : filtered, levels, sort.key, sort.descending)), [filtered, conflictsOnly, levels, sort]);
+  const withDram = rows.some(row => row.dramAddress !== row.address);
+  const conflictCount = rows.filter(row => row.conflicts > 0).length;
+
+  const sortHeader = (key: string, label: string, align?: 'right') => (
+    <TableCell align={align} sortDirection={sort.key === key ? (sort.descending ? 'desc' : 'asc') : false}>
+      <TableSortLabel active={sort.key === key} direction={sort.key === key && sort.descending ? 'desc' : 'asc'}
+        onClick={() => setSort(prev => ({ key, descending: prev.key === key && !prev.descending }))}>
+        {label}
+      </TableSortLabel>
+    </TableCell>
+  );
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      <TextField label="Addresses" size="small" multiline minRows={3} maxRows={10} value={text} onChange={(e) => onTextChange(e.target.value)}
+        placeholder={'0x1f40\n0x2000, 0x3040\nmce: ... ADDR 7f5c3a040'}
+        sx={{ '& textarea': { fontFamily: 'monospace' } }}
+        helperText={skippedLines > 0 ? `${skippedLines} line(s) without an address were skipped` : 'One or more per line; 0x numbers are found anywhere in log lines'} />
+      {rows.length > 0 && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField label="Filter" size="small" value={filter} onChange={(e) => setFilter(e.target.value)} sx={{ flexGrow: 1 }}
+              error={typeof filtered === 'string'} helperText={typeof filtered === 'string' ? filtered : 'e.g. Bank=3 Rank=0, or part of an address'} />
+            <FormControlLabel control={<Checkbox size="small" checked={conflictsOnly} onChange={(e) => setConflictsOnly(e.target.checked)} />} label="Conflicts only" />
+          </Box>
+          <Typography variant="caption" color={conflictCount > 0 ? 'warning.main' : 'text.secondary'}>
+            {conflictCount > 0
+              ? `${conflictCount} of ${rows.length} addresses share a bank with an address in another row (highlighted per bank)`
+              : `${rows.length} addresses, no two in the same bank and different rows`}
+          </Typography>
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {sortHeader('line', 'Line', 'right')}
+                  {sortHeader('address', 'Address')}
+                  {withDram && <TableCell>DRAM</TableCell>}
+                  {levels.map(level => <React.Fragment key={level.name}>{sortHeader(levelKey(level.name), level.shortLabel, 'right')}</React.Fragment>)}
+                  <TableCell align="right">Conflicts</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {shown.slice(0, MAX_SHOWN_ROWS).map((row, index) => (
+                  <TableRow key={index} sx={{ backgroundColor: row.conflictGroup === null ? undefined : CONFLICT_TINTS[row.conflictGroup % CONFLICT_TINTS.length] }}>
+                    <TableCell align="right">{row.line}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {row.ids ? (
+                        <MuiLink component="button" variant="body2" sx={{ fontFamily: 'monospace' }} title={`Show ${row.bank} / ${row.row} in the visualizer`}
+                          onClick={() => onJump(row.ids ?? [])}>
+                          {formatHexAddress(row.address)}
+                        </MuiLink>
+                      ) : formatHexAddress(row.address)}
+                    </TableCell>
+                    {withDram && <TableCell sx={{ fontFamily: 'monospace' }}>{row.dramAddress === null ? 'Not backed by DRAM' : formatHexAddress(row.dramAddress)}</TableCell>}
+                    {levels.map((level, levelIndex) => (<TableCell key={level.name} align="right">{row.ids ? row.ids[levelIndex] : '—'}</TableCell>))}
+                    <TableCell align="right" title={row.conflicts > 0 ? `Same bank (${row.bank}), other rows` : undefined}>{row.conflicts || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+          {shown.length > MAX_SHOWN_ROWS && (
+            <Typography variant="caption" color="text.secondary">{`… ${shown.length - MAX_SHOWN_ROWS} more rows; narrow the filter to see them`}</Typography>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BatchDecodePanel;
@@ -0,0 +1,296 @@
+import React, { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import {
+  Box, Typography, TextField, MenuItem, ListSubheader, Button, Divider, Alert, FormControlLabel, Switch,
+  Table, TableHead, TableBody, TableRow, TableCell,
+} from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { parseHexAddress, parseUnitBasedSizeToBytes } from './core/helpers';
+import { decodePhysicalAddress } from './core/decode';
+import { parseSystemMap, systemRangesToDram, usableDramRanges } from './core/systemMap';
+import { parseConfigJson, type DramConfig, type ConfigFieldError } from './core/config';
+import { intersectRanges, rangesBytes, vmAddressRanges, vmLabel } from './core/vmMemory';
+import type { AddressRange } from './core/addressSet';
+import { BUILT_IN_PRESETS, loadUserPresets } from './presets';
+import { diffIdBits, countTouchedElements, MAX_ENUMERATED_IDS } from './core/compare';
+import { findLevel, levelKey, mappingOf, splitRowBufferLevels, type HierarchyLevel } from './core/hierarchy';
+import { decodeTrace, countAccessesPerElement, summarizeDistribution, type DecodedTrace, type MemoryTrace } from './core/trace';
+
+interface ComparePanelProps {
+  currentConfig: DramConfig;
+  trace: MemoryTrace | null;
+  decodedTrace: DecodedTrace | null;
+  onApplyConfig: (config: DramConfig) => void;
+}
+
+// Level names of A followed by those only B has; the two hierarchies may differ.
+function unionNames(a: HierarchyLevel[], b: HierarchyLevel[]): string[] {
+  return [...a, ...b.filter(level => !findLevel(a, level.name))].map(level => level.name);
+}
+
+function countOf(levels: HierarchyLevel[], name: string): number {
+  return findLevel(levels, name)?.count ?? 0;
+}
+
+function levelsNamed(levels: HierarchyLevel[], names: string[]): HierarchyLevel[] {
+  return names.flatMap(name => findLevel(levels, name) ?? []);
+}
+
+// Levels reported per VM are those above the row; the combined bank count is added as its own row.
+function vmLevelGroups(levels: HierarchyLevel[]): { perLevel: HierarchyLevel[]; banks: HierarchyLevel[] } {
+  const { bankLevels, rowLevels } = splitRowBufferLevels(levels);
+  const rowIndex = levels.indexOf(rowLevels[rowLevels.length - 1]);
+  return { perLevel: rowIndex >= 0 ? levels.slice(0, rowIndex) : [], banks: bankLevels };
+}
+
+// Up to this many ID combinations the per-VM counts follow every edit (see systemCount).
+const AUTO_COUNT_SYSTEMS = 512;
+
+function formatPositions(positions: number[] | null): string {
+  if (positions === null) return '—';
+  return positions.length > 0 ? positions.join(' ⊕ ') : '(empty)';
+}
+
+function capacityOf(totalCapacity: string): bigint {
+  const bytes = parseUnitBasedSizeToBytes(totalCapacity);
+  return typeof bytes === 'bigint' ? bytes : 0n;
+}
+
+// An unknown capacity (no usable ranges) leaves the ranges as they are.
+function clipTo(ranges: AddressRange[], usable: AddressRange[]): AddressRange[] {
+  return usable.length > 0 ? intersectRanges(ranges, usable) : ranges;
+}
+
+// Mapping A is always the configuration being edited; B is held here. Swapping loads B
+// into the editor (keeping the current VMs) so either side can be changed.
+const ComparePanel: React.FC<ComparePanelProps> = ({ currentConfig, trace, decodedTrace, onApplyConfig }) => {
+  const [configB, setConfigB] = useState<DramConfig>(currentConfig);
+  const [nameB, setNameB] = useState<string>('Copy of A');
+  const [presetId, setPresetId] = useState<string>('');
+  const [importErrors, setImportErrors] = useState<ConfigFieldError[]>([]);
+  const [onlyDifferences, setOnlyDifferences] = useState<boolean>(true);
+  const [addressInput, setAddressInput] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [userPresets] = useState(loadUserPresets);
+
+  const levelsA = currentConfig.levels;
+  const levelsB = configB.levels;
+  const mappingA = useMemo(() => mappingOf(levelsA), [levelsA]);
+  const mappingB = useMemo(() => mappingOf(levelsB), [levelsB]);
+  const levelNames = useMemo(() => unionNames(levelsA, levelsB), [levelsA, levelsB]);
+
+  const bitDiffs = useMemo(() => diffIdBits(levelsA, levelsB), [levelsA, levelsB]);
+  const differingBits = bitDiffs.filter(diff => !diff.same).length;
+
+  const address = parseHexAddress(addressInput);
+  // Each configuration translates system addresses with its own system map.
+  const windowsA = useMemo(() => parseSystemMap(currentConfig.memoryMap ?? []), [currentConfig.memoryMap]);
+  const windowsB = useMemo(() => parseSystemMap(configB.memoryMap ?? []), [configB.memoryMap]);
+  const decodedA = address !== null ? decodePhysicalAddress(addressInput, mappingA, windowsA) : null;
+  const decodedB = address !== null ? decodePhysicalAddress(addressInput, mappingB, windowsB) : null;
+
+  // The VM set of A is run through both mappings, each clipped to its own usable DRAM.
+  const usableA = useMemo(() => usableDramRanges(capacityOf(currentConfig.totalCapacity), currentConfig.reserved ?? [], windowsA),
+    [currentConfig.totalCapacity, currentConfig.reserved, windowsA]);
+  const usableB = useMemo(() => usableDramRanges(capacityOf(configB.totalCapacity), configB.reserved ?? [], windowsB),
+    [configB.totalCapacity, configB.reserved, windowsB]);
+  const vmPlans = useMemo(() => currentConfig.vms.map((vm, index) => {
+    const ranges = vmAddressRanges(vm);
+    if (typeof ranges === 'string' || rangesBytes(ranges) === 0n) return { index, rangesA: [], rangesB: [], groups: null };
+    const groupsA = vmLevelGroups(levelsA);
+    const groupsB = vmLevelGroups(levelsB);
+    const perLevelNames = unionNames(groupsA.perLevel, groupsB.perLevel).map(name => [name]);
+    const bankNames = unionNames(groupsA.banks, groupsB.banks);
+    const groups = [...perLevelNames, bankNames]
+      .filter(group => group.some(name => countOf(levelsA, name) > 1 || countOf(levelsB, name) > 1))
+      .map(group => {
+        const groupA = levelsNamed(levelsA, group);
+        const groupB = levelsNamed(levelsB, group);
+        return {
+          label: group === bankNames ? 'Banks (total)' : group[0],
+          groupA, groupB,
+          totalA: groupA.reduce((product, level) => product * Math.max(level.count, 1), 1),
+          totalB: groupB.reduce((product, level) => product * Math.max(level.count, 1), 1),
+        };
+      });
+    return {
+      index, groups,
+      rangesA: clipTo(systemRangesToDram(windowsA, ranges), usableA),
+      rangesB: clipTo(systemRangesToDram(windowsB, ranges), usableB),
+    };
+  }), [currentConfig.vms, usableA, usableB, levelsA, levelsB, windowsA, windowsB]);
+  // Each ID combination is a GF(2) system to solve, so large mappings wait for the Count button
+  // instead of recounting on every keystroke.
+  const systemCount = vmPlans.reduce((sum, plan) => sum + (plan.groups ?? []).reduce((groupSum, group) => groupSum
+    + (group.totalA > MAX_ENUMERATED_IDS ? 0 : group.totalA) + (group.totalB > MAX_ENUMERATED_IDS ? 0 : group.totalB), 0), 0);
+  const [countedPlans, setCountedPlans] = useState<typeof vmPlans | null>(null);
+  const counted = systemCount <= AUTO_COUNT_SYSTEMS || countedPlans === vmPlans;
+  const vmRows = useMemo(() => (!counted ? null : vmPlans.map(plan => ({
+    index: plan.index,
+    levels: plan.groups && plan.groups.map(group => ({
+      label: group.label, totalA: group.totalA, totalB: group.totalB,
+      touchedA: countTouchedElements(levelsA, group.groupA, plan.rangesA),
+      touchedB: countTouchedElements(levelsB, group.groupB, plan.rangesB),
+    })),
+  }))), [counted, vmPlans, levelsA, levelsB]);
+
+  const decodedTraceB = useMemo(() => (trace ? decodeTrace(trace, mappingB) : null), [trace, mappingB]);
+  const traceRows = useMemo(() => {
+    if (!trace || !decodedTrace || !decodedTraceB) return [];
+    return levelNames
+      .filter(level => countOf(levelsA, level) > 1 || countOf(levelsB, level) > 1)
+      .map(level => ({
+        level,
+        a: summarizeDistribution(countAccessesPerElement(decodedTrace, trace.count, [], level, countOf(levelsA, level))),
+        b: summarizeDistribution(countAccessesPerElement(decodedTraceB, trace.count, [], level, countOf(levelsB, level))),
+      }));
+  }, [trace, decodedTrace, decodedTraceB, levelNames, levelsA, levelsB]);
+
+  const handlePresetSelect = (id: string) => {
+    setPresetId(id);
+    const preset = [...BUILT_IN_PRESETS, ...userPresets].find(candidate => candidate.id === id);
+    if (preset) { setConfigB(preset.config); setNameB(preset.name); setImportErrors([]); }
+  };
+  const handleCopyCurrent = () => { setConfigB(currentConfig); setNameB('Copy of A'); setPresetId(''); setImportErrors([]); };
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const result = parseConfigJson(await file.text());
+    if (!result.ok) { setImportErrors(result.errors); return; }
+    setConfigB(result.config); setNameB(file.name); setPresetId(''); setImportErrors([]);
+  };
+  const handleSwap = () => {
+    onApplyConfig({ ...configB, vms: currentConfig.vms });
+    setConfigB(currentConfig); setNameB('Previous A'); setPresetId('');
+  };
+
+  const formatTouched = (touched: number | null, total: number) => (touched === null ? 'too many to count' : `${touched} of ${total}`);
+  const shownDiffs = onlyDifferences ? bitDiffs.filter(diff => !diff.same) : bitDiffs;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+        <Typography variant="body2"><strong>A:</strong> current configuration ({currentConfig.totalCapacity || 'no capacity'})</Typography>
+        <Typography variant="body2"><strong>B:</strong> {nameB} ({configB.totalCapacity || 'no capacity'})</Typography>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+        <TextField select label="Load B from preset" size="small" value={presetId} onChange={(e) => handlePresetSelect(e.target.value)} sx={{ minWidth: 220 }}>
+          <ListSubheader>Built-in mappings</ListSubheader>
+          {BUILT_IN_PRESETS.map(preset => (<MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>))}
+          <ListSubheader>My presets</ListSubheader>
+          {userPresets.length === 0 && <MenuItem disabled value="">No saved presets yet</MenuItem>}
+          {userPresets.map(preset => (<MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>))}
+        </TextField>
+        <Button variant="outlined" size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>Import B</Button>
+        <Button variant="outlined" size="small" onClick={handleCopyCurrent}>Copy A to B</Button>
+        <Button variant="outlined" size="small" startIcon={<SwapHorizIcon />} onClick={handleSwap}>Swap A and B</Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+      </Box>
+      <Typography variant="caption" color="text.secondary">Swapping loads B into the editor so it can be changed; the VMs stay as they are.</Typography>
+      {importErrors.length > 0 && (
+        <Alert severity="error" onClose={() => setImportErrors([])}>
+          {importErrors.map((error, index) => (<Typography key={index} variant="caption" component="div"><strong>{error.field}:</strong> {error.message}</Typography>))}
+        </Alert>
+      )}
+
+      <Divider />
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle1">{`PA bits per ID bit (${differingBits} of ${bitDiffs.length} differ)`}</Typography>
+        <FormControlLabel control={<Switch size="small" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />} label="Only differences" />
+      </Box>
+      {shownDiffs.length === 0 ? (
+        <Typography variant="body2" color="success.main">Both mappings use the same PA bits for every ID bit.</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead><TableRow><TableCell>ID bit</TableCell><TableCell>A</TableCell><TableCell>B</TableCell></TableRow></TableHead>
+          <TableBody>
+            {shownDiffs.map(diff => (
+              <TableRow key={`${diff.level}-${diff.bit}`} sx={{ backgroundColor: diff.same ? undefined : 'rgba(255, 193, 7, 0.12)' }}>
+                <TableCell>{`${diff.level}[${diff.bit}]`}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatPositions(diff.a)}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatPositions(diff.b)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Divider />
+      <Typography variant="subtitle1">Decode under both</Typography>
+      <TextField label="Physical Address" size="small" value={addressInput} onChange={(e) => setAddressInput(e.target.value)}
+        error={addressInput.trim() !== '' && address === null} helperText="Enter in hexadecimal (e.g., 0x110)" sx={{ maxWidth: 320 }} />
+      {decodedA && decodedB && (
+        <Table size="small">
+          <TableHead><TableRow><TableCell>Level</TableCell><TableCell align="right">A</TableCell><TableCell align="right">B</TableCell></TableRow></TableHead>
+          <TableBody>
+            {levelNames.map(level => {
+              const key = levelKey(level);
+              return (
+                <TableRow key={level} sx={{ backgroundColor: decodedA[key] !== decodedB[key] ? 'rgba(255, 193, 7, 0.12)' : undefined }}>
+                  <TableCell>{level}</TableCell>
+                  <TableCell align="right">{decodedA[key] ?? '—'}</TableCell>
+                  <TableCell align="right">{decodedB[key] ?? '—'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Divider />
+      <Typography variant="subtitle1">Elements touched per VM</Typography>
+      {vmPlans.length === 0 && <Typography variant="body2" color="text.secondary">Add VMs under System & VM to compare their placement.</Typography>}
+      {vmPlans.length > 0 && vmRows === null && (
+        <Button variant="contained" size="small" onClick={() => setCountedPlans(vmPlans)} sx={{ alignSelf: 'flex-start' }}>
+          {`Count Elements (${systemCount.toLocaleString()} ID combinations)`}
+        </Button>
+      )}
+      {(vmRows ?? []).map(row => (
+        <Box key={row.index}>
+          <Typography variant="body2"><strong>{vmLabel(currentConfig.vms[row.index], row.index)}</strong></Typography>
+          {row.levels === null ? (
+            <Typography variant="caption" color="error.main">Invalid base address or size</Typography>
+          ) : (
+            <Table size="small">
+              <TableHead><TableRow><TableCell>Level</TableCell><TableCell align="right">A</TableCell><TableCell align="right">B</TableCell></TableRow></TableHead>
+              <TableBody>
+                {row.levels.map(level => (
+                  <TableRow key={level.label}>
+                    <TableCell>{level.label}</TableCell>
+                    <TableCell align="right">{formatTouched(level.touchedA, level.totalA)}</TableCell>
+                    <TableCell align="right">{formatTouched(level.touchedB, level.totalB)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      ))}
+
+      {trace && (
+        <>
+          <Divider />
+          <Typography variant="subtitle1">{`Trace distribution (${trace.name})`}</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow><TableCell>Level</TableCell><TableCell align="right">Used A / B</TableCell><TableCell align="right">Busiest share A / B</TableCell><TableCell align="right">CV A / B</TableCell></TableRow>
+            </TableHead>
+            <TableBody>
+              {traceRows.map(row => (
+                <TableRow key={row.level}>
+                  <TableCell>{row.level}</TableCell>
+                  <TableCell align="right">{`${row.a.touched} / ${row.b.touched}`}</TableCell>
+                  <TableCell align="right">{`${(row.a.busiestShare * 100).toFixed(1)}% / ${(row.b.busiestShare * 100).toFixed(1)}%`}</TableCell>
+                  <TableCell align="right">{`${row.a.cv.toFixed(2)} / ${row.b.cv.toFixed(2)}`}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Grid, Paper, Typography, ListItemButton, ListItemText } from '@mui/material';
+import type { HierarchyLevel } from './core/hierarchy';
+
+// --- Drill-Down Views ---
+// The elements of one level, drawn as a grid, a row list or a column pixel map. A bank can
+// have 65,536 rows and 8,192 columns, so the list only mounts the rows in view and the pixel
+// map is a canvas that is painted as it scrolls. Cells are asked for through `cellAt` only
+// when they are drawn, which keeps the per-element address computations lazy too.
+
+export interface DrillDownCell {
+  // Set when the view shows trace accesses instead of VMs.
+  heat: { color: string; accesses: number } | null;
+  vms: { label: string; color: string }[];
+}
+
+interface DrillDownViewProps {
+  level: HierarchyLevel;
+  cellAt: (index: number) => DrillDownCell;
+  onSelect: (index: number) => void;
+  // The selected element, outlined and scrolled into view (e.g. after a search).
+  target: number | null;
+}
+
+export const VM_CONFLICT_COLOR = 'rgba(100, 100, 100, 0.7)';
+export const UNUSED_COLUMN_COLOR = 'rgba(230, 230, 230, 0.7)';
+// Row list markers for the selected row (index 0) and its ±1 and ±2 neighbours.
+const NEIGHBOUR_COLORS = ['#d32f2f', '#f57c00', '#fbc02d'];
+
+const VIEW_HEIGHT = 400;
+const ROW_HEIGHT = 48;
+const PIXEL_SIZE = 8;
+const PIXEL_PITCH = 10;
+const PIXELS_PER_ROW = 64;
+// Rows mounted (or painted) above and below the visible ones, so fast scrolling shows no gaps.
+const OVERSCAN = 8;
+const TARGET_OUTLINE = '2px solid #1976d2';
+
+// Several VMs share an element: diagonal stripes of their colors.
+function stripes(colors: string[]): string {
+  return `linear-gradient(45deg, ${colors.map((color, i) => `${color} ${(i * 100) / colors.length}%, ${color} ${((i + 1) * 100) / colors.length}%`).join(', ')})`;
+}
+
+function cellBackground(cell: DrillDownCell): React.CSSProperties {
+  if (cell.heat) return { backgroundColor: cell.heat.color };
+  if (cell.vms.length === 1) return { backgroundColor: cell.vms[0].color };
+  if (cell.vms.length > 1) return { background: stripes(cell.vms.map(vm => vm.color)) };
+  return {};
+}
+
+// The visible slice of a scrolled list of equally tall rows.
+function visibleRows(scrollTop: number, rowHeight: number, rowCount: number): { first: number; last: number } {
+  return {
+    first: Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN),
+    last: Math.min(rowCount, Math.ceil((scrollTop + VIEW_HEIGHT) / rowHeight) + OVERSCAN),
+  };
+}
+
+// Centers a row of a scrolled view, unless it is already visible.
+function scrollToRow(container: HTMLElement | null, row: number | null, rowHeight: number): void {
+  if (!container || row === null) return;
+  const top = row * rowHeight;
+  if (top >= container.scrollTop && top + rowHeight <= container.scrollTop + container.clientHeight) return;
+  container.scrollTop = Math.max(0, top - (container.clientHeight - rowHeight) / 2);
+}
+
+export const ElementGrid: React.FC<DrillDownViewProps> = ({ level, cellAt, onSelect, target }) => {
+  const targetRef = useRef<HTMLDivElement>(null);
+  useEffect(() => { targetRef.current?.scrollIntoView({ block: 'nearest' }); }, [target]);
+  return (
+    <Grid container spacing={1} sx={{ p: 1 }}>
+      {Array.from({ length: level.count }, (_, index) => {
+        const cell = cellAt(index);
+        return (
+          <Grid key={index} size={{ xs: 3, sm: 2, md: 1.5, lg: 1 }}>
+            <Paper variant="outlined" onClick={() => onSelect(index)} ref={index === target ? targetRef : undefined}
+              sx={{ p: 1, minHeight: 30, display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', transition: 'background 0.3s', '&:hover': { boxShadow: 3, borderColor: 'primary.main' }, ...cellBackground(cell), outline: index === target ? TARGET_OUTLINE : undefined }}>
+              <Typography variant="caption" component="div">{level.shortLabel}{index}</Typography>
+              {cell.heat && <Typography variant="caption" component="div" sx={{ ml: 0.5, opacity: 0.8 }}>({cell.heat.accesses.toLocaleString()})</Typography>}
+            </Paper>
+          </Grid>
+        );
+      })}
+    </Grid>
+  );
+};
+
+// `highlights` maps element IDs to their offset from the selected row (0 is the row itself).
+export const ElementList: React.FC<DrillDownViewProps & { highlights: Map<number, number> }> = ({ level, cellAt, onSelect, target, highlights }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const { first, last } = visibleRows(scrollTop, ROW_HEIGHT, level.count);
+  useEffect(() => { scrollToRow(containerRef.current, target, ROW_HEIGHT); }, [target]);
+  return (
+    <Box ref={containerRef} onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      sx={{ maxHeight: VIEW_HEIGHT, overflowY: 'auto', border: '1px solid #ccc', borderRadius: 1, m: 1 }}>
+      <Box sx={{ position: 'relative', height: level.count * ROW_HEIGHT }}>
+        {Array.from({ length: last - first }, (_, offset) => {
+          const index = first + offset;
+          const cell = cellAt(index);
+          const hammerOffset = highlights.get(index);
+          const secondary = [
+            hammerOffset === undefined ? null : (hammerOffset === 0 ? 'selected row' : `neighbour ${hammerOffset > 0 ? '+' : '−'}${Math.abs(hammerOffset)}`),
+            cell.heat ? `${cell.heat.accesses.toLocaleString()} accesses` : null,
+          ].filter(Boolean).join(', ');
+          return (
+            <ListItemButton key={index} dense onClick={() => onSelect(index)}
+              sx={{
+                position: 'absolute', top: index * ROW_HEIGHT, left: 0, right: 0, height: ROW_HEIGHT, py: 0.5, ...cellBackground(cell),
+                boxShadow: hammerOffset === undefined ? undefined : `inset 6px 0 0 ${NEIGHBOUR_COLORS[Math.abs(hammerOffset)]}`,
+                outline: index === target ? TARGET_OUTLINE : undefined, outlineOffset: -2,
+              }}>
+              <ListItemText primary={`${level.shortLabel} ${index}`} secondary={secondary || undefined} />
+            </ListItemButton>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+function pixelColor(cell: DrillDownCell): string {
+  if (cell.heat) return cell.heat.color;
+  if (cell.vms.length === 1) return cell.vms[0].color;
+  return cell.vms.length > 1 ? VM_CONFLICT_COLOR : UNUSED_COLUMN_COLOR;
+}
+
+function pixelTitle(label: string, cell: DrillDownCell): string {
+  if (cell.heat) return `${label} (${cell.heat.accesses.toLocaleString()} accesses)`;
+  if (cell.vms.length === 1) return `${label} (${cell.vms[0].label})`;
+  return cell.vms.length > 1 ? `${label} (Conflict: Used by ${cell.vms.length} VMs)` : label;
+}
+
+// One canvas for the rows in view (plus the overscan), moved along and repainted as the view
+// scrolls. A canvas with every row would pass the browsers' canvas height limit (about 32,000
+// px) for levels of a few hundred thousand elements.
+export const ElementPixelMap: React.FC<DrillDownViewProps> = ({ level, cellAt, onSelect, target }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const rowCount = Math.ceil(level.count / PIXELS_PER_ROW);
+  const width = Math.min(level.count, PIXELS_PER_ROW) * PIXEL_PITCH;
+  const { first, last } = visibleRows(scrollTop, PIXEL_PITCH, rowCount);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, width, (last - first) * PIXEL_PITCH);
+    for (let row = first; row < last; row++) {
+      for (let column = 0; column < PIXELS_PER_ROW; column++) {
+        const index = row * PIXELS_PER_ROW + column;
+        if (index >= level.count) break;
+        const x = column * PIXEL_PITCH;
+        const y = (row - first) * PIXEL_PITCH;
+        context.fillStyle = pixelColor(cellAt(index));
+        context.fillRect(x, y, PIXEL_SIZE, PIXEL_SIZE);
+        context.strokeStyle = '#bbb';
+        context.strokeRect(x + 0.5, y + 0.5, PIXEL_SIZE - 1, PIXEL_SIZE - 1);
+      }
+    }
+  }, [cellAt, first, last, width, level.count]);
+
+  useEffect(() => {
+    scrollToRow(containerRef.current, target === null ? null : Math.floor(target / PIXELS_PER_ROW), PIXEL_PITCH);
+  }, [target]);
+
+  const indexAt = (event: React.MouseEvent<HTMLCanvasElement>): number | null => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor((event.clientX - bounds.left) / PIXEL_PITCH);
+    const index = (first + Math.floor((event.clientY - bounds.top) / PIXEL_PITCH)) * PIXELS_PER_ROW + column;
+    return column < PIXELS_PER_ROW && index >= 0 && index < level.count ? index : null;
+  };
+  const label = (index: number) => `${level.shortLabel} ${index}`;
+
+  return (
+    <Box>
+      <Box ref={containerRef} onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        sx={{ p: 0.5, border: '1px solid #ddd', borderRadius: 1, maxHeight: VIEW_HEIGHT, overflowY: 'auto' }}>
+        <Box sx={{ position: 'relative', width, height: rowCount * PIXEL_PITCH }}>
+          <canvas ref={canvasRef} width={width} height={(last - first) * PIXEL_PITCH}
+            style={{ position: 'absolute', top: first * PIXEL_PITCH, left: 0, display: 'block', cursor: 'pointer' }}
+            title={hovered === null ? undefined : pixelTitle(label(hovered), cellAt(hovered))}
+            onMouseMove={(event) => setHovered(indexAt(event))} onMouseLeave={() => setHovered(null)}
+            onClick={(event) => { const index = indexAt(event); if (index !== null) onSelect(index); }} />
+          {target !== null && target < level.count && (
+            <Box sx={{
+              position: 'absolute', pointerEvents: 'none', outline: TARGET_OUTLINE, width: PIXEL_SIZE, height: PIXEL_SIZE,
+              left: (target % PIXELS_PER_ROW) * PIXEL_PITCH, top: Math.floor(target / PIXELS_PER_ROW) * PIXEL_PITCH,
+            }} />
+          )}
+        </Box>
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        {hovered === null ? `${level.count.toLocaleString()} ${level.name}s, ${PIXELS_PER_ROW} per row` : pixelTitle(label(hovered), cellAt(hovered))}
+      </Typography>
+    </Box>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { Box, TextField, Button } from '@mui/material';
+import type { HierarchyLevel } from './core/hierarchy';
+import { resolveSearchTarget } from './core/elementPath';
+import type { SystemWindow } from './core/systemMap';
+
+interface ElementSearchProps {
+  levels: HierarchyLevel[];
+  windows: SystemWindow[];
+  // IDs from the outermost level down to the element to show.
+  onGo: (ids: number[]) => void;
+}
+
+// Jumps to an element by path (ch1/rk0/bg1/bk2/row4000) or by the system address it holds.
+const ElementSearch: React.FC<ElementSearchProps> = ({ levels, windows, onGo }) => {
+  const [text, setText] = useState<string>('');
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const handleGo = () => {
+    const ids = resolveSearchTarget(text, levels, windows);
+    if (typeof ids === 'string') { setErrorMessage(ids); return; }
+    setErrorMessage('');
+    onGo(ids);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+      <TextField size="small" label="Go to" placeholder="ch1/rk0/bg1/bk2/row4000 or 0x1f40" value={text}
+        onChange={(e) => { setText(e.target.value); setErrorMessage(''); }}
+        onKeyDown={(e) => { if (e.key === 'Enter') handleGo(); }}
+        error={!!errorMessage} helperText={errorMessage || undefined} sx={{ width: 300 }} />
+      <Button variant="outlined" size="small" onClick={handleGo} disabled={!text.trim()} sx={{ mt: 0.5 }}>Go</Button>
+    </Box>
+  );
+};
+
+export default ElementSearch;
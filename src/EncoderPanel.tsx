@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, TextField, MenuItem, Link as MuiLink } from '@mui/material';
+import { formatHexAddress } from './core/helpers';
+import { levelKey, type HierarchyLevel } from './core/hierarchy';
+import { encodeHierarchyIds, type EncodeScope, type HierarchyIdRequest } from './core/encoder';
+
+export interface NamedEncodeScope extends EncodeScope { label: string; }
+
+interface EncoderPanelProps {
+  ids: Record<string, string>;
+  onIdsChange: (ids: Record<string, string>) => void;
+  levels: HierarchyLevel[];
+  scopes: NamedEncodeScope[];
+  onAddressPick: (address: string) => void;
+}
+
+const MAX_LISTED_ADDRESSES = 64;
+
+const EncoderPanel: React.FC<EncoderPanelProps> = ({ ids, onIdsChange, levels, scopes, onAddressPick }) => {
+  const [scopeIndex, setScopeIndex] = useState<number>(0);
+  const scope = scopes[Math.min(scopeIndex, scopes.length - 1)];
+
+  const request: HierarchyIdRequest | string = useMemo(() => {
+    const parsed: HierarchyIdRequest = {};
+    for (const level of levels) {
+      const key = levelKey(level.name);
+      const text = (ids[key] ?? '').trim();
+      if (!text) { parsed[key] = null; continue; }
+      if (!/^\d+$/.test(text)) return `${level.name} ID must be a non-negative integer`;
+      parsed[key] = parseInt(text, 10);
+    }
+    return parsed;
+  }, [ids, levels]);
+
+  const result = useMemo(() => (
+    typeof request === 'string' ? { ok: false as const, message: request }
+      : encodeHierarchyIds(request, levels, scope, MAX_LISTED_ADDRESSES)
+  ), [request, levels, scope]);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+        {levels.map(level => (
+          <TextField key={level.name} label={`${level.name} ID`} size="small" placeholder="any" sx={{ width: '105px' }}
+            value={ids[levelKey(level.name)] ?? ''}
+            onChange={(e) => onIdsChange({ ...ids, [levelKey(level.name)]: e.target.value })} />
+        ))}
+      </Box>
+      <TextField select label="Search range" size="small" value={Math.min(scopeIndex, scopes.length - 1)} onChange={(e) => setScopeIndex(Number(e.target.value))} sx={{ mt: 1.5, mb: 1, width: '100%' }}>
+        {scopes.map((s, index) => (<MenuItem key={index} value={index}>{s.label} ({formatHexAddress(s.start)} - {formatHexAddress(s.end)})</MenuItem>))}
+      </TextField>
+      {!result.ok ? (
+        <Typography variant="body2" color="error.main">{result.message}</Typography>
+      ) : (
+        <>
+          <Typography variant="body2"><strong>First address:</strong> {formatHexAddress(result.addresses[0])}</Typography>
+          <Typography variant="caption" component="div" color="text.secondary">
+            {`${result.totalSolutions.toLocaleString()} matching address${result.totalSolutions === 1n ? '' : 'es'} in range${result.truncated ? `; showing the first ${result.addresses.length}` : ''}. Click one to decode it.`}
+          </Typography>
+          <Box sx={{ maxHeight: 120, overflowY: 'auto', mt: 0.5 }}>
+            {result.addresses.map(address => (
+              <MuiLink key={address.toString()} component="button" variant="caption" sx={{ display: 'block', fontFamily: 'monospace' }}
+                onClick={() => onAddressPick(formatHexAddress(address))}>{formatHexAddress(address)}</MuiLink>
+            ))}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default EncoderPanel;
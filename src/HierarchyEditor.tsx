@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Box, Typography, TextField, MenuItem, Button, IconButton, Tooltip } from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+  createLevel, findLevel, insertLevel, levelNameError, LEVEL_LAYOUTS, LEVEL_TEMPLATES,
+  type HierarchyLevel, type LevelLayout,
+} from './core/hierarchy';
+
+interface HierarchyEditorProps {
+  levels: HierarchyLevel[];
+  onChange: (levels: HierarchyLevel[]) => void;
+}
+
+const LAYOUT_LABELS: Record<LevelLayout, string> = { grid: 'Grid', list: 'List', pixel: 'Pixels' };
+const CUSTOM_LEVEL = 'custom';
+
+function customLevelName(levels: HierarchyLevel[]): string {
+  let suffix = 1;
+  while (findLevel(levels, `Level${suffix}`)) suffix++;
+  return `Level${suffix}`;
+}
+
+// Structure of the hierarchy (order, names, labels, layouts). Counts and Nbit fields are
+// edited per level below it.
+const HierarchyEditor: React.FC<HierarchyEditorProps> = ({ levels, onChange }) => {
+  const [newLevel, setNewLevel] = useState<string>(CUSTOM_LEVEL);
+
+  const updateLevel = (index: number, changes: Partial<HierarchyLevel>) =>
+    onChange(levels.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+  const moveLevel = (index: number, offset: number) => {
+    const reordered = [...levels];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+  const handleAdd = () => {
+    const template = LEVEL_TEMPLATES.find(candidate => candidate.name === newLevel);
+    const name = customLevelName(levels);
+    onChange(insertLevel(levels, createLevel(template ?? { name, shortLabel: name, layout: 'grid' }, 1)));
+    setNewLevel(CUSTOM_LEVEL);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Outermost level first. The visualizer drills down in this order; clicking an element of the last level selects it.
+      </Typography>
+      {levels.map((level, index) => {
+        const nameError = levelNameError(levels, index);
+        return (
+          <Box key={index} sx={{ display: 'flex', gap: 0.5, alignItems: 'flex-start' }}>
+            <TextField label="Name" size="small" value={level.name} onChange={(e) => updateLevel(index, { name: e.target.value })}
+              error={nameError !== null} helperText={nameError ?? undefined} sx={{ flex: 2 }} />
+            <TextField label="Label" size="small" value={level.shortLabel} onChange={(e) => updateLevel(index, { shortLabel: e.target.value })}
+              error={!level.shortLabel.trim()} sx={{ flex: 1 }} />
+            <TextField select label="Layout" size="small" value={level.layout} onChange={(e) => updateLevel(index, { layout: e.target.value as LevelLayout })} sx={{ flex: 1.2 }}>
+              {LEVEL_LAYOUTS.map(layout => (<MenuItem key={layout} value={layout}>{LAYOUT_LABELS[layout]}</MenuItem>))}
+            </TextField>
+            <IconButton size="small" aria-label="Move up" disabled={index === 0} onClick={() => moveLevel(index, -1)}><ArrowUpwardIcon fontSize="small" /></IconButton>
+            <IconButton size="small" aria-label="Move down" disabled={index === levels.length - 1} onClick={() => moveLevel(index, 1)}><ArrowDownwardIcon fontSize="small" /></IconButton>
+            <Tooltip title={levels.length === 1 ? 'The hierarchy needs at least one level' : 'Remove level'}>
+              <span>
+                <IconButton size="small" aria-label="Remove level" disabled={levels.length === 1} onClick={() => onChange(levels.filter((_, i) => i !== index))}>
+                  <DeleteOutlineIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        );
+      })}
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField select label="New level" size="small" value={newLevel} onChange={(e) => setNewLevel(e.target.value)} sx={{ flexGrow: 1 }}>
+          <MenuItem value={CUSTOM_LEVEL}>Custom level</MenuItem>
+          {LEVEL_TEMPLATES.map(template => (
+            <MenuItem key={template.name} value={template.name} disabled={findLevel(levels, template.name) !== undefined}>{template.name}</MenuItem>
+          ))}
+        </TextField>
+        <Button variant="outlined" size="small" onClick={handleAdd}>Add</Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default HierarchyEditor;
@@ -0,0 +1,106 @@
+import React, { useRef, useState, type ChangeEvent } from 'react';
+import { Box, Typography, TextField, Button, MenuItem, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { getBit } from './core/helpers';
+import { splitRowBufferLevels, type HierarchyLevel } from './core/hierarchy';
+import { parseTimingData, inferBankFunctions, assignInferredFunctions, type MappingInference } from './core/mappingInference';
+import { TIMING_SAMPLES } from './timingSamples';
+
+interface MappingInferencePanelProps {
+  levels: HierarchyLevel[];
+  onApply: (levels: HierarchyLevel[]) => void;
+}
+
+const CONFIDENCE_COLORS = { high: 'success.main', medium: 'warning.main', low: 'error.main' };
+
+// Timing data in, XOR functions for the levels above the row out; rows and columns are left as they are.
+const MappingInferencePanel: React.FC<MappingInferencePanelProps> = ({ levels, onApply }) => {
+  const [text, setText] = useState<string>('');
+  const [inference, setInference] = useState<MappingInference | null>(null);
+  const [skippedLines, setSkippedLines] = useState<number>(0);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleInfer = (input: string) => {
+    const parsed = parseTimingData(input);
+    const result = typeof parsed === 'string' ? parsed : inferBankFunctions(parsed.data);
+    if (typeof result === 'string') { setErrorMessage(result); setInference(null); return; }
+    setErrorMessage(''); setInference(result); setSkippedLines(typeof parsed === 'string' ? 0 : parsed.skippedLines);
+  };
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    handleInfer(content);
+  };
+  const handleSample = (id: string) => {
+    const sample = TIMING_SAMPLES.find(candidate => candidate.id === id);
+    if (!sample) return;
+    setText(sample.text);
+    handleInfer(sample.text);
+  };
+
+  // "Channel bit 0", "BankGroup bit 1", ...: the fields the functions go to, in order.
+  const targets = splitRowBufferLevels(levels).bankLevels.flatMap(level => Array.from({ length: getBit(level.count) }, (_, bit) => `${level.name} bit ${bit}`));
+  const assigned = inference ? assignInferredFunctions(levels, inference.functions) : null;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Paste conflict-timing results: lines of <code>address_a,address_b,latency</code>, or same-bank sets of addresses separated by blank lines.
+        The functions are found over GF(2) and fill the levels above the row, widest function first.
+      </Typography>
+      <TextField select size="small" label="Sample data" value="" onChange={(e) => handleSample(e.target.value)}>
+        {TIMING_SAMPLES.map(sample => (<MenuItem key={sample.id} value={sample.id}>{sample.name}</MenuItem>))}
+      </TextField>
+      <TextField multiline minRows={2} maxRows={6} size="small" placeholder="0x1f40,0x82040,338" value={text}
+        onChange={(e) => setText(e.target.value)} sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '0.75rem' } }} />
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" onClick={() => handleInfer(text)} disabled={!text.trim()}>Infer</Button>
+        <Button variant="outlined" size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>Load File</Button>
+        <input ref={fileInputRef} type="file" hidden onChange={handleFile} />
+      </Box>
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {inference && (
+        <Box>
+          <Typography variant="body2" sx={{ color: CONFIDENCE_COLORS[inference.confidence], fontWeight: 'bold' }}>{`Confidence: ${inference.confidence}`}</Typography>
+          <Typography variant="caption" component="div">
+            {`${inference.addressCount} addresses in ${inference.setCount} same-bank sets, ${inference.banksSeen} distinct banks; PA bits ${inference.varyingBits[0]}-${inference.varyingBits[inference.varyingBits.length - 1]} vary`}
+          </Typography>
+          {inference.latency && (
+            <Typography variant="caption" component="div">
+              {`Conflict threshold ${inference.latency.threshold.toFixed(0)} (fast ${inference.latency.fastMean.toFixed(0)}, slow ${inference.latency.slowMean.toFixed(0)}, separation ${inference.latency.separation.toFixed(1)}); ${inference.latency.slowPairs} slow pairs`}
+            </Typography>
+          )}
+          {skippedLines > 0 && <Typography variant="caption" component="div" color="text.secondary">{`${skippedLines} lines skipped`}</Typography>}
+          {inference.notes.map((note, index) => (<Typography key={index} variant="caption" component="div" color="warning.main">{note}</Typography>))}
+          {inference.functions.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow><TableCell>Function (XOR of PA bits)</TableCell><TableCell>Field</TableCell><TableCell align="right">Sets 0 / 1</TableCell></TableRow>
+              </TableHead>
+              <TableBody>
+                {inference.functions.map((fn, index) => (
+                  <TableRow key={fn.mask.toString()}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{fn.bits.join(' ^ ')}</TableCell>
+                    <TableCell>{targets[index] ?? '—'}</TableCell>
+                    <TableCell align="right">{`${fn.setsByValue[0]} / ${fn.setsByValue[1]}`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {typeof assigned === 'string' && <Typography variant="caption" component="div" color="error.main">{assigned}</Typography>}
+          <Button variant="contained" size="small" sx={{ mt: 0.5 }} disabled={!assigned || typeof assigned === 'string'}
+            onClick={() => { if (assigned && typeof assigned !== 'string') onApply(assigned); }}>
+            Write into Nbit Fields
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MappingInferencePanel;
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, Tooltip } from '@mui/material';
+import { parseNbitMappingToPositions } from './core/helpers';
+import { levelKey, type HierarchyLevel } from './core/hierarchy';
+import { fieldKey, fieldLabel, type MappingIssue } from './core/validation';
+
+interface MappingMatrixProps {
+  levels: HierarchyLevel[];
+  // Address bits required by the capacity, or null when the capacity is not set.
+  addressBits: number | null;
+  fieldIssues: Map<string, MappingIssue>;
+  onToggle: (level: string, bitIndex: number, paBit: number) => void;
+}
+
+const CELL_SIZE = 18;
+const LABEL_WIDTH = 110;
+// Assigned by level position, so a custom hierarchy still gets distinct colors.
+const LEVEL_COLORS = ['#1976d2', '#7b1fa2', '#f57c00', '#d32f2f', '#00897b', '#5d4037', '#455a64', '#c2185b', '#689f38', '#0097a7'];
+
+interface MatrixRow { level: string; color: string; bitIndex: number; positions: Set<number>; }
+
+// One row per ID bit, one column per PA bit. Clicking a cell toggles that PA bit in the
+// field's comma-separated list, so the matrix and the text fields are two views of one state.
+const MappingMatrix: React.FC<MappingMatrixProps> = ({ levels, addressBits, fieldIssues, onToggle }) => {
+  const rows: MatrixRow[] = useMemo(() => levels.flatMap((level, levelIndex) =>
+    level.nbits.map((text, bitIndex) => ({
+      level: level.name, color: LEVEL_COLORS[levelIndex % LEVEL_COLORS.length], bitIndex,
+      positions: new Set((parseNbitMappingToPositions(text) ?? []).filter(pos => pos >= 0)),
+    }))), [levels]);
+
+  const highestUsed = rows.reduce((max, row) => Math.max(max, ...row.positions), -1);
+  const columnCount = Math.max(addressBits ?? 0, highestUsed + 1, 1);
+  const paBits = Array.from({ length: columnCount }, (_, bit) => bit);
+  const usesPerBit = paBits.map(bit => rows.filter(row => row.positions.has(bit)).length);
+
+  const usageColor = (uses: number, bit: number) => {
+    if (addressBits !== null && bit >= addressBits) return 'error.main';
+    if (uses === 0) return 'warning.main';
+    return uses > 1 ? 'info.main' : 'text.secondary';
+  };
+
+  if (rows.length === 0) {
+    return <Typography variant="body2" color="text.secondary">No ID bits configured yet. Set a value for at least one level.</Typography>;
+  }
+
+  return (
+    <Box>
+      <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+        Click a cell to add or remove that PA bit from the ID bit. The bottom row counts the ID bits each PA bit feeds:
+        orange = unused, blue = shared by several ID bits (XOR hashing), red = beyond the capacity.
+      </Typography>
+      <Box sx={{ display: 'inline-block', fontSize: '0.7rem' }}>
+        <Box sx={{ display: 'flex' }}>
+          <Box sx={{ width: LABEL_WIDTH, flexShrink: 0 }} />
+          {paBits.map(bit => (
+            <Box key={bit} sx={{ width: CELL_SIZE, textAlign: 'center', color: addressBits !== null && bit >= addressBits ? 'error.main' : 'text.secondary' }}>{bit}</Box>
+          ))}
+        </Box>
+        {rows.map((row, rowIndex) => {
+          const issue = fieldIssues.get(fieldKey(levelKey(row.level), row.bitIndex));
+          const startsLevel = rowIndex === 0 || rows[rowIndex - 1].level !== row.level;
+          return (
+            <Box key={`${row.level}-${row.bitIndex}`} sx={{ display: 'flex', borderTop: startsLevel ? '1px solid' : 'none', borderColor: 'divider' }}>
+              <Tooltip title={issue?.message ?? ''} placement="left">
+                <Box sx={{
+                  width: LABEL_WIDTH, flexShrink: 0, pr: 1, textAlign: 'right', lineHeight: `${CELL_SIZE}px`, whiteSpace: 'nowrap',
+                  color: issue ? (issue.severity === 'error' ? 'error.main' : 'warning.main') : row.color,
+                  fontWeight: issue ? 'bold' : 'normal',
+                }}>{fieldLabel(row.level, row.bitIndex)}</Box>
+              </Tooltip>
+              {paBits.map(bit => {
+                const marked = row.positions.has(bit);
+                return (
+                  <Box key={bit} onClick={() => onToggle(row.level, row.bitIndex, bit)} title={`${fieldLabel(row.level, row.bitIndex)} ← PA bit ${bit}`}
+                    sx={{
+                      width: CELL_SIZE, height: CELL_SIZE, cursor: 'pointer', boxSizing: 'border-box',
+                      border: '1px solid', borderColor: 'rgba(0, 0, 0, 0.08)',
+                      backgroundColor: marked ? row.color : (usesPerBit[bit] > 1 ? 'rgba(2, 136, 209, 0.06)' : 'transparent'),
+                      '&:hover': { outline: '2px solid', outlineColor: row.color, outlineOffset: '-2px' },
+                    }} />
+                );
+              })}
+            </Box>
+          );
+        })}
+        <Box sx={{ display: 'flex', borderTop: '1px solid', borderColor: 'divider' }}>
+          <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, pr: 1, textAlign: 'right', color: 'text.secondary' }}>uses</Box>
+          {paBits.map(bit => (
+            <Box key={bit} sx={{ width: CELL_SIZE, textAlign: 'center', fontWeight: 'bold', color: usageColor(usesPerBit[bit], bit) }}>{usesPerBit[bit]}</Box>
+          ))}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default MappingMatrix;
@@ -0,0 +1,96 @@
+import React, { useRef, useState, type ChangeEvent } from 'react';
+import { Box, Typography, TextField, Button } from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { formatBytes, formatHexAddress } from './core/helpers';
+import { createConfig, type DramConfig } from './core/config';
+import { parseMemoryMap, memoryMapToConfig, MEMORY_MAP_FORMAT_LABELS, type ImportedMemoryMap } from './core/memoryMapImport';
+import { rangesBytes, reservedRanges } from './core/vmMemory';
+
+interface MemoryMapImportPanelProps {
+  currentConfig: DramConfig;
+  onApplyConfig: (config: DramConfig) => void;
+}
+
+const MAX_LISTED_REGIONS = 8;
+
+// A memory map replaces the capacity, the VMs, the reserved regions and the system map;
+// pagemap frames are one more VM on top of the current ones.
+function applyMap(config: DramConfig, map: ImportedMemoryMap): DramConfig {
+  const imported = memoryMapToConfig(map);
+  if (map.format === 'pagemap') return createConfig(config.totalCapacity, config.levels, [...config.vms, ...imported.vms], config);
+  return createConfig(imported.totalCapacity, config.levels, imported.vms, { reserved: imported.reserved });
+}
+
+const MemoryMapImportPanel: React.FC<MemoryMapImportPanelProps> = ({ currentConfig, onApplyConfig }) => {
+  const [text, setText] = useState<string>('');
+  const [map, setMap] = useState<ImportedMemoryMap | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleParse = (input: string) => {
+    const result = parseMemoryMap(input);
+    if (typeof result === 'string') { setErrorMessage(result); setMap(null); return; }
+    setErrorMessage(''); setMap(result);
+  };
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    handleParse(content);
+  };
+  const handleApply = () => {
+    if (!map) return;
+    onApplyConfig(applyMap(currentConfig, map));
+    setMap(null);
+  };
+
+  const reserved = currentConfig.reserved ?? [];
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Paste or load /proc/iomem (as root), the e820 or UEFI memory map from the boot log, or a process's physical frame numbers from /proc/pid/pagemap.
+      </Typography>
+      <TextField multiline minRows={2} maxRows={6} size="small" placeholder="00100000-bfffffff : System RAM" value={text}
+        onChange={(e) => setText(e.target.value)} sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '0.75rem' } }} />
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" onClick={() => handleParse(text)} disabled={!text.trim()}>Read</Button>
+        <Button variant="outlined" size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>Load File</Button>
+        <input ref={fileInputRef} type="file" hidden onChange={handleFile} />
+      </Box>
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {map && (
+        <Box>
+          <Typography variant="body2"><strong>{MEMORY_MAP_FORMAT_LABELS[map.format]}</strong></Typography>
+          {map.regions.slice(0, MAX_LISTED_REGIONS).map((region, index) => (
+            <Typography key={index} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+              {`${region.name}: ${formatHexAddress(region.ranges[0].start)} - ${formatHexAddress(region.ranges[region.ranges.length - 1].end)}`}
+              {region.ranges.length > 1 ? ` (${region.ranges.length.toLocaleString()} pieces, ${formatBytes(rangesBytes(region.ranges))})` : ''}
+            </Typography>
+          ))}
+          {map.regions.length > MAX_LISTED_REGIONS && <Typography variant="caption" component="div">{`… ${map.regions.length - MAX_LISTED_REGIONS} more`}</Typography>}
+          {map.format !== 'pagemap' && (
+            <Typography variant="caption" component="div">
+              {`Capacity ${formatBytes(map.top)}, ${map.holes.length} hole${map.holes.length === 1 ? '' : 's'} (${formatBytes(rangesBytes(map.holes.map(hole => hole.range)))})`}
+            </Typography>
+          )}
+          {map.skippedLines > 0 && <Typography variant="caption" component="div" color="text.secondary">{`${map.skippedLines.toLocaleString()} lines skipped`}</Typography>}
+          <Button variant="contained" size="small" onClick={handleApply} sx={{ mt: 0.5 }}>
+            {map.format === 'pagemap' ? 'Add as VM' : 'Replace capacity, VMs and reserved regions'}
+          </Button>
+        </Box>
+      )}
+      {reserved.length > 0 && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption" sx={{ flexGrow: 1 }}>
+            {`${reserved.length} reserved region${reserved.length === 1 ? '' : 's'} (${formatBytes(rangesBytes(reservedRanges(reserved)))}) excluded from the capacity`}
+          </Typography>
+          <Button size="small" color="error" onClick={() => onApplyConfig(createConfig(currentConfig.totalCapacity, currentConfig.levels, currentConfig.vms, { memoryMap: currentConfig.memoryMap }))}>Clear</Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default MemoryMapImportPanel;
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, TextField, MenuItem, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import { formatBytes, formatHexAddress } from './core/helpers';
+import type { HierarchyLevel } from './core/hierarchy';
+import type { VmConfig } from './core/config';
+import type { SystemWindow } from './core/systemMap';
+import { pageSizeBytes, PAGE_SIZES } from './core/vmMemory';
+import { pageSpread, misalignedVms, misalignedWindows } from './core/pageAlignment';
+
+interface PageAlignmentPanelProps {
+  levels: HierarchyLevel[];
+  vms: VmConfig[];
+  windows: SystemWindow[];
+}
+
+const formatIdBits = (bits: number[]) => (bits.length > 0 ? bits.join(', ') : '—');
+
+const PageAlignmentPanel: React.FC<PageAlignmentPanelProps> = ({ levels, vms, windows }) => {
+  const [pageSize, setPageSize] = useState<string>('2MB');
+  const pageBytes = pageSizeBytes(pageSize);
+
+  const spread = useMemo(() => pageSpread(levels, pageBytes), [levels, pageBytes]);
+  const vmWarnings = useMemo(() => misalignedVms(vms, pageBytes), [vms, pageBytes]);
+  const windowWarnings = useMemo(() => misalignedWindows(windows, pageBytes), [windows, pageBytes]);
+  // Elements of each level in the whole system, for "N of M".
+  const totals = levels.reduce<number[]>((acc, level) => [...acc, (acc[acc.length - 1] ?? 1) * level.count], []);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      <TextField select size="small" label="Page Size" value={pageSize} onChange={(e) => setPageSize(e.target.value)} sx={{ width: 140 }}>
+        {PAGE_SIZES.map(size => (<MenuItem key={size} value={size}>{size}</MenuItem>))}
+      </TextField>
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Level</TableCell>
+              <TableCell>Fixed ID bits</TableCell>
+              <TableCell>Varying ID bits</TableCell>
+              <TableCell align="right">IDs per page</TableCell>
+              <TableCell align="right">Elements per page</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {spread.map((level, index) => (
+              <TableRow key={level.level}>
+                <TableCell>{level.level}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatIdBits(level.fixedBits)}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{formatIdBits(level.varyingBits)}</TableCell>
+                <TableCell align="right">{`${level.ids} of ${levels[index].count}`}</TableCell>
+                <TableCell align="right" sx={{ color: level.elements === totals[index] && totals[index] > 1 ? 'warning.main' : undefined }}>
+                  {`${level.elements} of ${totals[index]}`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        {`One ${pageSize} page touches ${spread.map(level => `${level.elements} ${level.level}${level.elements === 1 ? '' : 's'}`).join(', ')}.`}
+      </Typography>
+      {vmWarnings.map(vm => (
+        <Typography key={vm.label} variant="caption" color="warning.main">
+          {vm.startOffset !== 0n
+            ? `${vm.label}: ${formatHexAddress(vm.start)} is ${formatBytes(vm.startOffset)} past a ${pageSize} boundary`
+            : `${vm.label}: a range starting at ${formatHexAddress(vm.start)} ends ${formatBytes(vm.endOffset)} into a ${pageSize} page`}
+        </Typography>
+      ))}
+      {windowWarnings.map(window => (
+        <Typography key={window.name} variant="caption" color="warning.main">
+          {`${window.name}: maps ${formatHexAddress(window.start)} to DRAM ${formatHexAddress(window.dramStart)}, so aligned ${pageSize} pages are not aligned in DRAM`}
+        </Typography>
+      ))}
+      {vmWarnings.length === 0 && windowWarnings.length === 0 && (
+        <Typography variant="caption" color="text.secondary">{`Every VM and memory-map window is ${pageSize} aligned.`}</Typography>
+      )}
+    </Box>
+  );
+};
+
+export default PageAlignmentPanel;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, TextField, MenuItem, Button, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import { formatBytes, formatHexAddress, parseHexDataSizeToBytes } from './core/helpers';
+import { findLevel, type HierarchyLevel } from './core/hierarchy';
+import type { AddressRange } from './core/addressSet';
+import type { VmConfig } from './core/config';
+import { dramRangesToSystem, systemRangesToDram, type SystemWindow } from './core/systemMap';
+import { formatPageList, intersectRanges, pageSizeBytes, vmAddressRanges, vmLabel, DEFAULT_PAGE_SIZE, PAGE_SIZES } from './core/vmMemory';
+import {
+  pageColoring, planPageColoring, findSharedElements, formatColorBits, type PageColoring, type PagePlan,
+} from './core/pagePlanner';
+
+interface PagePlannerPanelProps {
+  levels: HierarchyLevel[];
+  // DRAM ranges memory can be at (see usableDramRanges).
+  usable: AddressRange[];
+  vms: VmConfig[];
+  // VM addresses are system addresses; colors are planned in DRAM addresses.
+  windows: SystemWindow[];
+  onApply: (vms: VmConfig[]) => void;
+}
+
+const MAX_LISTED_COLORS = 8;
+
+// A VM's size is what it asks for; without one it takes whatever colors are left.
+function demandOf(vm: VmConfig): bigint | null {
+  const size = parseHexDataSizeToBytes(vm.size);
+  return typeof size === 'bigint' && size > 0n ? size : null;
+}
+
+const PagePlannerPanel: React.FC<PagePlannerPanelProps> = ({ levels, usable, vms, windows, onApply }) => {
+  const [policyInput, setPolicyInput] = useState<string>('Bank');
+  const [pageSize, setPageSize] = useState<string>(DEFAULT_PAGE_SIZE);
+  const [result, setResult] = useState<{ plan: PagePlan; coloring: PageColoring; pageSize: string } | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  // Falls back to the outermost level when the chosen one has been removed or renamed.
+  const policyLevel = findLevel(levels, policyInput)?.name ?? levels[0].name;
+  const coloring = useMemo(() => (
+    usable.length > 0 ? pageColoring(levels, policyLevel, pageSizeBytes(pageSize), usable) : 'Set a Total Capacity to plan page colors'
+  ), [levels, policyLevel, pageSize, usable]);
+
+  // Whether the VMs as configured right now keep to the policy.
+  const sharing = useMemo(() => {
+    if (typeof coloring === 'string') return null;
+    const placed = vms.flatMap((vm, index) => {
+      const ranges = vmAddressRanges(vm);
+      return typeof ranges === 'string' || ranges.length === 0 ? [] : [{ label: vmLabel(vm, index), ranges: intersectRanges(systemRangesToDram(windows, ranges), usable) }];
+    });
+    if (placed.length < 2) return null;
+    const shared = findSharedElements(coloring.levels, placed.map(vm => vm.ranges));
+    return typeof shared === 'string' ? shared : { ...shared, labels: placed.map(vm => vm.label) };
+  }, [coloring, vms, windows, usable]);
+
+  const handlePlan = () => {
+    if (typeof coloring === 'string') return;
+    const plan = planPageColoring(coloring, vms.map(demandOf), pageSizeBytes(pageSize));
+    if (typeof plan === 'string') { setErrorMessage(plan); setResult(null); return; }
+    setErrorMessage(''); setResult({ plan, coloring, pageSize });
+  };
+  const handleApply = () => {
+    if (!result) return;
+    const pageBytes = pageSizeBytes(result.pageSize);
+    onApply(vms.map((vm, index) => {
+      const allocation = result.plan.vms[index];
+      const ranges = allocation ? dramRangesToSystem(windows, allocation.ranges) : [];
+      if (ranges.length === 0) return vm;
+      return {
+        ...vm,
+        baseAddress: formatHexAddress(ranges[0].start),
+        size: formatHexAddress(allocation.allocatedBytes),
+        pages: formatPageList(ranges, pageBytes),
+        pageSize: result.pageSize,
+      };
+    }));
+  };
+
+  const colorLabels = (keys: number[]) => {
+    const labels = keys.slice(0, MAX_LISTED_COLORS).map(key => result?.coloring.colors.find(color => color.key === key)?.label ?? String(key));
+    return keys.length > MAX_LISTED_COLORS ? `${labels.join(', ')}, … (${keys.length})` : labels.join(', ');
+  };
+  const stale = result !== null && (result.coloring !== coloring || result.plan.vms.length !== vms.length);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField select label="Each VM gets its own" size="small" value={policyLevel} onChange={(e) => setPolicyInput(e.target.value)} sx={{ flexGrow: 1 }}>
+          {levels.map(level => (<MenuItem key={level.name} value={level.name}>{level.name}</MenuItem>))}
+        </TextField>
+        <TextField select label="Page size" size="small" value={pageSize} onChange={(e) => setPageSize(e.target.value)} sx={{ width: 100 }}>
+          {PAGE_SIZES.map(option => (<MenuItem key={option} value={option}>{option}</MenuItem>))}
+        </TextField>
+        <Button variant="contained" size="small" onClick={handlePlan} disabled={typeof coloring === 'string' || vms.length === 0}>Plan</Button>
+      </Box>
+      {typeof coloring === 'string' ? (
+        <Typography variant="body2" color="error.main">{coloring}</Typography>
+      ) : (
+        <>
+          <Typography variant="caption" component="div">
+            {`Color bits: ${formatColorBits(coloring.colorBits)} (${coloring.colors.length} colors)`}
+          </Typography>
+          {coloring.uncolorableBits.length > 0 && (
+            <Typography variant="caption" component="div" color="text.secondary">
+              {`Change inside a page, so every page spans both values: ${formatColorBits(coloring.uncolorableBits)}`}
+            </Typography>
+          )}
+        </>
+      )}
+      {vms.length === 0 && <Typography variant="caption" color="text.secondary">Configure at least one VM. A VM's size is the capacity it asks for; leave it blank to share what is left.</Typography>}
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {result && (
+        <>
+          <Table size="small">
+            <TableHead>
+              <TableRow><TableCell>VM</TableCell><TableCell>Colors</TableCell><TableCell align="right">Available</TableCell><TableCell align="right">Allocated</TableCell></TableRow>
+            </TableHead>
+            <TableBody>
+              {result.plan.vms.map((allocation, index) => (
+                <TableRow key={index}>
+                  <TableCell>{vms[index] ? vmLabel(vms[index], index) : `VM ${index + 1}`}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{colorLabels(allocation.colors)}</TableCell>
+                  <TableCell align="right">{formatBytes(allocation.availableBytes)}</TableCell>
+                  <TableCell align="right" sx={{ color: allocation.truncated ? 'warning.main' : undefined }}>
+                    {`${formatBytes(allocation.allocatedBytes)}${allocation.truncated ? ' (range limit)' : ''}`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.plan.spareColors.length > 0 && (
+            <Typography variant="caption" color="text.secondary">{`Unused colors: ${colorLabels(result.plan.spareColors)}`}</Typography>
+          )}
+          <Button variant="outlined" size="small" onClick={handleApply} disabled={stale} sx={{ alignSelf: 'flex-start' }}>Apply plan to VMs</Button>
+          {stale && <Typography variant="caption" color="text.secondary">The mapping or the VMs changed since this plan was made.</Typography>}
+        </>
+      )}
+      {sharing !== null && (typeof sharing === 'string' ? (
+        <Typography variant="body2" color="error.main">{sharing}</Typography>
+      ) : sharing.count === 0 ? (
+        <Typography variant="body2" sx={{ color: 'success.main', fontWeight: 'bold' }}>{`The current VMs do not share any ${policyLevel}.`}</Typography>
+      ) : (
+        <Typography variant="body2" color="warning.main">
+          {`The current VMs share ${sharing.count.toLocaleString()} ${policyLevel} element${sharing.count === 1 ? '' : 's'}`}
+          {sharing.example && `, e.g. ${sharing.example.element || policyLevel} (${sharing.example.vms.map(vm => sharing.labels[vm]).join(', ')})`}.
+        </Typography>
+      ))}
+    </Box>
+  );
+};
+
+export default PagePlannerPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Box, Typography, TextField, MenuItem, ListSubheader, Button, Chip } from '@mui/material';
+import {
+  BUILT_IN_PRESETS, isPresetConsistent, loadUserPresets, saveUserPresets, createUserPreset, type MappingPreset,
+} from './presets';
+import type { DramConfig } from './core/config';
+
+interface PresetPanelProps {
+  currentConfig: DramConfig;
+  onApply: (preset: MappingPreset) => void;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ currentConfig, onApply }) => {
+  const [userPresets, setUserPresets] = useState<MappingPreset[]>(loadUserPresets);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>('');
+  const [newPresetName, setNewPresetName] = useState<string>('');
+  const [newPresetCitation, setNewPresetCitation] = useState<string>('');
+
+  const selectedPreset = [...BUILT_IN_PRESETS, ...userPresets].find(preset => preset.id === selectedPresetId) ?? null;
+  const currentIsConsistent = isPresetConsistent(currentConfig);
+
+  const updateUserPresets = (presets: MappingPreset[]) => { setUserPresets(presets); saveUserPresets(presets); };
+  const handleSavePreset = () => {
+    const preset = createUserPreset(newPresetName.trim(), newPresetCitation.trim() || 'User-defined', currentConfig);
+    updateUserPresets([...userPresets, preset]);
+    setSelectedPresetId(preset.id); setNewPresetName(''); setNewPresetCitation('');
+  };
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    updateUserPresets(userPresets.filter(preset => preset.id !== selectedPreset.id));
+    setSelectedPresetId('');
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <TextField select label="Preset" size="small" value={selectedPresetId} onChange={(e) => setSelectedPresetId(e.target.value)}>
+        <ListSubheader>Built-in mappings</ListSubheader>
+        {BUILT_IN_PRESETS.map(preset => (<MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>))}
+        <ListSubheader>My presets</ListSubheader>
+        {userPresets.length === 0 && <MenuItem disabled value="">No saved presets yet</MenuItem>}
+        {userPresets.map(preset => (<MenuItem key={preset.id} value={preset.id}>{preset.name}</MenuItem>))}
+      </TextField>
+      {selectedPreset && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            <Typography variant="body2"><strong>{selectedPreset.config.totalCapacity}</strong></Typography>
+            {isPresetConsistent(selectedPreset.config)
+              ? <Chip size="small" color="success" label="Bit count consistent" />
+              : <Chip size="small" color="warning" label="Bit count inconsistent" />}
+          </Box>
+          {selectedPreset.description && <Typography variant="body2">{selectedPreset.description}</Typography>}
+          <Typography variant="caption" color="text.secondary"><strong>Source:</strong> {selectedPreset.citation}</Typography>
+          <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+            <Button variant="contained" size="small" onClick={() => onApply(selectedPreset)}>Apply</Button>
+            {!selectedPreset.builtIn && <Button variant="outlined" size="small" color="error" onClick={handleDeletePreset}>Delete</Button>}
+          </Box>
+          <Typography variant="caption" color="text.secondary">Applying a preset replaces capacity and mapping; VMs, reserved regions and the memory map are kept.</Typography>
+        </Box>
+      )}
+      <Typography variant="subtitle2" sx={{ mt: 1 }}>Save current configuration as preset</Typography>
+      <TextField label="Preset name" size="small" value={newPresetName} onChange={(e) => setNewPresetName(e.target.value)} />
+      <TextField label="Source / citation (optional)" size="small" value={newPresetCitation} onChange={(e) => setNewPresetCitation(e.target.value)} />
+      {!currentIsConsistent && <Typography variant="caption" color="warning.main">The current configuration does not pass the Bit Count Consistency check.</Typography>}
+      <Box><Button variant="outlined" size="small" disabled={!newPresetName.trim()} onClick={handleSavePreset}>Save Preset</Button></Box>
+    </Box>
+  );
+};
+
+export default PresetPanel;
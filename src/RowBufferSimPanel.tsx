@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box, Typography, TextField, MenuItem, Button, LinearProgress, Table, TableHead, TableBody, TableRow, TableCell,
+} from '@mui/material';
+import { parseHexAddress } from './core/helpers';
+import type { HierarchyLevel } from './core/hierarchy';
+import type { AddressRange } from './core/addressSet';
+import type { MemoryTrace } from './core/trace';
+import type { PagePolicy, AccessPattern, AccessStreamOptions, RowBufferSimulation } from './core/rowBufferSim';
+import type { SimulationWorkerResponse, TraceWorkerRequest } from './traceWorker';
+
+interface RowBufferSimPanelProps {
+  trace: MemoryTrace | null;
+  levels: HierarchyLevel[];
+  // DRAM ranges generated accesses stay in: the capacity without reserved holes.
+  usable: AddressRange[];
+}
+
+type StreamSource = 'trace' | AccessPattern;
+
+const MAX_LISTED_BANKS = 32;
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '-';
+}
+
+const RowBufferSimPanel: React.FC<RowBufferSimPanelProps> = ({ trace, levels, usable }) => {
+  const [source, setSource] = useState<StreamSource>(trace ? 'trace' : 'sequential');
+  const [policy, setPolicy] = useState<PagePolicy>('open');
+  const [accessCountInput, setAccessCountInput] = useState<string>('100000');
+  const [startInput, setStartInput] = useState<string>('0x0');
+  const [strideInput, setStrideInput] = useState<string>('0x2000');
+  const [timings, setTimings] = useState({ tRCD: '13.75', tRP: '13.75', tCAS: '13.75' });
+  const [result, setResult] = useState<{ simulation: RowBufferSimulation; streamName: string; policy: PagePolicy } | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const effectiveSource: StreamSource = source === 'trace' && !trace ? 'sequential' : source;
+
+  const handleRun = () => {
+    const parsedTimings = { tRCD: parseFloat(timings.tRCD), tRP: parseFloat(timings.tRP), tCAS: parseFloat(timings.tCAS) };
+    if (Object.values(parsedTimings).some(value => isNaN(value) || value < 0)) { setErrorMessage('Timings must be non-negative numbers (ns)'); return; }
+    let stream: MemoryTrace | AccessStreamOptions;
+    if (effectiveSource === 'trace' && trace) {
+      stream = trace;
+    } else {
+      const count = parseInt(accessCountInput, 10);
+      const start = parseHexAddress(startInput);
+      const stride = parseHexAddress(strideInput);
+      if (isNaN(count) || count <= 0 || count > 10_000_000) { setErrorMessage('Access count must be between 1 and 10,000,000'); return; }
+      if (start === null || stride === null) { setErrorMessage('Start and stride must be hexadecimal'); return; }
+      if (effectiveSource === 'random' && usable.length === 0) { setErrorMessage('Random accesses need a Total Capacity'); return; }
+      stream = { pattern: effectiveSource as AccessPattern, count, start, stride, usable, seed: 1 };
+    }
+    // Millions of accesses take seconds to generate, decode and replay, so the trace worker does it.
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('./traceWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setIsRunning(true); setErrorMessage('');
+    const runPolicy = policy;
+    const finish = () => { setIsRunning(false); worker.terminate(); workerRef.current = null; };
+    worker.onmessage = (message: MessageEvent<SimulationWorkerResponse>) => {
+      finish();
+      if (!message.data.ok) { setErrorMessage(message.data.message); return; }
+      setResult({ simulation: message.data.simulation, streamName: message.data.streamName, policy: runPolicy });
+    };
+    worker.onerror = () => { finish(); setErrorMessage('The simulation failed'); };
+    const request: TraceWorkerRequest = { kind: 'simulate', stream, levels, policy, timings: parsedTimings };
+    worker.postMessage(request);
+  };
+
+  const totals = result?.simulation.totals;
+  const busiestBanks = result ? [...result.simulation.banks].sort((a, b) => b.accesses - a.accesses).slice(0, MAX_LISTED_BANKS) : [];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <TextField select label="Access stream" size="small" value={effectiveSource} onChange={(e) => setSource(e.target.value as StreamSource)} sx={{ width: 160 }}>
+          <MenuItem value="trace" disabled={!trace}>Loaded trace</MenuItem>
+          <MenuItem value="sequential">Sequential</MenuItem>
+          <MenuItem value="strided">Strided</MenuItem>
+          <MenuItem value="random">Random</MenuItem>
+        </TextField>
+        <TextField select label="Page policy" size="small" value={policy} onChange={(e) => setPolicy(e.target.value as PagePolicy)} sx={{ width: 130 }}>
+          <MenuItem value="open">Open page</MenuItem>
+          <MenuItem value="closed">Closed page</MenuItem>
+        </TextField>
+      </Box>
+      {effectiveSource !== 'trace' && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <TextField label="Accesses" size="small" value={accessCountInput} onChange={(e) => setAccessCountInput(e.target.value)} sx={{ width: 100 }} />
+          {effectiveSource !== 'random' && <TextField label="Start (hex)" size="small" value={startInput} onChange={(e) => setStartInput(e.target.value)} sx={{ width: 110 }} />}
+          {effectiveSource === 'strided' && <TextField label="Stride (hex)" size="small" value={strideInput} onChange={(e) => setStrideInput(e.target.value)} sx={{ width: 110 }} />}
+        </Box>
+      )}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {(['tRCD', 'tRP', 'tCAS'] as const).map(name => (
+          <TextField key={name} label={`${name} (ns)`} size="small" value={timings[name]} onChange={(e) => setTimings({ ...timings, [name]: e.target.value })} sx={{ width: 90 }} />
+        ))}
+      </Box>
+      <Box><Button variant="outlined" size="small" disabled={isRunning} onClick={handleRun}>Run Simulation</Button></Box>
+      {isRunning && <LinearProgress />}
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {result && totals && (
+        <Box>
+          <Typography variant="caption" color="text.secondary">{result.streamName}, {result.policy}-page policy</Typography>
+          <Typography variant="body2">{`Hits ${percent(totals.hits, totals.accesses)}, misses ${percent(totals.misses, totals.accesses)}, conflicts ${percent(totals.conflicts, totals.accesses)}`}</Typography>
+          <Typography variant="body2"><strong>Average latency:</strong> {result.simulation.averageLatency.toFixed(2)} ns</Typography>
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow><TableCell>Bank</TableCell><TableCell align="right">Accesses</TableCell><TableCell align="right">Hit</TableCell><TableCell align="right">Miss</TableCell><TableCell align="right">Conflict</TableCell></TableRow>
+            </TableHead>
+            <TableBody>
+              {busiestBanks.map(bank => (
+                <TableRow key={bank.label}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{bank.label}</TableCell>
+                  <TableCell align="right">{bank.accesses.toLocaleString()}</TableCell>
+                  <TableCell align="right">{percent(bank.hits, bank.accesses)}</TableCell>
+                  <TableCell align="right">{percent(bank.misses, bank.accesses)}</TableCell>
+                  <TableCell align="right">{percent(bank.conflicts, bank.accesses)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.simulation.banks.length > MAX_LISTED_BANKS && (
+            <Typography variant="caption" color="text.secondary">{`Showing the ${MAX_LISTED_BANKS} busiest of ${result.simulation.banks.length} banks.`}</Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RowBufferSimPanel;
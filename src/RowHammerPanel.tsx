@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Box, Typography, TextField, MenuItem, Button, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import type { AddressRange } from './core/addressSet';
+import type { HierarchyLevel } from './core/hierarchy';
+import { findAdjacentVmRows, ROW_REMAPPING_LABELS, type RowRemapping, type VmRowAdjacency } from './core/rowHammer';
+
+export interface VmRange { label: string; color: string; ranges: AddressRange[]; }
+
+interface RowHammerPanelProps {
+  levels: HierarchyLevel[];
+  vms: VmRange[];
+  remapping: RowRemapping;
+  onRemappingChange: (remapping: RowRemapping) => void;
+}
+
+// The remapping is shared with the row neighbourhood shown for a selected row.
+const RowHammerPanel: React.FC<RowHammerPanelProps> = ({ levels, vms, remapping, onRemappingChange }) => {
+  const [result, setResult] = useState<{ pairs: VmRowAdjacency[]; vms: VmRange[] } | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const handleAnalyze = () => {
+    const pairs = findAdjacentVmRows(levels, vms.map(vm => vm.ranges), remapping);
+    if (typeof pairs === 'string') { setErrorMessage(pairs); setResult(null); return; }
+    setErrorMessage(''); setResult({ pairs, vms });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <TextField select label="Row remapping" size="small" value={remapping} onChange={(e) => onRemappingChange(e.target.value as RowRemapping)} sx={{ flexGrow: 1 }}>
+          {(Object.keys(ROW_REMAPPING_LABELS) as RowRemapping[]).map(option => (<MenuItem key={option} value={option}>{ROW_REMAPPING_LABELS[option]}</MenuItem>))}
+        </TextField>
+        <Button variant="contained" size="small" onClick={handleAnalyze} disabled={vms.length < 2}>Analyze</Button>
+      </Box>
+      {vms.length < 2 && <Typography variant="caption" color="text.secondary">Configure at least two valid VMs to look for shared neighbourhoods.</Typography>}
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {result && (result.pairs.length === 0 ? (
+        <Typography variant="body2" sx={{ color: 'success.main', fontWeight: 'bold' }}>No two VMs own rows within two rows of each other in any bank.</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow><TableCell>VMs</TableCell><TableCell align="right">±1</TableCell><TableCell align="right">±2</TableCell><TableCell>Example</TableCell></TableRow>
+          </TableHead>
+          <TableBody>
+            {result.pairs.map(pair => (
+              <TableRow key={`${pair.vmA}-${pair.vmB}`}>
+                <TableCell>{`${result.vms[pair.vmA].label} / ${result.vms[pair.vmB].label}`}</TableCell>
+                <TableCell align="right">{pair.pairsByDistance[0].toLocaleString()}</TableCell>
+                <TableCell align="right">{pair.pairsByDistance[1].toLocaleString()}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{`${pair.example.bank}: ${pair.example.rowA} / ${pair.example.rowB}`}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ))}
+      {result && result.pairs.length > 0 && (
+        <Typography variant="caption" color="text.secondary">Counts are physically adjacent row pairs where one VM owns one row and the other VM the other.</Typography>
+      )}
+    </Box>
+  );
+};
+
+export default RowHammerPanel;
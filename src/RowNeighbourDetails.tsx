@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, Divider } from '@mui/material';
+import { formatHexAddress, type NbitMappingConfig } from './core/helpers';
+import { resolveAddressSet, takeIntervals, intersectsRange, type AddressRange, type HierarchyPathSegment } from './core/addressSet';
+import type { HierarchyLevel } from './core/hierarchy';
+import { rowNeighbours, type RowRemapping } from './core/rowHammer';
+import type { VmRange } from './RowHammerPanel';
+
+interface RowNeighbourDetailsProps {
+  path: HierarchyPathSegment[];
+  levels: HierarchyLevel[];
+  mapping: NbitMappingConfig;
+  usable: AddressRange[];
+  vms: VmRange[];
+  remapping: RowRemapping;
+}
+
+const MAX_LISTED_INTERVALS = 3;
+
+const offsetLabel = (offset: number) => (offset === 0 ? 'Selected row' : `Neighbour ${offset > 0 ? '+' : '−'}${Math.abs(offset)}`);
+
+// The selected row and its physical neighbours in the same bank, with the PAs and VMs behind each.
+const RowNeighbourDetails: React.FC<RowNeighbourDetailsProps> = ({ path, levels, mapping, usable, vms, remapping }) => {
+  const rows = useMemo(() => (
+    [{ offset: 0, path }, ...rowNeighbours(path, levels, remapping)]
+      .sort((a, b) => a.offset - b.offset)
+      .map(row => {
+        const set = resolveAddressSet(row.path, mapping, usable);
+        return {
+          ...row,
+          label: row.path.map(segment => `${segment.type}${segment.id}`).join(' > '),
+          intervals: set ? takeIntervals(set, MAX_LISTED_INTERVALS) : { intervals: [], truncated: false },
+          vms: set ? vms.filter(vm => vm.ranges.some(range => intersectsRange(set, range))) : [],
+        };
+      })
+  ), [path, levels, mapping, usable, vms, remapping]);
+
+  if (usable.length === 0) return null;
+  const owners = new Set(rows.flatMap(row => row.vms.map(vm => vm.label)));
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Divider sx={{ my: 1 }} />
+      <Typography variant="subtitle2">Row Neighbourhood</Typography>
+      {owners.size > 1 && (
+        <Typography variant="body2" color="warning.main">{`${owners.size} VMs own rows in this neighbourhood.`}</Typography>
+      )}
+      {rows.map(row => (
+        <Box key={row.offset} sx={{ mt: 0.5 }}>
+          <Typography variant="body2"><strong>{offsetLabel(row.offset)}:</strong> {row.label}</Typography>
+          {row.intervals.intervals.length === 0 ? (
+            <Typography variant="caption" color="text.secondary" component="div">No address within the capacity</Typography>
+          ) : row.intervals.intervals.map(interval => (
+            <Typography key={interval.start.toString()} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+              {formatHexAddress(interval.start)} - {formatHexAddress(interval.end)}
+            </Typography>
+          ))}
+          {row.intervals.truncated && <Typography variant="caption" color="text.secondary" component="div">…</Typography>}
+          <Typography variant="caption" component="div">
+            {row.vms.length === 0 ? 'No VM' : row.vms.map(vm => (
+              <Box key={vm.label} component="span" sx={{ mr: 1, px: 0.5, borderRadius: 0.5, backgroundColor: vm.color }}>{vm.label}</Box>
+            ))}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default RowNeighbourDetails;
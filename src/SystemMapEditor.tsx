@@ -0,0 +1,94 @@
+import React from 'react';
+import { Box, Typography, TextField, Button, IconButton, Tooltip } from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { formatBytes, formatCapacity, formatHexAddress, parseHexAddress, parseHexDataSizeToBytes, parseUnitBasedSizeToBytes } from './core/helpers';
+import { createConfig, validateConfig, type DramConfig, type SystemMapEntry } from './core/config';
+import { systemMapFromReserved } from './core/systemMap';
+import { rangesBytes, reservedRanges } from './core/vmMemory';
+
+interface SystemMapEditorProps {
+  currentConfig: DramConfig;
+  onChange: (entries: SystemMapEntry[]) => void;
+  onApplyConfig: (config: DramConfig) => void;
+}
+
+const EMPTY_ENTRY: SystemMapEntry = { name: '', systemBase: '', size: '', dramBase: '' };
+
+// Per-field problems of the map, from the same checks a loaded config goes through.
+function entryErrors(config: DramConfig): Map<string, string> {
+  const result = validateConfig(config);
+  if (result.ok) return new Map();
+  return new Map(result.errors.filter(error => error.field.startsWith('memoryMap[')).map(error => [error.field, error.message]));
+}
+
+// Windows of system addresses with DRAM behind them. Without any, system and DRAM addresses
+// are the same.
+const SystemMapEditor: React.FC<SystemMapEditorProps> = ({ currentConfig, onChange, onApplyConfig }) => {
+  const entries = currentConfig.memoryMap ?? [];
+  const reserved = currentConfig.reserved ?? [];
+  const errors = entryErrors(currentConfig);
+
+  const updateEntry = (index: number, changes: Partial<SystemMapEntry>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  // A new window continues where the last one ends, in system and in DRAM addresses.
+  const handleAdd = () => {
+    const last = entries[entries.length - 1];
+    const size = last ? parseHexDataSizeToBytes(last.size) : null;
+    const systemBase = last ? parseHexAddress(last.systemBase) : null;
+    const dramBase = last ? parseHexAddress(last.dramBase) : null;
+    if (typeof size !== 'bigint' || systemBase === null || dramBase === null) {
+      onChange([...entries, { ...EMPTY_ENTRY, name: `DRAM ${entries.length + 1}` }]);
+      return;
+    }
+    onChange([...entries, {
+      ...EMPTY_ENTRY, name: `DRAM ${entries.length + 1}`, systemBase: formatHexAddress(systemBase + size), dramBase: formatHexAddress(dramBase + size),
+    }]);
+  };
+  // The reserved regions become holes between windows, and the capacity shrinks to the DRAM behind them.
+  const handleFromReserved = () => {
+    const top = parseUnitBasedSizeToBytes(currentConfig.totalCapacity);
+    if (typeof top !== 'bigint') return;
+    const { entries: packed, dramBytes } = systemMapFromReserved(reserved, top);
+    onApplyConfig(createConfig(formatCapacity(dramBytes), currentConfig.levels, currentConfig.vms, { memoryMap: packed }));
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        {entries.length === 0
+          ? 'System addresses are DRAM addresses. Add windows when DRAM sits behind holes or is remapped, e.g. above 4 GB.'
+          : 'VM addresses and the decoder input are system addresses; everything else is in DRAM addresses. Addresses outside every window have no DRAM behind them.'}
+      </Typography>
+      {entries.map((entry, index) => {
+        const error = (field: keyof SystemMapEntry) => errors.get(`memoryMap[${index}].${field}`);
+        return (
+          <Box key={index} sx={{ display: 'flex', gap: 0.5, alignItems: 'flex-start' }}>
+            <TextField label="Name" size="small" value={entry.name} onChange={(e) => updateEntry(index, { name: e.target.value })} sx={{ flex: 1.2 }} />
+            <TextField label="System Base" size="small" value={entry.systemBase} onChange={(e) => updateEntry(index, { systemBase: e.target.value })}
+              error={error('systemBase') !== undefined} helperText={error('systemBase')} sx={{ flex: 1.5 }} />
+            <TextField label="Size" size="small" value={entry.size} onChange={(e) => updateEntry(index, { size: e.target.value })}
+              error={error('size') !== undefined} helperText={error('size')} sx={{ flex: 1.5 }} />
+            <TextField label="DRAM Base" size="small" value={entry.dramBase} onChange={(e) => updateEntry(index, { dramBase: e.target.value })}
+              error={error('dramBase') !== undefined} helperText={error('dramBase')} sx={{ flex: 1.5 }} />
+            <Tooltip title="Remove window">
+              <IconButton size="small" aria-label="Remove window" onClick={() => onChange(entries.filter((_, i) => i !== index))}>
+                <DeleteOutlineIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        );
+      })}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" onClick={handleAdd}>Add Window</Button>
+        {reserved.length > 0 && (
+          <Tooltip title={`Packs the memory around ${reserved.length} reserved region${reserved.length === 1 ? '' : 's'} (${formatBytes(rangesBytes(reservedRanges(reserved)))}) into DRAM`}>
+            <Button variant="outlined" size="small" onClick={handleFromReserved}>From Reserved Regions</Button>
+          </Tooltip>
+        )}
+        {entries.length > 0 && <Button size="small" color="error" onClick={() => onChange([])}>Clear</Button>}
+      </Box>
+    </Box>
+  );
+};
+
+export default SystemMapEditor;
@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, Tooltip } from '@mui/material';
+import type { HierarchyLevel } from './core/hierarchy';
+import { countAccessesPerElement, heatColor, summarizeDistribution, type DecodedTrace } from './core/trace';
+
+interface TraceHistogramsProps {
+  decoded: DecodedTrace;
+  accessCount: number;
+  levels: HierarchyLevel[];
+}
+
+const MAX_BARS = 64;
+const BAR_AREA_HEIGHT = 48;
+
+interface LevelHistogram { level: string; bars: { label: string; accesses: number }[]; maxBar: number; summary: string; }
+
+function buildHistogram(level: string, perElement: Uint32Array): LevelHistogram {
+  const bucketSize = Math.ceil(perElement.length / MAX_BARS);
+  const bars: { label: string; accesses: number }[] = [];
+  for (let start = 0; start < perElement.length; start += bucketSize) {
+    const end = Math.min(start + bucketSize, perElement.length) - 1;
+    let accesses = 0;
+    for (let id = start; id <= end; id++) accesses += perElement[id];
+    bars.push({ label: start === end ? `${level} ${start}` : `${level} ${start}-${end}`, accesses });
+  }
+  const stats = summarizeDistribution(perElement);
+  const summary = stats.total === 0 ? 'No accesses'
+    : `Busiest: ${level} ${stats.busiest} (${(stats.busiestShare * 100).toFixed(1)}%), CV ${stats.cv.toFixed(2)}, ${perElement.length - stats.touched} of ${perElement.length} unused`;
+  return { level, bars, maxBar: Math.max(...bars.map(bar => bar.accesses), 1), summary };
+}
+
+// One histogram per level over the whole trace (not limited to the current drill-down path).
+const TraceHistograms: React.FC<TraceHistogramsProps> = ({ decoded, accessCount, levels }) => {
+  const histograms = useMemo(() => levels
+    .filter(level => level.count > 1)
+    .map(level => buildHistogram(level.name, countAccessesPerElement(decoded, accessCount, [], level.name, level.count))),
+  [decoded, accessCount, levels]);
+
+  return (
+    <Box>
+      {histograms.map(histogram => (
+        <Box key={histogram.level} sx={{ mb: 1.5 }}>
+          <Typography variant="body2"><strong>{histogram.level}</strong></Typography>
+          <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '1px', height: BAR_AREA_HEIGHT, borderBottom: '1px solid', borderColor: 'divider' }}>
+            {histogram.bars.map(bar => (
+              <Tooltip key={bar.label} title={`${bar.label}: ${bar.accesses.toLocaleString()} accesses`} placement="top">
+                <Box sx={{ flex: 1, minWidth: 2, height: `${Math.max((bar.accesses / histogram.maxBar) * 100, bar.accesses > 0 ? 4 : 0)}%`, backgroundColor: heatColor(bar.accesses / histogram.maxBar) }} />
+              </Tooltip>
+            ))}
+          </Box>
+          <Typography variant="caption" color="text.secondary">{histogram.summary}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default TraceHistograms;
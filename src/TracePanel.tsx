@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { Box, Typography, Button, LinearProgress } from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import type { MemoryTrace } from './core/trace';
+import type { TraceWorkerRequest, TraceWorkerResponse } from './traceWorker';
+
+interface TracePanelProps {
+  trace: MemoryTrace | null;
+  onTraceChange: (trace: MemoryTrace | null) => void;
+}
+
+const TracePanel: React.FC<TracePanelProps> = ({ trace, onTraceChange }) => {
+  const [isParsing, setIsParsing] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('./traceWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setIsParsing(true); setErrorMessage('');
+    worker.onmessage = (message: MessageEvent<TraceWorkerResponse>) => {
+      setIsParsing(false);
+      worker.terminate(); workerRef.current = null;
+      if (!message.data.ok) { setErrorMessage(message.data.message); return; }
+      if (message.data.trace.count === 0) { setErrorMessage(`${file.name} contains no recognisable accesses`); return; }
+      onTraceChange(message.data.trace);
+    };
+    worker.onerror = () => { setIsParsing(false); worker.terminate(); workerRef.current = null; setErrorMessage(`Could not read ${file.name}`); };
+    const request: TraceWorkerRequest = { kind: 'parse', file };
+    worker.postMessage(request);
+  };
+
+  const writeCount = trace ? trace.isWrite.reduce((sum, flag) => sum + flag, 0) : 0;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        One access per line: a hex address (e.g. 0x1f40), or Ramulator/DRAMSim style "0x1f40 R" / "0x1f40 WRITE 12". Files are parsed locally.
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" startIcon={<FileUploadIcon />} disabled={isParsing} onClick={() => fileInputRef.current?.click()}>Load Trace</Button>
+        {trace && <Button variant="outlined" size="small" color="error" onClick={() => onTraceChange(null)}>Clear</Button>}
+        <input ref={fileInputRef} type="file" hidden onChange={handleFileChange} />
+      </Box>
+      {isParsing && <LinearProgress />}
+      {errorMessage && <Typography variant="body2" color="error.main">{errorMessage}</Typography>}
+      {trace && (
+        <Box>
+          <Typography variant="body2"><strong>{trace.name}</strong></Typography>
+          <Typography variant="caption" component="div">{`${trace.count.toLocaleString()} accesses (${(trace.count - writeCount).toLocaleString()} reads, ${writeCount.toLocaleString()} writes)`}</Typography>
+          {trace.skippedLines > 0 && <Typography variant="caption" component="div" color="warning.main">{`${trace.skippedLines.toLocaleString()} unrecognised lines skipped`}</Typography>}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default TracePanel;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Typography, Button, Tooltip, Table, TableHead, TableBody, TableRow, TableCell } from '@mui/material';
+import { formatBytes } from './core/helpers';
+import type { HierarchyLevel } from './core/hierarchy';
+import type { AddressRange } from './core/addressSet';
+import { hierarchyUsage, type LevelUsage } from './core/usageStats';
+import type { VmRange } from './RowHammerPanel';
+
+interface VmUsagePanelProps {
+  levels: HierarchyLevel[];
+  // The level shown in the visualizer and its usage under the current path (see levelUsage);
+  // null for a large view that is only counted on request.
+  level: HierarchyLevel | undefined;
+  usage: LevelUsage | string | null;
+  usable: AddressRange[];
+  vms: VmRange[];
+  onCount: () => void;
+}
+
+const MAX_BARS = 64;
+const BAR_AREA_HEIGHT = 48;
+const MAX_LISTED_ELEMENTS = 32;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+// Standard deviations and means are plain numbers; they are shown in the unit of the bytes they summarize.
+const approxBytes = (value: number) => formatBytes(BigInt(Math.round(value)));
+
+// Bars of the share of each element (or run of elements, when there are many) that every VM maps.
+function buildBars(usage: LevelUsage, label: string) {
+  const { elements } = usage;
+  const bucketSize = Math.ceil(elements.length / MAX_BARS);
+  const bars: { label: string; shares: number[] }[] = [];
+  for (let start = 0; start < elements.length; start += bucketSize) {
+    const bucket = elements.slice(start, start + bucketSize);
+    const capacity = bucket.reduce((sum, element) => sum + element.capacity, 0n);
+    const end = start + bucket.length - 1;
+    bars.push({
+      label: start === end ? `${label} ${start}` : `${label} ${start}-${end}`,
+      shares: usage.vms.map((_, vm) => (capacity > 0n ? Number(bucket.reduce((sum, element) => sum + element.vmBytes[vm], 0n)) / Number(capacity) : 0)),
+    });
+  }
+  return bars;
+}
+
+function SummaryTable({ usage, vms, label }: { usage: LevelUsage; vms: VmRange[]; label?: string }) {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          {label !== undefined && <TableCell>Level</TableCell>}
+          <TableCell>VM</TableCell><TableCell align="right">Bytes</TableCell><TableCell align="right">Share</TableCell>
+          <TableCell align="right">Min</TableCell><TableCell align="right">Max</TableCell><TableCell align="right">Std dev</TableCell><TableCell align="right">Touched</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {usage.vms.map((summary, vm) => (
+          <TableRow key={vm}>
+            {label !== undefined && <TableCell>{vm === 0 ? label : ''}</TableCell>}
+            <TableCell sx={{ color: vms[vm].color.replace('0.7)', '1)'), fontWeight: 'bold' }}>{vms[vm].label}</TableCell>
+            <TableCell align="right">{formatBytes(summary.total)}</TableCell>
+            <TableCell align="right">{percent(summary.share)}</TableCell>
+            <TableCell align="right">{formatBytes(summary.min)}</TableCell>
+            <TableCell align="right">{formatBytes(summary.max)}</TableCell>
+            <TableCell align="right">{approxBytes(summary.stddev)}</TableCell>
+            <TableCell align="right">{`${summary.touched} / ${usage.elements.length}`}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Exact bytes per VM per element of the current view, and the same per level over the whole capacity.
+const VmUsagePanel: React.FC<VmUsagePanelProps> = ({ levels, level, usage, usable, vms, onCount }) => {
+  const [rollup, setRollup] = useState<{ entries: ReturnType<typeof hierarchyUsage>; vms: VmRange[] } | null>(null);
+
+  const bars = useMemo(() => (usage && typeof usage !== 'string' && level ? buildBars(usage, level.shortLabel) : []), [usage, level]);
+  const listed = usage && typeof usage !== 'string' ? usage.elements.filter(element => element.vmBytes.some(bytes => bytes > 0n)) : [];
+
+  if (vms.length === 0) return <Typography variant="caption" color="text.secondary">Configure VMs to see how much of each element they map.</Typography>;
+  if (usable.length === 0) return <Typography variant="caption" color="text.secondary">Set a Total Capacity to count bytes per element.</Typography>;
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+      {typeof usage === 'string' && <Typography variant="body2" color="error.main">{usage}</Typography>}
+      {usage === null && level && (
+        <Button variant="contained" size="small" onClick={onCount} sx={{ alignSelf: 'flex-start' }}>{`Count ${level.count.toLocaleString()} ${level.name}s`}</Button>
+      )}
+      {usage && typeof usage !== 'string' && level && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '1px', height: BAR_AREA_HEIGHT, borderBottom: '1px solid', borderColor: 'divider' }}>
+            {bars.map(bar => (
+              <Tooltip key={bar.label} placement="top"
+                title={`${bar.label}: ${bar.shares.map((share, vm) => `${vms[vm].label} ${percent(share)}`).join(', ')}`}>
+                <Box sx={{ flex: 1, minWidth: 2, height: '100%', display: 'flex', flexDirection: 'column-reverse' }}>
+                  {bar.shares.map((share, vm) => (<Box key={vm} sx={{ height: `${share * 100}%`, backgroundColor: vms[vm].color }} />))}
+                </Box>
+              </Tooltip>
+            ))}
+          </Box>
+          <Typography variant="caption" color="text.secondary">{`Share of each ${level.name} (under the current path) that every VM maps`}</Typography>
+          <SummaryTable usage={usage} vms={vms} />
+          {listed.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{level.name}</TableCell>
+                  {vms.map((vm, index) => (<TableCell key={index} align="right">{vm.label}</TableCell>))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {listed.slice(0, MAX_LISTED_ELEMENTS).map(element => (
+                  <TableRow key={element.id}>
+                    <TableCell>{`${level.shortLabel} ${element.id}`}</TableCell>
+                    {element.vmBytes.map((bytes, vm) => (
+                      <TableCell key={vm} align="right">
+                        {bytes > 0n ? `${formatBytes(bytes)} (${percent(Number(bytes) / Number(element.capacity))})` : '—'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {listed.length > MAX_LISTED_ELEMENTS && (
+            <Typography variant="caption" color="text.secondary">{`… ${listed.length - MAX_LISTED_ELEMENTS} more elements used by a VM`}</Typography>
+          )}
+        </>
+      )}
+      <Button variant="outlined" size="small" onClick={() => setRollup({ entries: hierarchyUsage(levels, usable, vms.map(vm => vm.ranges)), vms })} sx={{ alignSelf: 'flex-start' }}>
+        Roll Up Every Level
+      </Button>
+      {rollup && rollup.entries.map(entry => (typeof entry.usage === 'string' ? (
+        <Typography key={entry.level} variant="caption" color="error.main">{`${entry.level}: ${entry.usage}`}</Typography>
+      ) : (
+        <SummaryTable key={entry.level} usage={entry.usage} vms={rollup.vms} label={entry.level} />
+      )))}
+      {rollup && (
+        <Typography variant="caption" color="text.secondary">Each level by its own ID over the whole capacity, e.g. Bank 3 of every channel and rank together.</Typography>
+      )}
+    </Box>
+  );
+};
+
+export default VmUsagePanel;
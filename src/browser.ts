@@ -0,0 +1,87 @@
+import { parseConfigJson, type DramConfig } from './core/config';
+
+// --- Browser-only helpers ---
+// Everything that touches the DOM or localStorage lives here, so src/core stays usable from Node.
+
+const AUTOSAVE_STORAGE_KEY = 'dram-visualizer:config';
+
+function downloadBlob(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  // Some browsers start the download only after click() returns; revoking at once can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadTextFile(fileName: string, text: string, mimeType: string): void {
+  downloadBlob(fileName, new Blob([text], { type: mimeType }));
+}
+
+// Rasterizes an SVG document in the browser (no server involved) at `scale` times its size.
+export async function downloadSvgAsPng(fileName: string, svg: string, scale = 2): Promise<void> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The image could not be rendered'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * scale;
+    canvas.height = image.height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('The image could not be encoded');
+    downloadBlob(fileName, png);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// The drill-down position kept in the URL: `path` is the element whose children are shown and
+// `select` the element highlighted among them, e.g. ?path=ch1/rk0/bg1/bk2&select=row4000.
+export interface ElementLocation { path: string; select: string; }
+
+export function readElementLocation(): ElementLocation {
+  const params = new URLSearchParams(window.location.search);
+  return { path: params.get('path') ?? '', select: params.get('select') ?? '' };
+}
+
+// A new history entry when the drill-down path changes, so back and forward walk it; a
+// changed selection alone replaces the current entry.
+export function writeElementLocation(location: ElementLocation): void {
+  const current = readElementLocation();
+  if (current.path === location.path && current.select === location.select) return;
+  const params = new URLSearchParams(window.location.search);
+  (['path', 'select'] as const).forEach(key => { if (location[key]) params.set(key, location[key]); else params.delete(key); });
+  // '/' is allowed in a query, and keeps paths readable in the address bar.
+  const search = params.toString().replace(/%2F/gi, '/');
+  const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+  if (current.path !== location.path) window.history.pushState(null, '', url);
+  else window.history.replaceState(null, '', url);
+}
+
+export function loadAutosavedConfig(): DramConfig | null {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+    if (!text) return null;
+    const result = parseConfigJson(text);
+    return result.ok ? result.config : null;
+  } catch {
+    return null;
+  }
+}
+
+export function autosaveConfig(config: DramConfig): void {
+  try {
+    localStorage.setItem(AUTOSAVE_STORAGE_KEY, JSON.stringify(config));
+  } catch {
+    // Storage may be full or disabled (e.g. private browsing); autosave is best-effort.
+  }
+}
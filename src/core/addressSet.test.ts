@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAddressSet, addressSetSize, bytesInRange, intersectsRange, takeIntervals, type AddressRange } from './addressSet';
+import { decodeAddress } from './decode';
+import { XOR_MAPPING, XOR_CAPACITY, XOR_USABLE } from './testMappings';
+
+// Contiguous runs of addresses below the capacity that satisfy `predicate`.
+function bruteForceIntervals(predicate: (address: bigint) => boolean): AddressRange[] {
+  const intervals: AddressRange[] = [];
+  for (let address = 0n; address < XOR_CAPACITY; address++) {
+    if (!predicate(address)) continue;
+    const last = intervals[intervals.length - 1];
+    if (last && last.end === address - 1n) last.end = address; else intervals.push({ start: address, end: address });
+  }
+  return intervals;
+}
+
+describe('address sets', () => {
+  it('matches brute force for every bank', () => {
+    for (let bank = 0; bank < 4; bank++) {
+      const set = resolveAddressSet([{ type: 'Bank', id: bank }], XOR_MAPPING, XOR_USABLE);
+      expect(set).not.toBeNull();
+      if (!set) continue;
+      const expected = bruteForceIntervals(address => decodeAddress(address, XOR_MAPPING).bank === bank);
+      expect(addressSetSize(set)).toBe(1024n);
+      expect(set.blockBits).toBe(6);
+      expect(takeIntervals(set, 1000)).toEqual({ intervals: expected, truncated: false });
+    }
+  });
+
+  it('narrows to a path through several levels', () => {
+    const set = resolveAddressSet([{ type: 'Bank', id: 3 }, { type: 'Row', id: 4 }], XOR_MAPPING, XOR_USABLE);
+    expect(set && takeIntervals(set, 10).intervals).toEqual([{ start: 0x440n, end: 0x47fn }]);
+  });
+
+  it('counts and tests bytes within a range', () => {
+    const set = resolveAddressSet([{ type: 'Bank', id: 0 }], XOR_MAPPING, XOR_USABLE);
+    if (!set) throw new Error('expected a set');
+    expect(bytesInRange(set, { start: 0n, end: 0x3fn })).toBe(64n);
+    expect(intersectsRange(set, { start: 0x40n, end: 0xffn })).toBe(false);
+    expect(intersectsRange(set, { start: 0x40n, end: 0x23fn })).toBe(true);
+    // Ranges are clipped to the capacity.
+    expect(bytesInRange(set, { start: 0n, end: 1n << 40n })).toBe(1024n);
+  });
+
+  it('truncates interval listings', () => {
+    const set = resolveAddressSet([{ type: 'Bank', id: 1 }], XOR_MAPPING, XOR_USABLE);
+    expect(set && takeIntervals(set, 2).truncated).toBe(true);
+  });
+
+  it('leaves out the holes between usable ranges', () => {
+    const usable = [{ start: 0n, end: 0x3ffn }, { start: 0x800n, end: 0xfffn }];
+    const inUsable = (address: bigint) => usable.some(range => address >= range.start && address <= range.end);
+    const set = resolveAddressSet([{ type: 'Bank', id: 2 }], XOR_MAPPING, usable);
+    if (!set) throw new Error('expected a set');
+    const expected = bruteForceIntervals(address => inUsable(address) && decodeAddress(address, XOR_MAPPING).bank === 2);
+    expect(takeIntervals(set, 1000)).toEqual({ intervals: expected, truncated: false });
+    expect(addressSetSize(set)).toBe(expected.reduce((sum, range) => sum + range.end - range.start + 1n, 0n));
+    expect(bytesInRange(set, { start: 0x400n, end: 0x7ffn })).toBe(0n);
+    expect(resolveAddressSet([{ type: 'Bank', id: 2 }], XOR_MAPPING, [])).toBeNull();
+  });
+
+  it('returns null for paths no address decodes to', () => {
+    const mapping = { ...XOR_MAPPING, bank: ['8', '7,10'] };
+    expect(resolveAddressSet([{ type: 'Bank', id: 1 }, { type: 'Row', id: 0 }], mapping, XOR_USABLE)).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { parseNbitMappingToPositions, getAddressBitsForBytes, type NbitMappingConfig } from './helpers';
+import {
+  reduceEquations, countSolutionsInRange, enumerateSolutionsInRange, maskFromBits, lowestSetBit,
+  type AffineSystem, type Gf2Equation,
+} from './gf2';
+
+// --- Address Sets ---
+// The addresses that belong to one hierarchy element are the solutions of the affine XOR
+// constraints along its path. Instead of enumerating addresses, an element is described by
+// those constraints in reduced form; byte counts and intervals are derived from it on demand.
+
+export interface AddressRange { start: bigint; end: bigint; }
+
+export interface HierarchyPathSegment { type: string; id: number; }
+
+export interface AddressSet {
+  system: AffineSystem;
+  // Members are the solutions within these sorted, disjoint ranges: the capacity without its holes.
+  usable: AddressRange[];
+  // The member obtained by setting every free bit to 0.
+  base: bigint;
+  // Address bits below the end of the usable ranges that may vary freely; pivot bits follow from them.
+  freeMask: bigint;
+  // Number of low address bits that no constraint touches: members come in aligned blocks of 2^blockBits bytes.
+  blockBits: number;
+}
+
+// Equations for every ID bit along the path. An empty or unparsable Nbit field decodes as
+// a constant 0 (see decodePhysicalAddress), so it becomes the equation 0 = target bit.
+export function pathEquations(path: HierarchyPathSegment[], mapping: NbitMappingConfig): Gf2Equation[] {
+  const equations: Gf2Equation[] = [];
+  for (const segment of path) {
+    const nbits = mapping[segment.type.toLowerCase()] ?? [];
+    nbits.forEach((text, index) => {
+      const positions = parseNbitMappingToPositions(text) ?? [];
+      equations.push({ mask: maskFromBits(positions), value: (segment.id >> index) & 1 });
+    });
+  }
+  return equations;
+}
+
+// Returns null when no address at all can decode to this path. `usable` are sorted, disjoint
+// ranges, e.g. [0, capacity) without reserved holes (see usableDramRanges).
+export function buildAddressSet(equations: Gf2Equation[], usable: AddressRange[]): AddressSet | null {
+  const { system, inconsistentIndex } = reduceEquations(equations);
+  if (inconsistentIndex >= 0 || usable.length === 0) return null;
+  const limit = usable[usable.length - 1].end + 1n;
+  const base = system.rows.reduce((address, row) => (row.value ? address | (1n << BigInt(row.bit)) : address), 0n);
+  const allBits = (1n << BigInt(getAddressBitsForBytes(limit))) - 1n;
+  const constrained = system.rows.reduce((mask, row) => mask | row.mask | (1n << BigInt(row.bit)), 0n);
+  const lowestConstrained = lowestSetBit(constrained);
+  return {
+    system, usable, base,
+    freeMask: allBits & ~system.pivotMask,
+    blockBits: lowestConstrained < 0 ? getAddressBitsForBytes(limit) : lowestConstrained,
+  };
+}
+
+export function resolveAddressSet(path: HierarchyPathSegment[], mapping: NbitMappingConfig, usable: AddressRange[]): AddressSet | null {
+  return buildAddressSet(pathEquations(path, mapping), usable);
+}
+
+// The parts of `range` (all of them when omitted) within the usable ranges.
+function usableParts(set: AddressSet, range?: AddressRange): AddressRange[] {
+  if (!range) return set.usable;
+  return set.usable.flatMap(usable => {
+    const start = range.start > usable.start ? range.start : usable.start;
+    const end = range.end < usable.end ? range.end : usable.end;
+    return start <= end ? [{ start, end }] : [];
+  });
+}
+
+export function addressSetSize(set: AddressSet): bigint {
+  return set.usable.reduce((sum, range) => sum + countSolutionsInRange(set.system, range.start, range.end), 0n);
+}
+
+export function bytesInRange(set: AddressSet, range: AddressRange): bigint {
+  return usableParts(set, range).reduce((sum, part) => sum + countSolutionsInRange(set.system, part.start, part.end), 0n);
+}
+
+export function intersectsRange(set: AddressSet, range: AddressRange): boolean {
+  return bytesInRange(set, range) > 0n;
+}
+
+// Maximal contiguous intervals of the set within `within`, in ascending order. Members come
+// in aligned 2^blockBits blocks, so the walk enumerates blocks and merges neighbours. Usable
+// ranges never touch, so no interval spans two of them.
+export function* addressSetIntervals(set: AddressSet, within?: AddressRange): Generator<AddressRange> {
+  for (const part of usableParts(set, within)) yield* intervalsIn(set, part.start, part.end);
+}
+
+function* intervalsIn(set: AddressSet, start: bigint, end: bigint): Generator<AddressRange> {
+  const shift = BigInt(set.blockBits);
+  const blockSystem: AffineSystem = {
+    rows: set.system.rows.map(row => ({ bit: row.bit - set.blockBits, mask: row.mask >> shift, value: row.value })),
+    pivotMask: set.system.pivotMask >> shift,
+  };
+  let current: AddressRange | null = null;
+  for (const block of enumerateSolutionsInRange(blockSystem, start >> shift, end >> shift)) {
+    const blockStart = block << shift;
+    const blockEnd = blockStart + (1n << shift) - 1n;
+    const interval = { start: blockStart > start ? blockStart : start, end: blockEnd < end ? blockEnd : end };
+    if (current && interval.start === current.end + 1n) {
+      current.end = interval.end;
+    } else {
+      if (current) yield current;
+      current = interval;
+    }
+  }
+  if (current) yield current;
+}
+
+export function takeIntervals(set: AddressSet, maxCount: number, within?: AddressRange): { intervals: AddressRange[]; truncated: boolean } {
+  const intervals: AddressRange[] = [];
+  for (const interval of addressSetIntervals(set, within)) {
+    if (intervals.length === maxCount) return { intervals, truncated: true };
+    intervals.push(interval);
+  }
+  return { intervals, truncated: false };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parsePastedAddresses, decodeAddressBatch, filterBatchRows, sortBatchRows } from './batchDecode';
+import { parseSystemMap } from './systemMap';
+import { XOR_LEVELS } from './testMappings';
+
+describe('parsePastedAddresses', () => {
+  it('finds addresses in plain lists and log lines', () => {
+    const text = [
+      '# from the MCE log',
+      '0x240, 0x440',
+      'mce: [Hardware Error]: Machine check events logged, ADDR 7f',
+      'EDAC MC0: 1 CE on DIMM0 (page:0x1 offset:0x40)',
+      '1f40 2000',
+      '',
+      'no address here',
+      'the pad is 12',
+    ].join('\n');
+    const { addresses, skippedLines } = parsePastedAddresses(text);
+    expect(addresses).toEqual([
+      { line: 2, address: 0x240n }, { line: 2, address: 0x440n },
+      { line: 3, address: 0x7fn },
+      { line: 4, address: 0x1n }, { line: 4, address: 0x40n },
+      { line: 5, address: 0x1f40n }, { line: 5, address: 0x2000n },
+    ]);
+    expect(skippedLines).toBe(2);
+  });
+});
+
+describe('decodeAddressBatch', () => {
+  // Bank 0 row 0, bank 0 row 2, bank 1 row 0 twice, bank 3 row 4.
+  const ADDRESSES = [0x0n, 0x240n, 0x40n, 0x7fn, 0x440n].map((address, index) => ({ line: index + 1, address }));
+
+  it('decodes every address and flags same-bank, different-row pairs', () => {
+    const rows = decodeAddressBatch(ADDRESSES, XOR_LEVELS);
+    expect(rows.map(row => row.ids)).toEqual([[0, 0, 0], [0, 2, 0], [1, 0, 0], [1, 0, 63], [3, 4, 0]]);
+    expect(rows.map(row => row.bank)).toEqual(['Bk0', 'Bk0', 'Bk1', 'Bk1', 'Bk3']);
+    expect(rows.map(row => row.conflicts)).toEqual([1, 1, 0, 0, 0]);
+    expect(rows.map(row => row.conflictGroup)).toEqual([0, 0, null, null, null]);
+  });
+
+  it('translates system addresses and leaves holes undecoded', () => {
+    const windows = parseSystemMap([{ name: 'Low', systemBase: '0x0', size: '0x400', dramBase: '0x0' }, { name: 'High', systemBase: '0x1000', size: '0xc00', dramBase: '0x400' }]);
+    const rows = decodeAddressBatch([{ line: 1, address: 0x800n }, { line: 2, address: 0x1040n }], XOR_LEVELS, windows);
+    expect(rows[0]).toMatchObject({ dramAddress: null, ids: null, bank: null, conflicts: 0 });
+    expect(rows[1]).toMatchObject({ dramAddress: 0x440n, ids: [3, 4, 0] });
+  });
+
+  it('filters by level IDs and address text, and sorts by any column', () => {
+    const rows = decodeAddressBatch(ADDRESSES, XOR_LEVELS);
+    expect(filterBatchRows(rows, XOR_LEVELS, 'Bank=1')).toEqual([rows[2], rows[3]]);
+    expect(filterBatchRows(rows, XOR_LEVELS, 'bk=0 row=2')).toEqual([rows[1]]);
+    expect(filterBatchRows(rows, XOR_LEVELS, '44')).toEqual([rows[4]]);
+    expect(filterBatchRows(rows, XOR_LEVELS, 'Rank=0')).toBe('Unknown level "Rank"');
+    expect(filterBatchRows(rows, XOR_LEVELS, 'Bank=x')).toBe('"Bank=x" needs a non-negative integer ID');
+    expect(sortBatchRows(rows, XOR_LEVELS, 'row', true).map(row => row.line)).toEqual([5, 2, 1, 3, 4]);
+    expect(sortBatchRows(rows, XOR_LEVELS, 'address').map(row => row.line)).toEqual([1, 3, 4, 2, 5]);
+  });
+});
@@ -0,0 +1,129 @@
+import { parseHexAddress, formatHexAddress } from './helpers';
+import { levelKey, mappingOf, elementLabel, splitRowBufferLevels, type HierarchyLevel } from './hierarchy';
+import { decodeAddress } from './decode';
+import { systemToDram, type SystemWindow } from './systemMap';
+
+// --- Batch Decoding ---
+// Many addresses at once, e.g. pasted from an error log or an MCE report, one table row each.
+// Addresses that land in the same bank but in different rows are conflicts: they evict each
+// other from the row buffer, and in a fault report they point at one bank rather than one row.
+
+export interface PastedAddress {
+  // 1-based line of the pasted text.
+  line: number;
+  address: bigint;
+}
+
+export interface BatchDecodeRow extends PastedAddress {
+  // Null when the system map has no DRAM behind the address.
+  dramAddress: bigint | null;
+  // ID per level, in hierarchy order; null together with dramAddress.
+  ids: number[] | null;
+  // Labels such as "Ch0/Rk1/Bk3" and "SA2/Row417" (see splitRowBufferLevels).
+  bank: string | null;
+  row: string | null;
+  // Other addresses of the batch in the same bank but a different row.
+  conflicts: number;
+  // Index of the conflicting bank, so its rows can share a highlight; null without conflicts.
+  conflictGroup: number | null;
+}
+
+const PREFIXED_HEX = /\b0x[0-9a-f_]+\b/gi;
+const KEYWORD_HEX = /\b(?:addr|address|pa)(?:\s*[:=]\s*|\s+)([0-9a-f]+)\b/gi;
+const BARE_HEX = /^[0-9a-f]+$/i;
+
+// Every line may hold several addresses. "0x"-prefixed numbers are taken anywhere on the line;
+// otherwise a number after "addr", "address" or "pa" (as in "ADDR 7f5c3a040"), or a line made
+// only of bare hex numbers. Blank lines and '#' comments are ignored, other lines are skipped.
+export function parsePastedAddresses(text: string): { addresses: PastedAddress[]; skippedLines: number } {
+  const addresses: PastedAddress[] = [];
+  let skippedLines = 0;
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+    let tokens = [...line.matchAll(PREFIXED_HEX)].map(match => match[0]);
+    if (tokens.length === 0) tokens = [...line.matchAll(KEYWORD_HEX)].map(match => match[1]);
+    if (tokens.length === 0) {
+      const words = line.split(/[\s,;]+/).filter(Boolean);
+      if (words.every(word => BARE_HEX.test(word))) tokens = words;
+    }
+    const parsed = tokens.map(parseHexAddress).filter((address): address is bigint => address !== null);
+    if (parsed.length === 0) skippedLines++;
+    parsed.forEach(address => addresses.push({ line: index + 1, address }));
+  });
+  return { addresses, skippedLines };
+}
+
+// Decodes system addresses (translated through `windows`) and marks bank conflicts.
+export function decodeAddressBatch(addresses: PastedAddress[], levels: HierarchyLevel[], windows: SystemWindow[] = []): BatchDecodeRow[] {
+  const mapping = mappingOf(levels);
+  const { bankLevels, rowLevels } = splitRowBufferLevels(levels);
+  const idsOf = (ids: number[], subset: HierarchyLevel[]) => subset.map(level => ids[levels.indexOf(level)]);
+
+  const rows: BatchDecodeRow[] = addresses.map(({ line, address }) => {
+    const dramAddress = systemToDram(windows, address);
+    if (dramAddress === null) return { line, address, dramAddress, ids: null, bank: null, row: null, conflicts: 0, conflictGroup: null };
+    const decoded = decodeAddress(dramAddress, mapping);
+    const ids = levels.map(level => decoded[levelKey(level.name)]);
+    return {
+      line, address, dramAddress, ids,
+      bank: elementLabel(bankLevels, idsOf(ids, bankLevels)),
+      row: elementLabel(rowLevels, idsOf(ids, rowLevels)),
+      conflicts: 0, conflictGroup: null,
+    };
+  });
+
+  const byBank = new Map<string, BatchDecodeRow[]>();
+  rows.forEach(row => {
+    if (row.bank !== null) byBank.set(row.bank, [...(byBank.get(row.bank) ?? []), row]);
+  });
+  let group = 0;
+  byBank.forEach(bankRows => {
+    if (new Set(bankRows.map(row => row.row)).size < 2) return;
+    bankRows.forEach(row => {
+      row.conflicts = bankRows.filter(other => other.row !== row.row).length;
+      row.conflictGroup = group;
+    });
+    group++;
+  });
+  return rows;
+}
+
+// Whitespace-separated terms that must all match: "Bank=3" (level name or short label)
+// compares an ID, anything else is looked for in the address and the DRAM address.
+export function filterBatchRows(rows: BatchDecodeRow[], levels: HierarchyLevel[], query: string): BatchDecodeRow[] | string {
+  const tests: ((row: BatchDecodeRow) => boolean)[] = [];
+  for (const term of query.trim().split(/\s+/).filter(Boolean)) {
+    const equals = term.indexOf('=');
+    if (equals < 0) {
+      const text = term.toLowerCase();
+      tests.push(row => formatHexAddress(row.address).includes(text) || (row.dramAddress !== null && formatHexAddress(row.dramAddress).includes(text)));
+      continue;
+    }
+    const name = levelKey(term.slice(0, equals));
+    const index = levels.findIndex(level => levelKey(level.name) === name || levelKey(level.shortLabel) === name);
+    if (index < 0) return `Unknown level "${term.slice(0, equals)}"`;
+    const id = Number(term.slice(equals + 1));
+    if (!Number.isInteger(id) || id < 0) return `"${term}" needs a non-negative integer ID`;
+    tests.push(row => row.ids !== null && row.ids[index] === id);
+  }
+  return rows.filter(row => tests.every(test => test(row)));
+}
+
+// Sorts by line, by address or by the ID of one level (its lower-case key); rows without DRAM
+// go last whatever the direction.
+export function sortBatchRows(rows: BatchDecodeRow[], levels: HierarchyLevel[], key: string, descending = false): BatchDecodeRow[] {
+  const index = levels.findIndex(level => levelKey(level.name) === key);
+  const value = (row: BatchDecodeRow): bigint | number | null => {
+    if (key === 'line') return row.line;
+    if (key === 'address') return row.address;
+    return row.ids === null || index < 0 ? null : row.ids[index];
+  };
+  return [...rows].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === null || right === null) return left === right ? a.line - b.line : (left === null ? 1 : -1);
+    if (left === right) return a.line - b.line;
+    return (left < right) !== descending ? -1 : 1;
+  });
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { diffIdBits, countTouchedElements } from './compare';
+import { xorLevels, XOR_LEVELS } from './testMappings';
+
+// Bank bit 1 drops PA bit 7 from its hash.
+const DIRECT_BANK_LEVELS = xorLevels({ Bank: ['6,9', '10'] });
+
+describe('diffIdBits', () => {
+  it('lists every ID bit and marks the one that differs', () => {
+    const diff = diffIdBits(XOR_LEVELS, DIRECT_BANK_LEVELS);
+    expect(diff).toHaveLength(12);
+    expect(diff.slice(0, 2)).toEqual([
+      { level: 'Bank', bit: 0, a: [6, 9], b: [6, 9], same: true },
+      { level: 'Bank', bit: 1, a: [7, 10], b: [10], same: false },
+    ]);
+    expect(diff.filter(entry => !entry.same)).toHaveLength(1);
+  });
+
+  it('reports ID bits that only one mapping has', () => {
+    const diff = diffIdBits(XOR_LEVELS, [...DIRECT_BANK_LEVELS.slice(0, 2), { ...DIRECT_BANK_LEVELS[2], name: 'Offset' }]);
+    expect(diff.find(entry => entry.level === 'Column')).toMatchObject({ a: [0], b: null, same: false });
+    expect(diff.find(entry => entry.level === 'Offset')).toMatchObject({ a: null, b: [0], same: false });
+  });
+});
+
+describe('countTouchedElements', () => {
+  // PA bit 7 varies in the first KiB and PA bit 10 does not.
+  const ranges = [{ start: 0x000n, end: 0x3ffn }];
+
+  it('counts the banks a range reaches under either mapping', () => {
+    expect(countTouchedElements(XOR_LEVELS, XOR_LEVELS.slice(0, 1), ranges)).toBe(4);
+    expect(countTouchedElements(DIRECT_BANK_LEVELS, DIRECT_BANK_LEVELS.slice(0, 1), ranges)).toBe(2);
+    expect(countTouchedElements(XOR_LEVELS, XOR_LEVELS.slice(0, 2), ranges)).toBe(16);
+  });
+
+  it('counts an element once across several ranges', () => {
+    const withHigh = [...ranges, { start: 0x400n, end: 0x47fn }];
+    expect(countTouchedElements(DIRECT_BANK_LEVELS, DIRECT_BANK_LEVELS.slice(0, 1), withHigh)).toBe(4);
+    expect(countTouchedElements(XOR_LEVELS, XOR_LEVELS.slice(0, 1), withHigh)).toBe(4);
+  });
+
+  it('gives up on levels with too many IDs', () => {
+    const levels = XOR_LEVELS.map(level => (level.name === 'Column' ? { ...level, count: 8192 } : level));
+    expect(countTouchedElements(levels, levels.slice(2), ranges)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { parseNbitMappingToPositions } from './helpers';
+import { findLevel, levelKey, mappingOf, type HierarchyLevel } from './hierarchy';
+import { pathEquations, type AddressRange, type HierarchyPathSegment } from './addressSet';
+import { reduceEquations, countSolutionsInRange } from './gf2';
+
+// --- Mapping Comparison ---
+// Helpers for putting two configurations side by side: which PA bits feed each ID bit, and
+// how many elements of each level an address range reaches under either mapping.
+
+export interface IdBitDiff {
+  level: string;
+  bit: number;
+  // Sorted PA bit positions, or null when the level has no such ID bit in that mapping.
+  a: number[] | null;
+  b: number[] | null;
+  same: boolean;
+}
+
+// Beyond this many candidate IDs a level is not enumerated (e.g. Row or Column).
+export const MAX_ENUMERATED_IDS = 4096;
+
+function fieldPositions(level: HierarchyLevel | undefined, bit: number): number[] | null {
+  if (!level || bit >= level.nbits.length) return null;
+  return [...new Set(parseNbitMappingToPositions(level.nbits[bit]) ?? [])].sort((x, y) => x - y);
+}
+
+// Levels are matched by name; levels only B has are listed after those of A.
+export function diffIdBits(a: HierarchyLevel[], b: HierarchyLevel[]): IdBitDiff[] {
+  const names = [...a, ...b.filter(level => !findLevel(a, level.name))].map(level => level.name);
+  return names.flatMap(name => {
+    const levelA = findLevel(a, name);
+    const levelB = findLevel(b, name);
+    const width = Math.max(levelA?.nbits.length ?? 0, levelB?.nbits.length ?? 0);
+    return Array.from({ length: width }, (_, bit) => {
+      const positionsA = fieldPositions(levelA, bit);
+      const positionsB = fieldPositions(levelB, bit);
+      const same = positionsA !== null && positionsB !== null && positionsA.join(',') === positionsB.join(',');
+      return { level: name, bit, a: positionsA, b: positionsB, same };
+    });
+  });
+}
+
+// Number of distinct ID combinations of `group` (levels of `hierarchy`) that at least one
+// address in `ranges` decodes to, or null when there are more than MAX_ENUMERATED_IDS to try.
+export function countTouchedElements(hierarchy: HierarchyLevel[], group: HierarchyLevel[], ranges: AddressRange[]): number | null {
+  const combinations = group.reduce((product, level) => product * Math.max(level.count, 1), 1);
+  if (combinations > MAX_ENUMERATED_IDS) return null;
+  const mapping = mappingOf(hierarchy);
+  let touched = 0;
+  for (let index = 0; index < combinations; index++) {
+    let rest = index;
+    const path: HierarchyPathSegment[] = group.map(level => {
+      const size = Math.max(level.count, 1);
+      const id = rest % size;
+      rest = Math.floor(rest / size);
+      return { type: levelKey(level.name), id };
+    });
+    const { system, inconsistentIndex } = reduceEquations(pathEquations(path, mapping));
+    if (inconsistentIndex < 0 && ranges.some(range => countSolutionsInRange(system, range.start, range.end) > 0n)) touched++;
+  }
+  return touched;
+}
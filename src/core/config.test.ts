@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createConfig, validateConfig, parseConfigJson, serializeConfig, buildShareUrl, parseConfigFromHash,
+  CONFIG_SCHEMA_VERSION,
+} from './config';
+import { XOR_LEVELS, XOR_MAPPING } from './testMappings';
+
+const config = createConfig('4KB', XOR_LEVELS, [{ baseAddress: '0x0', size: '0x800' }]);
+
+// The same mapping as a version 1 file, with its fixed set of levels.
+const v1Config = {
+  schema: 'dram-visualizer-config', version: 1, totalCapacity: '4KB', vms: [],
+  levels: {
+    Channel: { value: 1, nbits: [] }, Rank: { value: 1, nbits: [] }, Bank: { value: 4, nbits: XOR_MAPPING.bank },
+    BankGroup: { value: 1, nbits: [] }, Subarray: { value: 1, nbits: [] }, Row: { value: 16, nbits: XOR_MAPPING.row },
+    Column: { value: 64, nbits: XOR_MAPPING.column },
+  },
+};
+
+describe('config files', () => {
+  it('round-trips through JSON', () => {
+    expect(parseConfigJson(serializeConfig(config))).toEqual({ ok: true, config });
+  });
+
+  it('reports every problem with its field path', () => {
+    const broken = JSON.parse(serializeConfig(config));
+    broken.totalCapacity = '4 gigs';
+    broken.levels[0].nbits = ['6,9'];
+    broken.levels[1].nbits[2] = '10;11';
+    broken.levels[2].layout = 'table';
+    broken.levels.push({ ...broken.levels[0], name: 'bank', nbits: ['', ''] }, { name: '2nd', shortLabel: '', count: 1, nbits: [], layout: 'grid' });
+    broken.vms[0].size = '0x0';
+    const result = validateConfig(broken);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors.map(error => error.field)).toEqual([
+      'totalCapacity', 'levels[0].nbits', 'levels[1].nbits[2]', 'levels[2].layout',
+      'levels[4].name', 'levels[4].shortLabel', 'levels[3].name', 'vms[0].size',
+    ]);
+  });
+
+  it('requires level counts to be powers of two', () => {
+    const broken = JSON.parse(serializeConfig(config));
+    broken.levels[0].count = 0;
+    broken.levels[0].nbits = [];
+    broken.levels[1].count = 3;
+    const result = validateConfig(broken);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['levels[0].count', 'levels[1].count']);
+  });
+
+  it('checks page-framed VMs', () => {
+    const paged = { ...config, vms: [{ baseAddress: '', size: '', pages: '0x0-0x1, 0x4', pageSize: '4KB' }, { baseAddress: '', size: '', pages: '0x3-0x1', pageSize: '3KB' }] };
+    const result = validateConfig(paged);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['vms[1].pageSize', 'vms[1].pages']);
+    expect(validateConfig({ ...paged, vms: paged.vms.slice(0, 1) })).toEqual({ ok: true, config: { ...paged, vms: paged.vms.slice(0, 1) } });
+  });
+
+  it('keeps VM names and reserved regions', () => {
+    const named = createConfig('4KB', XOR_LEVELS, [{ name: 'System RAM', baseAddress: '0x0', size: '0x800' }], { reserved: [{ name: 'PCI', baseAddress: '0x800', size: '0x800' }] });
+    expect(parseConfigJson(serializeConfig(named))).toEqual({ ok: true, config: named });
+    const broken = { ...named, reserved: [{ name: 'PCI', baseAddress: 'zz', size: '0x0' }] };
+    const result = validateConfig(broken);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['reserved[0].baseAddress', 'reserved[0].size']);
+  });
+
+  it('checks the system map', () => {
+    const memoryMap = [
+      { name: 'Low', systemBase: '0x0', size: '0x800', dramBase: '0x0' },
+      { name: 'High', systemBase: '0x1000', size: '0x800', dramBase: '0x800' },
+    ];
+    const mapped = createConfig('4KB', XOR_LEVELS, [], { memoryMap });
+    expect(parseConfigJson(serializeConfig(mapped))).toEqual({ ok: true, config: mapped });
+    const broken = { ...mapped, memoryMap: [...memoryMap, { name: 'Overlap', systemBase: '0x400', size: '0x800', dramBase: 'zz' }] };
+    const result = validateConfig(broken);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['memoryMap[2].dramBase', 'memoryMap[2].systemBase']);
+  });
+
+  it('migrates version 1 files to the ordered level list', () => {
+    const result = validateConfig(v1Config);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.config.version).toBe(CONFIG_SCHEMA_VERSION);
+    expect(result.config.levels.map(level => level.name)).toEqual(['Channel', 'Rank', 'Bank', 'BankGroup', 'Subarray', 'Row', 'Column']);
+    expect(result.config.levels.find(level => level.name === 'Row')).toEqual({ name: 'Row', shortLabel: 'Row', count: 16, nbits: XOR_MAPPING.row, layout: 'list' });
+  });
+
+  it('reports version 1 problems with their version 1 field paths', () => {
+    const broken = { ...v1Config, levels: { ...v1Config.levels, Bank: { value: 4, nbits: ['6,9'] }, Foo: { value: 1, nbits: [] } } };
+    const result = validateConfig(broken);
+    expect(!result.ok && result.errors.map(error => error.field)).toEqual(['levels.Bank.nbits', 'levels.Foo']);
+  });
+
+  it('rejects files from a newer schema version and non-JSON input', () => {
+    const newer = validateConfig({ ...config, version: CONFIG_SCHEMA_VERSION + 1 });
+    expect(!newer.ok && newer.errors[0].field).toBe('version');
+    const notJson = parseConfigJson('{');
+    expect(!notJson.ok && notJson.errors[0].field).toBe('(file)');
+  });
+});
+
+describe('share links', () => {
+  it('carries the config in the URL hash', () => {
+    const url = buildShareUrl(config, 'https://example.org/dram/#old');
+    expect(url.startsWith('https://example.org/dram/#config=')).toBe(true);
+    expect(parseConfigFromHash(url.slice(url.indexOf('#')))).toEqual({ ok: true, config });
+  });
+
+  it('ignores other hashes and reports corrupted links', () => {
+    expect(parseConfigFromHash('#section')).toBeNull();
+    expect(parseConfigFromHash('#config=%%%')?.ok).toBe(false);
+  });
+});
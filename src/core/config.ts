@@ -0,0 +1,343 @@
+import { getBit, parseUnitBasedSizeToBytes, parseHexDataSizeToBytes, parseHexAddress } from './helpers';
+import { parsePageList, pageSizeBytes, PAGE_SIZES } from './vmMemory';
+import { buildHierarchy, levelKey, LEVEL_LAYOUTS, LEVEL_NAME_PATTERN, type HierarchyLevel, type LevelLayout } from './hierarchy';
+
+// --- Configuration Schema ---
+// A saved configuration is a plain JSON document. `version` is bumped whenever the
+// shape changes so that older files can still be recognised (and migrated) on import.
+//   1: `levels` is an object keyed by the seven fixed level names, each { value, nbits }.
+//   2: `levels` is the ordered list of hierarchy levels (see HierarchyLevel).
+//   3: a VM may list page frames (`pages`, `pageSize`) instead of one contiguous range.
+//   4: VMs may have a `name`; `reserved` lists address ranges without DRAM behind them.
+//   5: `memoryMap` lists the system-address windows backed by DRAM (see SystemWindow).
+export const CONFIG_SCHEMA_ID = 'dram-visualizer-config';
+export const CONFIG_SCHEMA_VERSION = 5;
+
+export interface VmConfig {
+  // Shown instead of "VM <n>", e.g. the region name of an imported memory map.
+  name?: string;
+  baseAddress: string;
+  size: string;
+  // Page frame numbers and frame ranges (see parsePageList); when non-empty they replace baseAddress/size.
+  pages?: string;
+  pageSize?: string;
+}
+
+export interface DramConfig {
+  schema: typeof CONFIG_SCHEMA_ID;
+  version: number;
+  totalCapacity: string;
+  levels: HierarchyLevel[];
+  vms: VmConfig[];
+  // Holes in the physical address space (MMIO windows, firmware areas). Only present when non-empty.
+  reserved?: ReservedRegion[];
+  // System address -> DRAM address translation. Only present when non-empty; without it the two are the same.
+  memoryMap?: SystemMapEntry[];
+}
+
+export interface ReservedRegion { name: string; baseAddress: string; size: string; }
+
+// [systemBase, systemBase + size) is backed by DRAM starting at dramBase.
+export interface SystemMapEntry { name: string; systemBase: string; size: string; dramBase: string; }
+
+// The optional parts of a config.
+export interface ConfigExtras { reserved?: ReservedRegion[]; memoryMap?: SystemMapEntry[]; }
+
+export interface ConfigFieldError { field: string; message: string; }
+
+export type ConfigParseResult =
+  | { ok: true; config: DramConfig }
+  | { ok: false; errors: ConfigFieldError[] };
+
+const URL_HASH_PREFIX = '#config=';
+
+// The fixed hierarchy of version 1 files, in its original order.
+const V1_LEVEL_NAMES = ['Channel', 'Rank', 'Bank', 'BankGroup', 'Subarray', 'Row', 'Column'];
+
+export function createConfig(totalCapacity: string, levels: HierarchyLevel[], vms: VmConfig[], extras: ConfigExtras = {}): DramConfig {
+  const config: DramConfig = { schema: CONFIG_SCHEMA_ID, version: CONFIG_SCHEMA_VERSION, totalCapacity, levels, vms };
+  if (extras.reserved?.length) config.reserved = extras.reserved;
+  if (extras.memoryMap?.length) config.memoryMap = extras.memoryMap;
+  return config;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNbitField(field: string, value: unknown, errors: ConfigFieldError[]): string {
+  if (typeof value !== 'string') {
+    errors.push({ field, message: 'Must be a string of comma-separated PA bit positions' });
+    return '';
+  }
+  if (!value.trim()) return value;
+  if (value.split(',').some(part => !/^\s*\d+\s*$/.test(part))) {
+    errors.push({ field, message: `Invalid PA bit positions "${value}". Expected e.g. 5 or 6,14,22` });
+  }
+  return value;
+}
+
+function validateCount(field: string, value: unknown, errors: ConfigFieldError[]): number | null {
+  // Every element needs an ID made of whole bits, so 0 and counts such as 3 cannot be mapped.
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || !Number.isInteger(Math.log2(value))) {
+    errors.push({ field, message: 'Must be a power of two (1, 2, 4, ...)' });
+    return null;
+  }
+  return value;
+}
+
+function validateNbits(field: string, count: number, raw: unknown, errors: ConfigFieldError[]): string[] {
+  if (!Array.isArray(raw)) {
+    errors.push({ field, message: 'Must be an array of strings' });
+    return [];
+  }
+  const expectedBits = getBit(count);
+  if (raw.length !== expectedBits) {
+    errors.push({ field, message: `Expected ${expectedBits} entries for a count of ${count}, found ${raw.length}` });
+  }
+  return raw.map((nbit, index) => validateNbitField(`${field}[${index}]`, nbit, errors));
+}
+
+// Version 1: an object keyed by the fixed level names, each { value, nbits }.
+function migrateV1Levels(raw: unknown, errors: ConfigFieldError[]): HierarchyLevel[] {
+  if (!isRecord(raw)) {
+    errors.push({ field: 'levels', message: 'Must be an object keyed by hierarchy level' });
+    return [];
+  }
+  const levels: Record<string, [number, string[]]> = {};
+  V1_LEVEL_NAMES.forEach(name => {
+    const field = `levels.${name}`;
+    const rawLevel = raw[name];
+    if (!isRecord(rawLevel)) {
+      errors.push({ field, message: 'Missing level definition' });
+      return;
+    }
+    const count = validateCount(`${field}.value`, rawLevel.value, errors);
+    if (count !== null) levels[name] = [count, validateNbits(`${field}.nbits`, count, rawLevel.nbits, errors)];
+  });
+  Object.keys(raw)
+    .filter(name => !V1_LEVEL_NAMES.includes(name))
+    .forEach(name => errors.push({ field: `levels.${name}`, message: 'Unknown hierarchy level' }));
+  return buildHierarchy(V1_LEVEL_NAMES, levels);
+}
+
+function validateLevel(index: number, raw: unknown, errors: ConfigFieldError[]): HierarchyLevel | null {
+  const field = `levels[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ field, message: 'Must be an object with name, shortLabel, count, nbits and layout' });
+    return null;
+  }
+  const { name, shortLabel, layout } = raw;
+  if (typeof name !== 'string' || !LEVEL_NAME_PATTERN.test(name)) {
+    errors.push({ field: `${field}.name`, message: 'Must start with a letter and contain only letters, digits and _' });
+  }
+  if (typeof shortLabel !== 'string' || !shortLabel.trim()) {
+    errors.push({ field: `${field}.shortLabel`, message: 'Must be a non-empty string' });
+  }
+  if (typeof layout !== 'string' || !LEVEL_LAYOUTS.includes(layout as LevelLayout)) {
+    errors.push({ field: `${field}.layout`, message: `Must be one of ${LEVEL_LAYOUTS.join(', ')}` });
+  }
+  const count = validateCount(`${field}.count`, raw.count, errors);
+  if (count === null) return null;
+  const nbits = validateNbits(`${field}.nbits`, count, raw.nbits, errors);
+  return { name: String(name), shortLabel: String(shortLabel), count, nbits, layout: layout as LevelLayout };
+}
+
+function validateLevels(raw: unknown, errors: ConfigFieldError[]): HierarchyLevel[] {
+  if (!Array.isArray(raw)) {
+    errors.push({ field: 'levels', message: 'Must be an array of hierarchy levels' });
+    return [];
+  }
+  if (raw.length === 0) errors.push({ field: 'levels', message: 'At least one level is required' });
+  const levels = raw.map((level, index) => validateLevel(index, level, errors));
+  const seen = new Set<string>();
+  levels.forEach((level, index) => {
+    if (!level) return;
+    if (seen.has(levelKey(level.name))) errors.push({ field: `levels[${index}].name`, message: `Duplicate level name "${level.name}"` });
+    seen.add(levelKey(level.name));
+  });
+  return levels.filter((level): level is HierarchyLevel => level !== null);
+}
+
+function validateVm(index: number, raw: unknown, errors: ConfigFieldError[]): VmConfig {
+  const field = `vms[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ field, message: 'Must be an object with baseAddress and size' });
+    return { baseAddress: '', size: '' };
+  }
+  const { baseAddress, size } = raw;
+  if (typeof baseAddress !== 'string') {
+    errors.push({ field: `${field}.baseAddress`, message: 'Must be a string' });
+  } else if (baseAddress.trim() && parseHexAddress(baseAddress) === null) {
+    errors.push({ field: `${field}.baseAddress`, message: `Invalid hexadecimal address "${baseAddress}"` });
+  }
+  if (typeof size !== 'string') {
+    errors.push({ field: `${field}.size`, message: 'Must be a string' });
+  } else if (size.trim()) {
+    const parsed = parseHexDataSizeToBytes(size);
+    if (typeof parsed === 'string') errors.push({ field: `${field}.size`, message: parsed });
+  }
+  const vm: VmConfig = {
+    baseAddress: typeof baseAddress === 'string' ? baseAddress : '',
+    size: typeof size === 'string' ? size : '',
+  };
+  if (raw.name !== undefined) {
+    if (typeof raw.name !== 'string') errors.push({ field: `${field}.name`, message: 'Must be a string' });
+    else vm.name = raw.name;
+  }
+  if (raw.pageSize !== undefined) {
+    if (typeof raw.pageSize !== 'string' || !PAGE_SIZES.includes(raw.pageSize)) {
+      errors.push({ field: `${field}.pageSize`, message: `Must be one of ${PAGE_SIZES.join(', ')}` });
+    } else {
+      vm.pageSize = raw.pageSize;
+    }
+  }
+  if (raw.pages !== undefined) {
+    const parsed = typeof raw.pages === 'string' ? parsePageList(raw.pages, pageSizeBytes(vm.pageSize)) : 'Must be a string of page frames';
+    if (typeof parsed === 'string') errors.push({ field: `${field}.pages`, message: parsed });
+    else vm.pages = String(raw.pages);
+  }
+  return vm;
+}
+
+function validateReservedRegion(index: number, raw: unknown, errors: ConfigFieldError[]): ReservedRegion {
+  const field = `reserved[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push({ field, message: 'Must be an object with name, baseAddress and size' });
+    return { name: '', baseAddress: '', size: '' };
+  }
+  const { name, baseAddress, size } = raw;
+  if (typeof name !== 'string') errors.push({ field: `${field}.name`, message: 'Must be a string' });
+  if (typeof baseAddress !== 'string' || parseHexAddress(baseAddress) === null) {
+    errors.push({ field: `${field}.baseAddress`, message: `Invalid hexadecimal address "${String(baseAddress)}"` });
+  }
+  const parsedSize = typeof size === 'string' ? parseHexDataSizeToBytes(size) : 'Must be a string';
+  if (typeof parsedSize === 'string') errors.push({ field: `${field}.size`, message: parsedSize });
+  return { name: String(name ?? ''), baseAddress: String(baseAddress ?? ''), size: String(size ?? '') };
+}
+
+function validateSystemMap(raw: unknown, errors: ConfigFieldError[]): SystemMapEntry[] {
+  if (!Array.isArray(raw)) {
+    errors.push({ field: 'memoryMap', message: 'Must be an array' });
+    return [];
+  }
+  const windows: { start: bigint; end: bigint }[] = [];
+  return raw.map((entry, index): SystemMapEntry => {
+    const field = `memoryMap[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ field, message: 'Must be an object with name, systemBase, size and dramBase' });
+      return { name: '', systemBase: '', size: '', dramBase: '' };
+    }
+    const { name, systemBase, size, dramBase } = entry;
+    if (typeof name !== 'string') errors.push({ field: `${field}.name`, message: 'Must be a string' });
+    const start = typeof systemBase === 'string' ? parseHexAddress(systemBase) : null;
+    if (start === null) errors.push({ field: `${field}.systemBase`, message: `Invalid hexadecimal address "${String(systemBase)}"` });
+    const bytes = typeof size === 'string' ? parseHexDataSizeToBytes(size) : 'Must be a string';
+    if (typeof bytes === 'string') errors.push({ field: `${field}.size`, message: bytes });
+    if (typeof dramBase !== 'string' || parseHexAddress(dramBase) === null) {
+      errors.push({ field: `${field}.dramBase`, message: `Invalid hexadecimal address "${String(dramBase)}"` });
+    }
+    if (start !== null && typeof bytes === 'bigint') {
+      const end = start + bytes - 1n;
+      const overlapped = windows.findIndex(other => start <= other.end && end >= other.start);
+      if (overlapped >= 0) errors.push({ field: `${field}.systemBase`, message: `Overlaps memoryMap[${overlapped}]` });
+      windows.push({ start, end });
+    }
+    return { name: String(name ?? ''), systemBase: String(systemBase ?? ''), size: String(size ?? ''), dramBase: String(dramBase ?? '') };
+  });
+}
+
+// Validates an untrusted value (e.g. the result of JSON.parse) against the schema.
+// Every problem is reported with the path of the offending field; the config is only
+// returned when there are none.
+export function validateConfig(raw: unknown): ConfigParseResult {
+  const errors: ConfigFieldError[] = [];
+  if (!isRecord(raw)) {
+    return { ok: false, errors: [{ field: '(root)', message: 'Configuration must be a JSON object' }] };
+  }
+  if (raw.schema !== CONFIG_SCHEMA_ID) {
+    errors.push({ field: 'schema', message: `Expected "${CONFIG_SCHEMA_ID}"` });
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    errors.push({ field: 'version', message: 'Must be a positive integer' });
+  } else if (raw.version > CONFIG_SCHEMA_VERSION) {
+    errors.push({ field: 'version', message: `Version ${raw.version} is newer than the supported version ${CONFIG_SCHEMA_VERSION}` });
+  }
+
+  let totalCapacity = '';
+  if (typeof raw.totalCapacity !== 'string') {
+    errors.push({ field: 'totalCapacity', message: 'Must be a string such as "2GB"' });
+  } else {
+    totalCapacity = raw.totalCapacity;
+    if (totalCapacity.trim()) {
+      const bytes = parseUnitBasedSizeToBytes(totalCapacity);
+      if (typeof bytes === 'string') errors.push({ field: 'totalCapacity', message: bytes });
+    }
+  }
+
+  // A version error has already been reported; the levels are then checked as the current version.
+  const levels = raw.version === 1 ? migrateV1Levels(raw.levels, errors) : validateLevels(raw.levels, errors);
+
+  let vms: VmConfig[] = [];
+  if (!Array.isArray(raw.vms)) {
+    errors.push({ field: 'vms', message: 'Must be an array' });
+  } else {
+    vms = raw.vms.map((vm, index) => validateVm(index, vm, errors));
+  }
+
+  let reserved: ReservedRegion[] = [];
+  if (raw.reserved !== undefined) {
+    if (!Array.isArray(raw.reserved)) errors.push({ field: 'reserved', message: 'Must be an array' });
+    else reserved = raw.reserved.map((region, index) => validateReservedRegion(index, region, errors));
+  }
+
+  const memoryMap = raw.memoryMap === undefined ? [] : validateSystemMap(raw.memoryMap, errors);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, config: createConfig(totalCapacity, levels, vms, { reserved, memoryMap }) };
+}
+
+export function parseConfigJson(text: string): ConfigParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [{ field: '(file)', message: `Not valid JSON: ${(error as Error).message}` }] };
+  }
+  return validateConfig(raw);
+}
+
+export function serializeConfig(config: DramConfig): string {
+  return JSON.stringify(config, null, 2);
+}
+
+// --- URL Sharing ---
+// The config is embedded in the hash (never sent to a server) as base64url-encoded JSON.
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function buildShareUrl(config: DramConfig, baseUrl: string): string {
+  return `${baseUrl.split('#')[0]}${URL_HASH_PREFIX}${toBase64Url(JSON.stringify(config))}`;
+}
+
+// Returns null when the hash does not carry a configuration at all.
+export function parseConfigFromHash(hash: string): ConfigParseResult | null {
+  if (!hash.startsWith(URL_HASH_PREFIX)) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(hash.substring(URL_HASH_PREFIX.length));
+  } catch {
+    return { ok: false, errors: [{ field: '(link)', message: 'The shared link is corrupted' }] };
+  }
+  return parseConfigJson(text);
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAddress, decodePhysicalAddress } from './decode';
+import { XOR_MAPPING, XOR_CAPACITY } from './testMappings';
+
+describe('decodeAddress', () => {
+  it('XORs the listed PA bits for every ID bit', () => {
+    // 0x240 sets PA bits 6 and 9: bank bit 0 = 6^9 = 0, bank bit 1 = 7^10 = 0, row bit 1 = PA 9.
+    expect(decodeAddress(0x240n, XOR_MAPPING)).toMatchObject({ bank: 0, row: 2, column: 0 });
+    // 0x440 sets PA bits 6 and 10: both bank hashes are 1, and row bit 2 = PA 10.
+    expect(decodeAddress(0x440n, XOR_MAPPING)).toMatchObject({ bank: 3, row: 4, column: 0 });
+    expect(decodeAddress(0x3fn, XOR_MAPPING)).toMatchObject({ bank: 0, row: 0, column: 63 });
+  });
+
+  it('maps the whole capacity one-to-one for a full-rank mapping', () => {
+    const seen = new Set<string>();
+    for (let address = 0n; address < XOR_CAPACITY; address++) {
+      const ids = decodeAddress(address, XOR_MAPPING);
+      seen.add(`${ids.bank}/${ids.row}/${ids.column}`);
+    }
+    expect(seen.size).toBe(Number(XOR_CAPACITY));
+  });
+
+  it('reads empty or invalid fields as 0 and levels without fields as ID 0', () => {
+    expect(decodeAddress(0xffffn, { bank: ['', 'x,1'], rank: [] })).toEqual({ bank: 0, rank: 0 });
+  });
+
+  it('handles address bits beyond 2^53', () => {
+    expect(decodeAddress(1n << 60n, { channel: ['60', '61'] })).toEqual({ channel: 1 });
+    expect(decodeAddress(3n << 60n, { channel: ['60,61'] })).toEqual({ channel: 0 });
+  });
+});
+
+describe('decodePhysicalAddress', () => {
+  it('parses hex input and reports empty or invalid input per level', () => {
+    expect(decodePhysicalAddress('0x440', XOR_MAPPING)).toMatchObject({ bank: 3, row: 4 });
+    expect(decodePhysicalAddress('  ', XOR_MAPPING).bank).toBe('Address not entered');
+    expect(decodePhysicalAddress('0xzz', XOR_MAPPING).column).toBe('Invalid address');
+  });
+
+  it('translates system addresses through the system map', () => {
+    const windows = [{ name: 'High', start: 0x1000n, end: 0x17ffn, dramStart: 0x400n }];
+    expect(decodePhysicalAddress('0x1040', XOR_MAPPING, windows)).toEqual(decodePhysicalAddress('0x440', XOR_MAPPING));
+    expect(decodePhysicalAddress('0x440', XOR_MAPPING, windows).bank).toBe('Not backed by DRAM');
+  });
+});
@@ -0,0 +1,35 @@
+import { parseHexAddress, parseNbitMappingToPositions, getBitValueFromAddress, type NbitMappingConfig } from './helpers';
+import { systemToDram, type SystemWindow } from './systemMap';
+
+// --- Address Decoding ---
+
+// ID per level (lower-case key) of an already parsed address. An empty or invalid Nbit
+// field contributes a 0 bit; a field listing several PA bits contributes their XOR.
+export function decodeAddress(address: bigint, mapping: NbitMappingConfig): Record<string, number> {
+  const ids: Record<string, number> = {};
+  Object.entries(mapping).forEach(([level, nbits]) => {
+    ids[level] = nbits.reduce((id, text, index) => {
+      const positions = parseNbitMappingToPositions(text) ?? [];
+      const bit = positions.reduce((acc, pos) => acc ^ getBitValueFromAddress(address, pos), 0);
+      return bit ? id + 2 ** index : id;
+    }, 0);
+  });
+  return ids;
+}
+
+// Decodes user input, a system address that `windows` translates to DRAM first. Every level
+// reports the same message when the input is empty, not hex, or has no DRAM behind it.
+export function decodePhysicalAddress(physicalAddressHexStr: string, mapping: NbitMappingConfig, windows: SystemWindow[] = []): Record<string, number | string> {
+  if (!physicalAddressHexStr.trim()) {
+    return Object.fromEntries(Object.keys(mapping).map(key => [key, 'Address not entered']));
+  }
+  const physicalAddress = parseHexAddress(physicalAddressHexStr);
+  if (physicalAddress === null) {
+    return Object.fromEntries(Object.keys(mapping).map(key => [key, 'Invalid address']));
+  }
+  const dramAddress = systemToDram(windows, physicalAddress);
+  if (dramAddress === null) {
+    return Object.fromEntries(Object.keys(mapping).map(key => [key, 'Not backed by DRAM']));
+  }
+  return decodeAddress(dramAddress, mapping);
+}
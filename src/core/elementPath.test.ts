@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatElementPath, parseElementPath, resolveSearchTarget } from './elementPath';
+import { buildHierarchy } from './hierarchy';
+import { parseSystemMap } from './systemMap';
+import { XOR_LEVELS } from './testMappings';
+
+// Channel > Rank (one) > BankGroup > Bank > Row, with the default short labels.
+const LEVELS = buildHierarchy(['Channel', 'Rank', 'BankGroup', 'Bank', 'Row'], {
+  Channel: [2, ['6']], Rank: [1, []], BankGroup: [4, ['7', '8']], Bank: [4, ['9', '10']], Row: [8192, []],
+});
+
+describe('element paths', () => {
+  it('formats and parses short-label paths', () => {
+    expect(formatElementPath(LEVELS, [1, 0, 1, 2, 4000])).toBe('ch1/rk0/bg1/bk2/row4000');
+    expect(parseElementPath('ch1/rk0/bg1/bk2/row4000', LEVELS)).toEqual([1, 0, 1, 2, 4000]);
+    expect(parseElementPath('Channel1 > Rank0 > BankGroup3', LEVELS)).toEqual([1, 0, 3]);
+  });
+
+  it('fills in single-element levels and reports the rest', () => {
+    expect(parseElementPath('CH1 BG1', LEVELS)).toEqual([1, 0, 1]);
+    expect(parseElementPath('ch1/bk2', LEVELS)).toBe('BankGroup is missing before "bk2"');
+    expect(parseElementPath('ch1/ch0', LEVELS)).toBe('"ch0" does not name a level below Channel');
+    expect(parseElementPath('ch2', LEVELS)).toBe('Channel 2 is out of range (2 Channels)');
+    expect(parseElementPath(' ', LEVELS)).toMatch(/^Enter a path/);
+  });
+
+  it('decodes addresses down to the last level', () => {
+    expect(resolveSearchTarget('0x440', XOR_LEVELS)).toEqual([3, 4, 0]);
+    expect(resolveSearchTarget('bk3/row4', XOR_LEVELS)).toEqual([3, 4]);
+    expect(resolveSearchTarget('0xzz', XOR_LEVELS)).toBe('Invalid address');
+    const windows = parseSystemMap([{ name: 'Low', systemBase: '0x0', size: '0x400', dramBase: '0x0' }]);
+    expect(resolveSearchTarget('0x800', XOR_LEVELS, windows)).toBe('0x800 is not backed by DRAM');
+  });
+});
@@ -0,0 +1,65 @@
+import { parseHexAddress, formatHexAddress } from './helpers';
+import { levelKey, mappingOf, type HierarchyLevel } from './hierarchy';
+import { decodeAddress } from './decode';
+import { systemToDram, type SystemWindow } from './systemMap';
+
+// --- Element Paths ---
+// Elements written as text, e.g. "ch1/rk0/bg1/bk2/row4000": one segment per level, outermost
+// first, each a level's short label or name followed by the ID. The search box and the `path`
+// URL parameter use this form.
+
+// "ch1/rk0": lower-case short labels, so the text is stable across sessions and easy to type.
+export function formatElementPath(levels: HierarchyLevel[], ids: number[]): string {
+  return ids.map((id, index) => `${levelKey(levels[index].shortLabel)}${id}`).join('/');
+}
+
+// The level a segment names at or below levels[from], and its ID; the longest label wins, so
+// "chip3" is a Chip even when a Channel is labelled "Ch".
+function matchSegment(levels: HierarchyLevel[], from: number, segment: string): { index: number; id: number } | null {
+  const text = segment.toLowerCase();
+  let best: { index: number; id: number; length: number } | null = null;
+  for (let index = from; index < levels.length; index++) {
+    for (const label of [levels[index].name, levels[index].shortLabel].map(levelKey)) {
+      const rest = text.slice(label.length);
+      if (!text.startsWith(label) || !/^\d+$/.test(rest) || (best && best.length >= label.length)) continue;
+      best = { index, id: Number(rest), length: label.length };
+    }
+  }
+  return best && { index: best.index, id: best.id };
+}
+
+// IDs from the outermost level down to the last level named. Segments are separated by '/',
+// '>' or spaces (so breadcrumb text such as "Channel1 > Rank0" works too); a level with a
+// single element may be left out.
+export function parseElementPath(text: string, levels: HierarchyLevel[]): number[] | string {
+  const segments = text.split(/[\s/>]+/).filter(Boolean);
+  if (segments.length === 0) return 'Enter a path such as ch0/bk1 or an address such as 0x1f40';
+  const ids: number[] = [];
+  for (const segment of segments) {
+    const match = matchSegment(levels, ids.length, segment);
+    if (!match) return `"${segment}" does not name a level below ${ids.length > 0 ? levels[ids.length - 1].name : 'System'}`;
+    for (let index = ids.length; index < match.index; index++) {
+      if (levels[index].count !== 1) return `${levels[index].name} is missing before "${segment}"`;
+      ids.push(0);
+    }
+    const level = levels[match.index];
+    if (match.id >= level.count) return `${level.name} ${match.id} is out of range (${level.count} ${level.name}s)`;
+    ids.push(match.id);
+  }
+  return ids;
+}
+
+// A search-box entry: a "0x" system address (decoded down to the last level) or an element path.
+export function resolveSearchTarget(text: string, levels: HierarchyLevel[], windows: SystemWindow[] = []): number[] | string {
+  const trimmed = text.trim();
+  if (!/^0x/i.test(trimmed)) return parseElementPath(trimmed, levels);
+  const address = parseHexAddress(trimmed);
+  if (address === null) return 'Invalid address';
+  const dramAddress = systemToDram(windows, address);
+  if (dramAddress === null) return `${formatHexAddress(address)} is not backed by DRAM`;
+  const decoded = decodeAddress(dramAddress, mappingOf(levels));
+  const ids = levels.map(level => decoded[levelKey(level.name)]);
+  const beyond = levels.findIndex((level, index) => ids[index] >= level.count);
+  if (beyond >= 0) return `${formatHexAddress(address)} decodes to ${levels[beyond].name} ${ids[beyond]}, beyond its ${levels[beyond].count} ${levels[beyond].name}s`;
+  return ids;
+}
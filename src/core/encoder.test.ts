@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { encodeHierarchyIds } from './encoder';
+import { decodeAddress } from './decode';
+import { xorLevels, XOR_LEVELS, XOR_MAPPING, XOR_CAPACITY } from './testMappings';
+
+const WHOLE = { start: 0n, end: XOR_CAPACITY - 1n };
+
+describe('encodeHierarchyIds', () => {
+  it('finds the unique address of a full ID tuple, and it decodes back', () => {
+    for (const [bank, row, column] of [[0, 0, 0], [3, 4, 0], [2, 15, 63], [1, 7, 17]]) {
+      const result = encodeHierarchyIds({ bank, row, column }, XOR_LEVELS, WHOLE, 4);
+      expect(result.ok).toBe(true);
+      if (!result.ok) continue;
+      expect(result.totalSolutions).toBe(1n);
+      expect(decodeAddress(result.addresses[0], XOR_MAPPING)).toMatchObject({ bank, row, column });
+    }
+  });
+
+  it('counts every address of a partially specified tuple and lists them in order', () => {
+    const result = encodeHierarchyIds({ bank: 2, row: null }, XOR_LEVELS, WHOLE, 3);
+    expect(result).toMatchObject({ ok: true, totalSolutions: 1024n, truncated: true });
+    if (!result.ok) return;
+    expect(result.addresses).toHaveLength(3);
+    expect([...result.addresses].sort((a, b) => (a < b ? -1 : 1))).toEqual(result.addresses);
+    result.addresses.forEach(address => expect(decodeAddress(address, XOR_MAPPING).bank).toBe(2));
+  });
+
+  it('restricts solutions to the scope', () => {
+    const result = encodeHierarchyIds({ bank: 1 }, XOR_LEVELS, { start: 0x800n, end: 0xfffn }, 1000);
+    expect(result.ok && result.totalSolutions).toBe(512n);
+    if (result.ok) result.addresses.forEach(address => expect(address >= 0x800n && address <= 0xfffn).toBe(true));
+  });
+
+  it('rejects IDs that do not exist', () => {
+    const result = encodeHierarchyIds({ bank: 4 }, XOR_LEVELS, WHOLE, 1);
+    expect(result).toEqual({ ok: false, message: 'Bank 4 does not exist (this level has 4 elements)' });
+  });
+
+  it('names the ID bit that makes a combination unreachable', () => {
+    const levels = xorLevels({ Bank: ['9', '7,10'] });
+    const result = encodeHierarchyIds({ bank: 1, row: 0 }, levels, WHOLE, 1);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.message).toMatch(/^Unreachable: Row1bit \(PA 9\)/);
+  });
+});
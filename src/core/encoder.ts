@@ -0,0 +1,68 @@
+import { parseNbitMappingToPositions } from './helpers';
+import { levelKey, type HierarchyLevel } from './hierarchy';
+import {
+  reduceEquations, countSolutionsInRange, enumerateSolutionsInRange, maskFromBits, type Gf2Equation,
+} from './gf2';
+
+// --- Reverse Encoder: hierarchy IDs -> physical address ---
+// Every ID bit of every level is the XOR of the PA bits listed in its Nbit field, so a
+// requested ID tuple is a system of linear equations over GF(2) in the address bits.
+
+export interface EncodeScope { start: bigint; end: bigint; }
+
+export type EncodeResult =
+  | { ok: true; totalSolutions: bigint; addresses: bigint[]; truncated: boolean }
+  | { ok: false; message: string };
+
+// Keyed by level key; a blank (null) ID leaves that level unconstrained.
+export type HierarchyIdRequest = Record<string, number | null>;
+
+interface LabelledEquation extends Gf2Equation { label: string; }
+
+function buildEquations(ids: HierarchyIdRequest, levels: HierarchyLevel[]): LabelledEquation[] | string {
+  const equations: LabelledEquation[] = [];
+  for (const level of levels) {
+    const id = ids[levelKey(level.name)];
+    if (id === null || id === undefined) continue;
+    if (!Number.isInteger(id) || id < 0 || id >= Math.max(level.count, 1)) {
+      return `${level.name} ${id} does not exist (this level has ${level.count} elements)`;
+    }
+    for (let index = 0; index < level.nbits.length; index++) {
+      const text = level.nbits[index];
+      const positions = text.trim() ? parseNbitMappingToPositions(text) : [];
+      if (positions === null) return `${level.name}${index}bit has an invalid mapping "${text}"`;
+      equations.push({
+        mask: maskFromBits(positions),
+        value: (id >> index) & 1,
+        label: `${level.name}${index}bit${positions.length > 0 ? ` (PA ${positions.join('^')})` : ' (unmapped)'}`,
+      });
+    }
+  }
+  return equations;
+}
+
+export function encodeHierarchyIds(
+  ids: HierarchyIdRequest,
+  levels: HierarchyLevel[],
+  scope: EncodeScope,
+  maxListed: number
+): EncodeResult {
+  const equations = buildEquations(ids, levels);
+  if (typeof equations === 'string') return { ok: false, message: equations };
+
+  const { system, inconsistentIndex } = reduceEquations(equations);
+  if (inconsistentIndex >= 0) {
+    return { ok: false, message: `Unreachable: ${equations[inconsistentIndex].label} cannot take the requested value given the other ID bits.` };
+  }
+
+  const totalSolutions = countSolutionsInRange(system, scope.start, scope.end);
+  if (totalSolutions === 0n) {
+    return { ok: false, message: 'The mapping can produce these IDs, but no such address lies within the selected range.' };
+  }
+  const addresses: bigint[] = [];
+  for (const address of enumerateSolutionsInRange(system, scope.start, scope.end)) {
+    if (addresses.length >= maxListed) break;
+    addresses.push(address);
+  }
+  return { ok: true, totalSolutions, addresses, truncated: totalSolutions > BigInt(addresses.length) };
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parity, lowestSetBit, maskFromBits, bitsFromMask, rankOf, reduceEquations, countSolutionsInRange, enumerateSolutionsInRange,
+} from './gf2';
+
+describe('bit helpers', () => {
+  it('compute parity, lowest bit and mask conversions', () => {
+    expect(parity(0b1011n)).toBe(1);
+    expect(parity(1n << 70n | 1n)).toBe(0);
+    expect(lowestSetBit(0n)).toBe(-1);
+    expect(lowestSetBit(0b101000n)).toBe(3);
+    expect(maskFromBits([3, 5, 3])).toBe(1n << 5n);
+    expect(bitsFromMask(maskFromBits([0, 7, 63]))).toEqual([0, 7, 63]);
+  });
+
+  it('computes the rank of XOR functions', () => {
+    expect(rankOf([0b011n, 0b110n, 0b101n])).toBe(2);
+    expect(rankOf([0b001n, 0b010n, 0b100n])).toBe(3);
+  });
+});
+
+describe('reduceEquations', () => {
+  it('reports the first contradicting and every redundant equation', () => {
+    const result = reduceEquations([
+      { mask: 0b011n, value: 1 },
+      { mask: 0b110n, value: 0 },
+      { mask: 0b101n, value: 1 },
+      { mask: 0b101n, value: 0 },
+    ]);
+    expect(result.dependentIndices).toEqual([2]);
+    expect(result.inconsistentIndex).toBe(3);
+  });
+});
+
+describe('solution counting and enumeration', () => {
+  const equations = [{ mask: maskFromBits([2, 5]), value: 1 }, { mask: maskFromBits([0, 3, 6]), value: 0 }];
+  const satisfies = (x: bigint) => equations.every(eq => parity(eq.mask & x) === eq.value);
+
+  it('agree with brute force on arbitrary ranges', () => {
+    const { system } = reduceEquations(equations);
+    for (const [lo, hi] of [[0n, 127n], [5n, 100n], [37n, 37n], [64n, 200n], [10n, 9n]]) {
+      const expected: bigint[] = [];
+      for (let x = lo; x <= hi; x++) if (satisfies(x)) expected.push(x);
+      expect(countSolutionsInRange(system, lo, hi)).toBe(BigInt(expected.length));
+      expect([...enumerateSolutionsInRange(system, lo, hi)]).toEqual(expected);
+    }
+  });
+
+  it('counts huge ranges without enumerating them', () => {
+    const { system } = reduceEquations(equations);
+    expect(countSolutionsInRange(system, 0n, (1n << 64n) - 1n)).toBe(1n << 62n);
+  });
+});
@@ -0,0 +1,164 @@
+// --- GF(2) Linear Algebra over Physical Address Bits ---
+// A linear function of the address is a bit mask over PA bit positions: its value is
+// the parity (XOR) of the address bits selected by the mask. An equation fixes that
+// parity to 0 or 1, which is exactly what one Nbit field plus a target ID bit means.
+export interface Gf2Equation { mask: bigint; value: number; }
+
+// Reduced row echelon form where each row's pivot is its LOWEST set bit. Every other bit
+// of a row is a free (non-pivot) bit above the pivot, so walking an address from the
+// most significant bit down, each pivot bit is already determined when it is reached.
+export interface PivotRow { bit: number; mask: bigint; value: number; }
+
+export interface AffineSystem {
+  rows: PivotRow[];
+  pivotMask: bigint;
+}
+
+export interface ReductionResult {
+  system: AffineSystem;
+  // Index of the first equation that contradicted the ones before it, or -1.
+  inconsistentIndex: number;
+  // Indices of equations that were linear combinations of earlier ones.
+  dependentIndices: number[];
+}
+
+export function parity(value: bigint): number {
+  let bits = value;
+  let result = 0;
+  while (bits > 0n) {
+    result ^= 1;
+    bits &= bits - 1n;
+  }
+  return result;
+}
+
+export function lowestSetBit(value: bigint): number {
+  if (value === 0n) return -1;
+  return (value & -value).toString(2).length - 1;
+}
+
+export function maskFromBits(bits: number[]): bigint {
+  return bits.reduce((mask, bit) => mask ^ (1n << BigInt(bit)), 0n);
+}
+
+export function bitsFromMask(mask: bigint): number[] {
+  const bits: number[] = [];
+  for (let bit = 0, rest = mask; rest > 0n; bit++, rest >>= 1n) {
+    if (rest & 1n) bits.push(bit);
+  }
+  return bits;
+}
+
+export function reduceEquations(equations: Gf2Equation[]): ReductionResult {
+  const rows: PivotRow[] = [];
+  const dependentIndices: number[] = [];
+  let inconsistentIndex = -1;
+
+  equations.forEach((equation, index) => {
+    let mask = equation.mask;
+    let value = equation.value & 1;
+    for (const row of rows) {
+      if ((mask >> BigInt(row.bit)) & 1n) {
+        mask ^= row.mask | (1n << BigInt(row.bit));
+        value ^= row.value;
+      }
+    }
+    if (mask === 0n) {
+      if (value === 1 && inconsistentIndex < 0) inconsistentIndex = index;
+      else dependentIndices.push(index);
+      return;
+    }
+    const bit = lowestSetBit(mask);
+    const pivotBit = 1n << BigInt(bit);
+    const newRow: PivotRow = { bit, mask: mask ^ pivotBit, value };
+    // Keep the form fully reduced: no row may mention another row's pivot.
+    for (const row of rows) {
+      if (row.mask & pivotBit) {
+        row.mask ^= newRow.mask | pivotBit;
+        row.value ^= newRow.value;
+      }
+    }
+    rows.push(newRow);
+  });
+
+  rows.sort((a, b) => a.bit - b.bit);
+  const pivotMask = rows.reduce((mask, row) => mask | (1n << BigInt(row.bit)), 0n);
+  return { system: { rows, pivotMask }, inconsistentIndex, dependentIndices };
+}
+
+export function rankOf(masks: bigint[]): number {
+  return reduceEquations(masks.map(mask => ({ mask, value: 0 }))).system.rows.length;
+}
+
+function highestBit(value: bigint): number {
+  return value.toString(2).length - 1;
+}
+
+function topBitOf(system: AffineSystem, hi: bigint): number {
+  return system.rows.reduce((top, row) => Math.max(top, row.bit, highestBit(row.mask)), highestBit(hi));
+}
+
+// Value that pivot `row` must take, given the (already chosen) higher address bits.
+function forcedPivotValue(row: PivotRow, higherBits: bigint): number {
+  return row.value ^ parity(row.mask & higherBits);
+}
+
+function freeBitsBelow(system: AffineSystem, bit: number): number {
+  let count = 0;
+  for (let b = 0; b < bit; b++) {
+    if (!((system.pivotMask >> BigInt(b)) & 1n)) count++;
+  }
+  return count;
+}
+
+// Number of addresses x with lo <= x <= hi that satisfy the system.
+export function countSolutionsInRange(system: AffineSystem, lo: bigint, hi: bigint): bigint {
+  if (hi < lo || hi < 0n) return 0n;
+  const countUpTo = (limit: bigint): bigint => (limit < 0n ? 0n : countSolutionsUpTo(system, limit));
+  return countUpTo(hi) - countUpTo(lo - 1n);
+}
+
+function countSolutionsUpTo(system: AffineSystem, limit: bigint): bigint {
+  const rowsByBit = new Map(system.rows.map(row => [row.bit, row]));
+  let total = 0n;
+  let prefix = 0n;
+  for (let bit = topBitOf(system, limit); bit >= 0; bit--) {
+    const bitMask = 1n << BigInt(bit);
+    const limitBit = (limit & bitMask) !== 0n;
+    const row = rowsByBit.get(bit);
+    const below = BigInt(freeBitsBelow(system, bit));
+    if (row) {
+      const forced = forcedPivotValue(row, prefix) === 1;
+      if (forced && !limitBit) return total;
+      if (!forced && limitBit) return total + (1n << below);
+      if (forced) prefix |= bitMask;
+    } else if (limitBit) {
+      total += 1n << below;
+      prefix |= bitMask;
+    }
+  }
+  return total + 1n;
+}
+
+// Yields the solutions within [lo, hi] in ascending order. The generator is lazy, so
+// callers can take the first few solutions of an astronomically large set.
+export function* enumerateSolutionsInRange(system: AffineSystem, lo: bigint, hi: bigint): Generator<bigint> {
+  if (hi < lo || hi < 0n) return;
+  const rowsByBit = new Map(system.rows.map(row => [row.bit, row]));
+
+  function* walk(bit: number, prefix: bigint, tightLo: boolean, tightHi: boolean): Generator<bigint> {
+    if (bit < 0) { yield prefix; return; }
+    const bitMask = 1n << BigInt(bit);
+    const loBit = (lo & bitMask) !== 0n;
+    const hiBit = (hi & bitMask) !== 0n;
+    const row = rowsByBit.get(bit);
+    const candidates = row ? [forcedPivotValue(row, prefix) === 1] : [false, true];
+    for (const set of candidates) {
+      if (tightLo && !set && loBit) continue;
+      if (tightHi && set && !hiBit) continue;
+      yield* walk(bit - 1, set ? prefix | bitMask : prefix, tightLo && set === loBit, tightHi && set === hiBit);
+    }
+  }
+
+  yield* walk(topBitOf(system, hi), 0n, true, true);
+}
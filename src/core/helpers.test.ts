@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBit, getAddressBitsForBytes, parseUnitBasedSizeToBytes, parseHexAddress, parseHexDataSizeToBytes,
+  parseSizeInputToAddressBits, parseNbitMappingToPositions, toggleNbitPosition, formatBytes, formatHexAddress,
+} from './helpers';
+
+describe('getBit', () => {
+  it('returns the ID width needed for a level size', () => {
+    expect([0, 1, 2, 3, 4, 5, 8, 1024, 1025].map(getBit)).toEqual([0, 0, 1, 2, 2, 3, 3, 10, 11]);
+  });
+});
+
+describe('getAddressBitsForBytes', () => {
+  it('counts the address bits spanned by a capacity', () => {
+    expect(getAddressBitsForBytes(1n)).toBe(0);
+    expect(getAddressBitsForBytes(4096n)).toBe(12);
+    expect(getAddressBitsForBytes(4097n)).toBe(13);
+    expect(getAddressBitsForBytes(1n << 40n)).toBe(40);
+  });
+});
+
+describe('parseUnitBasedSizeToBytes', () => {
+  it('parses binary prefixes exactly', () => {
+    expect(parseUnitBasedSizeToBytes('2GB')).toBe(2n << 30n);
+    expect(parseUnitBasedSizeToBytes('512m')).toBe(512n << 20n);
+    expect(parseUnitBasedSizeToBytes('1TB')).toBe(1n << 40n);
+    expect(parseUnitBasedSizeToBytes('4096')).toBe(4096n);
+    expect(parseUnitBasedSizeToBytes(' 1.5K ')).toBe(1536n);
+  });
+
+  it('rejects malformed or fractional-byte sizes with a message', () => {
+    expect(typeof parseUnitBasedSizeToBytes('')).toBe('string');
+    expect(typeof parseUnitBasedSizeToBytes('two gigs')).toBe('string');
+    expect(parseUnitBasedSizeToBytes('0.3B')).toBe('Size must be a whole number of bytes');
+    expect(typeof parseUnitBasedSizeToBytes('0GB')).toBe('string');
+  });
+});
+
+describe('parseSizeInputToAddressBits', () => {
+  it('combines size parsing with the bit count', () => {
+    expect(parseSizeInputToAddressBits('8GB')).toBe(33);
+    expect(typeof parseSizeInputToAddressBits('x')).toBe('string');
+  });
+});
+
+describe('parseHexAddress', () => {
+  it('accepts an optional 0x prefix, either case and underscores', () => {
+    expect(parseHexAddress('0x1f40')).toBe(0x1f40n);
+    expect(parseHexAddress('1F40')).toBe(0x1f40n);
+    expect(parseHexAddress('0xffff_ffff_ffff_ffff')).toBe((1n << 64n) - 1n);
+  });
+
+  it('returns null for anything that is not hex', () => {
+    expect(parseHexAddress('')).toBeNull();
+    expect(parseHexAddress('0x')).toBeNull();
+    expect(parseHexAddress('0x12g4')).toBeNull();
+  });
+});
+
+describe('parseHexDataSizeToBytes', () => {
+  it('requires a positive hex byte count', () => {
+    expect(parseHexDataSizeToBytes('0x1000')).toBe(4096n);
+    expect(typeof parseHexDataSizeToBytes('0')).toBe('string');
+    expect(typeof parseHexDataSizeToBytes('')).toBe('string');
+  });
+});
+
+describe('Nbit fields', () => {
+  it('parses direct and XOR fields', () => {
+    expect(parseNbitMappingToPositions('5')).toEqual([5]);
+    expect(parseNbitMappingToPositions('6, 14,22')).toEqual([6, 14, 22]);
+    expect(parseNbitMappingToPositions('')).toBeNull();
+    expect(parseNbitMappingToPositions('6,x')).toBeNull();
+  });
+
+  it('toggles a position without touching other tokens', () => {
+    expect(toggleNbitPosition('', 5)).toBe('5');
+    expect(toggleNbitPosition('6,14', 22)).toBe('6,14,22');
+    expect(toggleNbitPosition('6, 14, 22', 14)).toBe('6,22');
+    expect(toggleNbitPosition('6,x', 6)).toBe('x');
+  });
+});
+
+describe('formatting', () => {
+  it('uses the largest exact unit', () => {
+    expect(formatBytes(1536n)).toBe('1,536 B');
+    expect(formatBytes(2n << 30n)).toBe('2 GB');
+    expect(formatHexAddress(0x1f40n)).toBe('0x1f40');
+  });
+});
@@ -0,0 +1,108 @@
+// --- Helper Functions ---
+export function getBit(value: number): number {
+  if (value <= 0) return 0;
+  if (value === 1) return 0;
+  return Math.floor(Math.log2(value - 1)) + 1;
+}
+
+export function getAddressBitsForBytes(bytes: bigint): number {
+  if (bytes <= 1n) return 0;
+  return (bytes - 1n).toString(2).length;
+}
+
+const SIZE_PREFIX_SHIFT: Record<string, bigint> = { '': 0n, K: 10n, M: 20n, G: 30n, T: 40n };
+
+// Sizes are exact byte counts, so the parser works on the decimal digits instead of
+// parseFloat (which cannot represent every byte of a multi-terabyte size).
+export function parseUnitBasedSizeToBytes(sizeStr: string): bigint | string {
+  if (!sizeStr.trim()) { return "Input is empty"; }
+  const cleanedStr = sizeStr.trim().toUpperCase();
+  const sizePattern = /^(\d+)(?:\.(\d+))?\s*([KMGT])?([B])?$/;
+  const match = cleanedStr.match(sizePattern);
+  if (!match) { return "Invalid format. Example: 2GB, 512M, 1024KB, 1TB, 2048B, or 4096 (Bytes)"; }
+  const integerPart = match[1];
+  const fractionPart = match[2] || '';
+  const prefix = match[3] || '';
+  const unitChar = match[4] || '';
+  const shift = SIZE_PREFIX_SHIFT[prefix];
+  if (shift === undefined) return `Unknown prefix: ${prefix}`;
+  if (unitChar !== 'B' && unitChar !== '') return `Invalid unit character: ${unitChar}`;
+  const scale = 10n ** BigInt(fractionPart.length);
+  const scaledBytes = BigInt(integerPart + fractionPart) << shift;
+  if (scaledBytes % scale !== 0n) { return "Size must be a whole number of bytes"; }
+  const bytes = scaledBytes / scale;
+  if (bytes <= 0n) { return "Cannot convert to a valid byte count (must be greater than 0)"; }
+  return bytes;
+}
+
+export function parseHexAddress(addressStr: string): bigint | null {
+  const cleanedStr = addressStr.trim().toLowerCase().replace(/^0x/, '').replace(/_/g, '');
+  if (!/^[0-9a-f]+$/.test(cleanedStr)) return null;
+  return BigInt(`0x${cleanedStr}`);
+}
+
+export function parseHexDataSizeToBytes(sizeStr: string): bigint | string {
+  if (!sizeStr.trim()) { return "Size input is empty"; }
+  const sizeBytes = parseHexAddress(sizeStr);
+  if (sizeBytes === null) {
+    return "Invalid hexadecimal size. Expected e.g., 0x1000 or 1000 (hex bytes).";
+  }
+  if (sizeBytes <= 0n) {
+    return "Invalid byte count from hex. Value must be a positive number.";
+  }
+  return sizeBytes;
+}
+
+export function parseSizeInputToAddressBits(sizeStr: string): number | string {
+    const bytes = parseUnitBasedSizeToBytes(sizeStr);
+    if (typeof bytes === 'string') return bytes;
+    return getAddressBitsForBytes(bytes);
+}
+
+export function getBitValueFromAddress(address: bigint, bitPosition: number): number {
+  if (isNaN(bitPosition) || bitPosition < 0) return 0;
+  return Number((address >> BigInt(bitPosition)) & 1n);
+}
+
+// The size in the largest unit that divides it.
+function inLargestUnit(bytes: bigint): { value: bigint; unit: string } {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let unitIndex = 0;
+  let value = bytes;
+  while (unitIndex < units.length - 1 && value >= 1024n && value % 1024n === 0n) { value /= 1024n; unitIndex++; }
+  return { value, unit: units[unitIndex] };
+}
+
+export function formatBytes(bytes: bigint): string {
+  const { value, unit } = inLargestUnit(bytes);
+  return `${value.toLocaleString()} ${unit}`;
+}
+
+// Sizes as parseUnitBasedSizeToBytes reads them, e.g. "17GB".
+export function formatCapacity(bytes: bigint): string {
+  const { value, unit } = inLargestUnit(bytes);
+  return `${value}${unit}`;
+}
+
+export function formatHexAddress(address: bigint): string {
+  return `0x${address.toString(16)}`;
+}
+
+export function parseNbitMappingToPositions(mappingStr: string): number[] | null {
+  if (!mappingStr || !mappingStr.trim()) return null;
+  const positions = mappingStr.split(',').map(s => parseInt(s.trim(), 10));
+  if (positions.some(isNaN)) return null;
+  return positions;
+}
+
+// Adds `position` to a comma-separated Nbit field, or removes it if already listed. Other
+// tokens are kept verbatim so a half-typed field is not rewritten.
+export function toggleNbitPosition(mappingStr: string, position: number): string {
+  const tokens = mappingStr.split(',').map(token => token.trim()).filter(token => token !== '');
+  const remaining = tokens.filter(token => parseInt(token, 10) !== position || !/^\d+$/.test(token));
+  return (remaining.length === tokens.length ? [...tokens, String(position)] : remaining).join(',');
+}
+
+// Nbit mapping strings per hierarchy level, keyed by the lower-case level name (see levelKey),
+// in hierarchy order.
+export type NbitMappingConfig = Record<string, string[]>;
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHierarchy, createLevel, insertLevel, levelNameError, resizeLevel, splitRowBufferLevels, totalIdBits,
+  DEFAULT_HIERARCHY,
+} from './hierarchy';
+import { XOR_LEVELS } from './testMappings';
+
+const names = (levels: { name: string }[]) => levels.map(level => level.name);
+
+describe('hierarchy levels', () => {
+  it('keeps the fields that still fit when a count changes', () => {
+    const row = XOR_LEVELS[1];
+    expect(resizeLevel(row, 4).nbits).toEqual(['8', '9']);
+    expect(resizeLevel(row, 64).nbits).toEqual(['8', '9', '10', '11', '', '']);
+    expect(totalIdBits(XOR_LEVELS)).toBe(12);
+  });
+
+  it('inserts template levels at their usual position and custom levels last', () => {
+    const custom = createLevel({ name: 'Tile', shortLabel: 'T', layout: 'grid' }, 2);
+    const withGroups = insertLevel(XOR_LEVELS, createLevel({ name: 'BankGroup', shortLabel: 'BG', layout: 'grid' }, 4));
+    expect(names(withGroups)).toEqual(['BankGroup', 'Bank', 'Row', 'Column']);
+    expect(names(insertLevel(withGroups, custom))).toEqual(['BankGroup', 'Bank', 'Row', 'Column', 'Tile']);
+  });
+
+  it('rejects malformed and duplicate names, keeping the first of two', () => {
+    const levels = buildHierarchy(['Bank', 'bank', 'Row'], {});
+    expect(levelNameError(levels, 0)).toBeNull();
+    expect(levelNameError(levels, 1)).toBe('Duplicate level name "bank"');
+    expect(levelNameError([{ ...levels[2], name: '2x' }], 0)).toMatch(/^Must start with a letter/);
+  });
+
+  it('splits banks from rows for the row-buffer model', () => {
+    expect(splitRowBufferLevels(DEFAULT_HIERARCHY)).toMatchObject({
+      bankLevels: ['Channel', 'Rank', 'BankGroup', 'Bank'].map(name => ({ name })),
+      rowLevels: [{ name: 'Subarray' }, { name: 'Row' }],
+    });
+    const split = splitRowBufferLevels(buildHierarchy(['Bank', 'Page', 'Line'], {}));
+    expect([names(split.bankLevels), names(split.rowLevels)]).toEqual([['Bank'], ['Page']]);
+  });
+});
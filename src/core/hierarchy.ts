@@ -0,0 +1,134 @@
+import { getBit, type NbitMappingConfig } from './helpers';
+
+// --- Hierarchy Levels ---
+// The DRAM hierarchy is an ordered list of levels, outermost first. Everything that walks
+// the hierarchy (drill-down, decode, encode, validation, consistency check) follows this
+// list, so levels can be reordered, renamed, added or removed as data.
+
+// How the visualizer draws the elements of a level: labelled tiles, a scrolling list, or
+// small pixels for levels with thousands of elements.
+export type LevelLayout = 'grid' | 'list' | 'pixel';
+export const LEVEL_LAYOUTS: LevelLayout[] = ['grid', 'list', 'pixel'];
+
+export interface HierarchyLevel {
+  // Unique (case-insensitively) within a hierarchy; its lower-case form keys the Nbit fields.
+  name: string;
+  // Prefix of element labels, e.g. "BG" for BG3.
+  shortLabel: string;
+  count: number;
+  // One PA bit list per ID bit; always getBit(count) entries.
+  nbits: string[];
+  layout: LevelLayout;
+}
+
+export type LevelTemplate = Pick<HierarchyLevel, 'name' | 'shortLabel' | 'layout'>;
+
+// Levels that can be added from the editor besides a fully custom one.
+export const LEVEL_TEMPLATES: LevelTemplate[] = [
+  { name: 'DIMM', shortLabel: 'DIMM', layout: 'grid' },
+  { name: 'Channel', shortLabel: 'Ch', layout: 'grid' },
+  { name: 'SubChannel', shortLabel: 'SC', layout: 'grid' },
+  { name: 'Stack', shortLabel: 'St', layout: 'grid' },
+  { name: 'PseudoChannel', shortLabel: 'PC', layout: 'grid' },
+  { name: 'Rank', shortLabel: 'Rk', layout: 'grid' },
+  { name: 'Chip', shortLabel: 'Chip', layout: 'grid' },
+  { name: 'BankGroup', shortLabel: 'BG', layout: 'grid' },
+  { name: 'Bank', shortLabel: 'Bk', layout: 'grid' },
+  { name: 'Subarray', shortLabel: 'SA', layout: 'grid' },
+  { name: 'Row', shortLabel: 'Row', layout: 'list' },
+  { name: 'Column', shortLabel: 'Col', layout: 'pixel' },
+];
+
+export const LEVEL_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export function levelKey(name: string): string {
+  return name.toLowerCase();
+}
+
+// Why the name of levels[index] is not usable, or null. Only earlier levels count as
+// duplicates, so the first of two equal names stays valid.
+export function levelNameError(levels: HierarchyLevel[], index: number): string | null {
+  const name = levels[index].name;
+  if (!LEVEL_NAME_PATTERN.test(name)) return 'Must start with a letter and contain only letters, digits and _';
+  if (levels.slice(0, index).some(level => levelKey(level.name) === levelKey(name))) return `Duplicate level name "${name}"`;
+  return null;
+}
+
+export function createLevel(template: LevelTemplate, count: number): HierarchyLevel {
+  return { ...template, count, nbits: Array.from({ length: getBit(count) }, () => '') };
+}
+
+function templateFor(name: string): LevelTemplate {
+  return LEVEL_TEMPLATES.find(template => template.name === name) ?? { name, shortLabel: name.slice(0, 2), layout: 'grid' };
+}
+
+// DDR4/DDR5 order: bank groups contain banks.
+export const DEFAULT_HIERARCHY: HierarchyLevel[] = [
+  createLevel(templateFor('Channel'), 1),
+  createLevel(templateFor('Rank'), 1),
+  createLevel(templateFor('BankGroup'), 2),
+  createLevel(templateFor('Bank'), 4),
+  createLevel(templateFor('Subarray'), 8),
+  createLevel(templateFor('Row'), 16),
+  createLevel(templateFor('Column'), 32),
+];
+
+// Builds levels in the given order from name -> [count, nbits]; used for fixed layouts
+// such as presets and version 1 configs.
+export function buildHierarchy(names: string[], levels: Record<string, [number, string[]]>): HierarchyLevel[] {
+  return names.map(name => {
+    const [count, nbits] = levels[name] ?? [1, []];
+    return { ...templateFor(name), count, nbits };
+  });
+}
+
+// Changing the count changes the ID width; existing fields are kept where they still fit.
+export function resizeLevel(level: HierarchyLevel, count: number): HierarchyLevel {
+  const nbits = Array.from({ length: getBit(count) }, (_, index) => level.nbits[index] ?? '');
+  return { ...level, count, nbits };
+}
+
+// A template level goes where LEVEL_TEMPLATES puts it relative to the levels already
+// present (e.g. a new BankGroup lands above Bank); a custom level goes to the end.
+export function insertLevel(levels: HierarchyLevel[], level: HierarchyLevel): HierarchyLevel[] {
+  const rank = (name: string) => LEVEL_TEMPLATES.findIndex(template => levelKey(template.name) === levelKey(name));
+  const newRank = rank(level.name);
+  const before = newRank < 0 ? -1 : levels.findIndex(existing => rank(existing.name) > newRank);
+  const index = before < 0 ? levels.length : before;
+  return [...levels.slice(0, index), level, ...levels.slice(index)];
+}
+
+export function findLevel(levels: HierarchyLevel[], name: string): HierarchyLevel | undefined {
+  return levels.find(level => levelKey(level.name) === levelKey(name));
+}
+
+export function mappingOf(levels: HierarchyLevel[]): NbitMappingConfig {
+  return Object.fromEntries(levels.map(level => [levelKey(level.name), level.nbits]));
+}
+
+export function countsOf(levels: HierarchyLevel[]): Record<string, number> {
+  return Object.fromEntries(levels.map(level => [level.name, level.count]));
+}
+
+export function totalIdBits(levels: HierarchyLevel[]): number {
+  return levels.reduce((sum, level) => sum + getBit(level.count), 0);
+}
+
+// Compact label of one element per level, e.g. "Ch0/BG1/Bk3".
+export function elementLabel(levels: HierarchyLevel[], ids: number[]): string {
+  return levels.map((level, index) => `${level.shortLabel}${ids[index]}`).join('/');
+}
+
+// For row-buffer purposes a bank is identified by every level above the row except the
+// subarray, and a row by the subarray and row IDs. Without a level named Row, the second
+// to last level is taken as the row.
+export function splitRowBufferLevels(levels: HierarchyLevel[]): { bankLevels: HierarchyLevel[]; rowLevels: HierarchyLevel[] } {
+  const named = levels.findIndex(level => levelKey(level.name) === 'row');
+  const rowIndex = named >= 0 ? named : Math.max(levels.length - 2, 0);
+  const above = levels.slice(0, rowIndex);
+  const isSubarray = (level: HierarchyLevel) => levelKey(level.name) === 'subarray';
+  return {
+    bankLevels: above.filter(level => !isSubarray(level)),
+    rowLevels: [...above.filter(isSubarray), ...levels.slice(rowIndex, rowIndex + 1)],
+  };
+}
@@ -0,0 +1,67 @@
+import { getBit, parseNbitMappingToPositions } from './helpers';
+import type { HierarchyLevel } from './hierarchy';
+import { maskFromBits, parity } from './gf2';
+import type { AddressRange } from './addressSet';
+
+// --- ID Images of Address Ranges ---
+// Which ID combinations of a group of levels does an address range reach? The combined ID
+// ("key") is linear in the address, so an aligned block of 2^k addresses reaches exactly the
+// key of its first address plus the span of the key columns of its k low address bits. Any
+// range splits into few such blocks, so this is cheap even for ranges of many gigabytes.
+
+// PA bit mask of each key bit. Key bit 0 is the lowest ID bit of the last level, so the
+// first level ends up in the high bits.
+export function idBitMasks(levels: HierarchyLevel[]): bigint[] {
+  return [...levels].reverse().flatMap(level =>
+    Array.from({ length: getBit(level.count) }, (_, index) => maskFromBits(parseNbitMappingToPositions(level.nbits[index] ?? '') ?? [])));
+}
+
+// Splits a key back into one ID per level, in level order.
+export function splitKey(levels: HierarchyLevel[], key: number): number[] {
+  const ids: number[] = [];
+  let rest = key;
+  for (let index = levels.length - 1; index >= 0; index--) {
+    const size = 2 ** getBit(levels[index].count);
+    ids.unshift(rest % size);
+    rest = Math.floor(rest / size);
+  }
+  return ids;
+}
+
+export function keyOfAddress(masks: bigint[], address: bigint): number {
+  return masks.reduce((key, mask, bit) => key | (parity(mask & address) << bit), 0);
+}
+
+// Marks the keys reached by the aligned block [start, start + 2^size). Returns true when the
+// block reaches every key, in which case all of `owners` has been marked.
+function markBlock(owners: Uint32Array, masks: bigint[], start: bigint, size: number, toIndex: (key: number) => number, ownerBit: number): boolean {
+  const basis: number[] = [];
+  for (let paBit = 0; paBit < size; paBit++) {
+    let vector = masks.reduce((key, mask, bit) => key | (Number((mask >> BigInt(paBit)) & 1n) << bit), 0);
+    for (const row of basis) if ((vector ^ row) < vector) vector ^= row;
+    if (vector !== 0) basis.push(vector);
+    basis.sort((a, b) => b - a);
+  }
+  if (basis.length === masks.length) { owners.forEach((owner, index) => { owners[index] = owner | ownerBit; }); return true; }
+  let key = keyOfAddress(masks, start);
+  owners[toIndex(key)] |= ownerBit;
+  for (let step = 1; step < 2 ** basis.length; step++) {
+    key ^= basis[31 - Math.clz32(step & -step)];
+    owners[toIndex(key)] |= ownerBit;
+  }
+  return false;
+}
+
+// ORs `ownerBit` into owners[toIndex(key)] for every key some address of `ranges` decodes to.
+// `owners` holds one entry per key (2^masks.length).
+export function markRangeKeys(owners: Uint32Array, masks: bigint[], ranges: AddressRange[], ownerBit: number, toIndex: (key: number) => number = key => key): void {
+  for (const range of ranges) {
+    // Split the range into aligned power-of-two blocks, largest possible first.
+    for (let start = range.start; start <= range.end;) {
+      let size = 0;
+      while (start % (2n << BigInt(size)) === 0n && start + (2n << BigInt(size)) - 1n <= range.end) size++;
+      if (markBlock(owners, masks, start, size, toIndex, ownerBit)) return;
+      start += 1n << BigInt(size);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// --- DRAM address-mapping core ---
+// Framework-free: nothing here depends on React, the DOM or Node, so the web UI and the
+// dram-map CLI share one implementation.
+
+// Parsing and sizes.
+export * from './helpers';
+// The ordered, editable list of hierarchy levels.
+export * from './hierarchy';
+// Saved configurations: schema, validation, share links.
+export * from './config';
+// VM memory as contiguous ranges or page frames, and reserved holes.
+export * from './vmMemory';
+// /proc/iomem, e820, UEFI and pagemap dumps as VMs and reserved regions.
+export * from './memoryMapImport';
+// System addresses -> DRAM addresses across holes and remapped windows.
+export * from './systemMap';
+// PA -> hierarchy IDs.
+export * from './decode';
+// Many pasted addresses at once, with same-bank row conflicts.
+export * from './batchDecode';
+// Elements as text paths (ch1/rk0/bk2), for search and URLs.
+export * from './elementPath';
+// Hierarchy IDs -> PAs.
+export * from './encoder';
+// Exact address sets (ranges) of hierarchy elements.
+export * from './addressSet';
+// Mapping checks (rank, duplicates, ranges, dependencies).
+export * from './validation';
+export * from './gf2';
+export * from './trace';
+export * from './compare';
+export * from './rowBufferSim';
+// Physically adjacent rows and the VMs that own them.
+export * from './rowHammer';
+// Bytes each VM maps into each element, and how evenly.
+export * from './usageStats';
+// The drill-down view as SVG, and analysis reports as CSV or Markdown.
+export * from './viewExport';
+export * from './report';
+// Which ID combinations address ranges reach.
+export * from './idImage';
+// Page colors and VM placements that keep VMs out of each other's banks or channels.
+export * from './pagePlanner';
+// ID bits fixed and varying within 4 KB, 2 MB and 1 GB pages, and misaligned VMs.
+export * from './pageAlignment';
+// Bank, rank and channel XOR functions from conflict-timing measurements.
+export * from './mappingInference';
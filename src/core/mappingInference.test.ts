@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimingData, splitLatencies, inferBankFunctions, assignInferredFunctions, type TimingData } from './mappingInference';
+import { buildHierarchy, DEFAULT_HIERARCHY } from './hierarchy';
+import coffeeLakePairs from '../samples/coffee-lake-pairs.csv?raw';
+import skylakeSets from '../samples/skylake-sets.txt?raw';
+
+function inferFrom(text: string) {
+  const parsed = parseTimingData(text);
+  if (typeof parsed === 'string') throw new Error(parsed);
+  const inference = inferBankFunctions(parsed.data);
+  if (typeof inference === 'string') throw new Error(inference);
+  return inference;
+}
+
+describe('parseTimingData', () => {
+  it('reads timed pairs with a header', () => {
+    const parsed = parseTimingData('# tool output\naddress_a,address_b,cycles\n0x1000,0x2000,231\n0x1000 0x3000 340.5\nbroken line\n1000;4000;236');
+    expect(parsed).toEqual({
+      data: { kind: 'pairs', pairs: [{ a: 0x1000n, b: 0x2000n, latency: 231 }, { a: 0x1000n, b: 0x3000n, latency: 340.5 }, { a: 0x1000n, b: 0x4000n, latency: 236 }] },
+      skippedLines: 1,
+    });
+  });
+
+  it('reads same-bank sets separated by blank lines or comments', () => {
+    const parsed = parseTimingData('0x40\n0x80, 0xc0\n\n# bank 1\n100\n200\n# bank 2\nzz');
+    expect(parsed).toEqual({ data: { kind: 'sets', sets: [[0x40n, 0x80n, 0xc0n], [0x100n, 0x200n]] }, skippedLines: 1 });
+    expect(parseTimingData('# nothing\n')).toBe('No addresses found');
+  });
+});
+
+describe('splitLatencies', () => {
+  it('puts the threshold between the fast and the slow cluster', () => {
+    const split = splitLatencies([230, 235, 240, 232, 330, 338, 236]);
+    if (typeof split === 'string') throw new Error(split);
+    expect(split.threshold).toBe(285);
+    expect(split.slowPairs).toBe(2);
+    expect(split.ambiguousPairs).toBe(0);
+    expect(splitLatencies([300, 300])).toMatch(/equal/);
+  });
+});
+
+describe('inferBankFunctions', () => {
+  it('solves the Coffee Lake pair sample', () => {
+    const inference = inferFrom(coffeeLakePairs);
+    expect(inference.functions.map(fn => fn.bits)).toEqual([[6, 13], [14, 17], [15, 18], [16, 19]]);
+    expect(inference).toMatchObject({ addressCount: 48, banksSeen: 16, confidence: 'high', notes: [] });
+    expect(inference.latency?.slowPairs).toBe(60);
+  });
+
+  it('solves the Skylake set sample, channel hash first', () => {
+    const inference = inferFrom(skylakeSets);
+    expect(inference.functions.map(fn => fn.bits)).toEqual([[8, 9, 12, 13, 18, 19], [7, 14], [15, 20], [16, 21], [17, 22]]);
+    expect(inference).toMatchObject({ setCount: 32, banksSeen: 32, confidence: 'high' });
+  });
+
+  it('ignores functions that are constant over all addresses', () => {
+    // Bits 8 and 9 are always equal and bit 6 picks the bank, so only 6 is a bank function.
+    const data: TimingData = { kind: 'sets', sets: [[0x000n, 0x080n], [0x040n, 0x3c0n], [0x300n, 0x380n]] };
+    const inference = inferBankFunctions(data);
+    if (typeof inference === 'string') throw new Error(inference);
+    expect(inference.functions.map(fn => fn.bits)).toEqual([[6]]);
+    expect(inference.notes).toContain('3 sets fall into 2 banks: sets of one bank were not linked by a conflict, or a function is missing.');
+  });
+
+  it('searches only modulo the constant functions of a few wide addresses', () => {
+    // 28 varying bits and six addresses leave 23 constant functions; enumerating them all ran out of memory.
+    const data: TimingData = { kind: 'sets', sets: [
+      [0x0n, 0xf3a5c1e80n, 0x8d2b47a00n],
+      [0x040n, 0x71c9e3b40n, 0xa6e0d5f00n],
+    ] };
+    const inference = inferBankFunctions(data);
+    if (typeof inference === 'string') throw new Error(inference);
+    expect(inference.functions).toHaveLength(1);
+    expect(inference.functions[0].setsByValue).toEqual([1, 1]);
+    expect(inference.varyingBits).toHaveLength(28);
+  });
+
+  it('fills the levels above the row in order', () => {
+    const levels = buildHierarchy(DEFAULT_HIERARCHY.map(level => level.name), {
+      Channel: [2, ['']], BankGroup: [4, ['', '']], Bank: [4, ['', '']], Subarray: [2, ['30']], Row: [2, ['31']], Column: [2, ['0']],
+    });
+    const assigned = assignInferredFunctions(levels, inferFrom(skylakeSets).functions);
+    if (typeof assigned === 'string') throw new Error(assigned);
+    expect(assigned.map(level => level.nbits)).toEqual([['8,9,12,13,18,19'], [], ['7,14', '15,20'], ['16,21', '17,22'], ['30'], ['31'], ['0']]);
+    expect(assignInferredFunctions(levels, inferFrom(coffeeLakePairs).functions))
+      .toBe('4 functions were found, but Channel, Rank, BankGroup, Bank have 5 ID bits; set their counts first');
+  });
+});
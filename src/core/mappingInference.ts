@@ -0,0 +1,248 @@
+import { getBit, parseHexAddress } from './helpers';
+import { splitRowBufferLevels, type HierarchyLevel } from './hierarchy';
+import { bitsFromMask, parity, reduceEquations } from './gf2';
+
+// --- Mapping Inference from Timing ---
+// DRAMA-style reverse engineering: two addresses in the same bank but different rows are
+// slow to access alternately (a row-buffer conflict). Grouping addresses by bank and asking
+// which XOR functions are constant within every group, but not over all addresses, gives
+// the bank, rank and channel functions. Timing cannot tell which of them selects a channel
+// and which a bank, so they are handed to the levels above the row widest first.
+
+export interface TimingPair { a: bigint; b: bigint; latency: number; }
+
+// Either measured pairs, or addresses already grouped into same-bank sets.
+export type TimingData = { kind: 'pairs'; pairs: TimingPair[] } | { kind: 'sets'; sets: bigint[][] };
+
+export interface LatencySplit {
+  // Pairs at or above the threshold are taken as conflicts.
+  threshold: number;
+  fastMean: number;
+  slowMean: number;
+  // Distance between the means in units of the summed standard deviations.
+  separation: number;
+  slowPairs: number;
+  // Pairs closer to the threshold than a tenth of the distance between the means.
+  ambiguousPairs: number;
+}
+
+export interface InferredFunction {
+  mask: bigint;
+  bits: number[];
+  // Same-bank sets on which the function is 0 and 1.
+  setsByValue: [number, number];
+}
+
+export type InferenceConfidence = 'high' | 'medium' | 'low';
+
+export interface MappingInference {
+  // Widest first, the order in which they fill the levels (see assignInferredFunctions).
+  functions: InferredFunction[];
+  addressCount: number;
+  setCount: number;
+  // Distinct banks, i.e. combinations of function values, among the sets.
+  banksSeen: number;
+  // PA bits that differ between some of the addresses; bits outside cannot be judged.
+  varyingBits: number[];
+  latency: LatencySplit | null;
+  confidence: InferenceConfidence;
+  notes: string[];
+}
+
+// Null-space dimensions beyond this mean too few measurements, not that many functions exist.
+const MAX_FREE_FUNCTIONS = 16;
+
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+// Pairs: "address_a,address_b,latency" per line (commas, semicolons or spaces; a header is
+// ignored). Sets: addresses, one or more per line; a blank line or a '#' comment ends a set.
+// The file is read as pairs when most of its lines look like pairs.
+export function parseTimingData(text: string): { data: TimingData; skippedLines: number } | string {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const fieldsOf = (line: string) => line.split(/[\s,;]+/).filter(Boolean);
+  const pairOf = (line: string): TimingPair | null => {
+    const fields = fieldsOf(line);
+    const a = parseHexAddress(fields[0] ?? '');
+    const b = parseHexAddress(fields[1] ?? '');
+    return fields.length === 3 && a !== null && b !== null && DECIMAL.test(fields[2]) ? { a, b, latency: Number(fields[2]) } : null;
+  };
+  const dataLines = lines.filter(line => line && !line.startsWith('#'));
+  if (dataLines.length === 0) return 'No addresses found';
+
+  let skippedLines = 0;
+  const pairLines = dataLines.filter(line => pairOf(line) !== null).length;
+  if (pairLines * 2 > dataLines.length) {
+    const pairs: TimingPair[] = [];
+    dataLines.forEach(line => {
+      const pair = pairOf(line);
+      if (pair) pairs.push(pair);
+      else if (pairs.length > 0) skippedLines++;
+    });
+    return { data: { kind: 'pairs', pairs }, skippedLines };
+  }
+
+  const sets: bigint[][] = [[]];
+  lines.forEach(line => {
+    if (!line || line.startsWith('#')) { if (sets[sets.length - 1].length > 0) sets.push([]); return; }
+    const addresses = fieldsOf(line).map(parseHexAddress);
+    if (addresses.some(address => address === null)) { skippedLines++; return; }
+    sets[sets.length - 1].push(...(addresses as bigint[]));
+  });
+  const nonEmpty = sets.filter(set => set.length > 0);
+  if (nonEmpty.length === 0) return 'No addresses found';
+  return { data: { kind: 'sets', sets: nonEmpty }, skippedLines };
+}
+
+// Two-class split of the latencies that maximizes the variance between the classes (Otsu).
+export function splitLatencies(latencies: number[]): LatencySplit | string {
+  if (latencies.length < 2) return 'At least two measurements are needed';
+  const sorted = [...latencies].sort((a, b) => a - b);
+  if (sorted[0] === sorted[sorted.length - 1]) return 'All latencies are equal; no conflicts can be told apart';
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  let best = { index: 1, score: -1 };
+  let below = 0;
+  for (let index = 1; index < sorted.length; index++) {
+    below += sorted[index - 1];
+    if (sorted[index] === sorted[index - 1]) continue;
+    const fastMean = below / index;
+    const slowMean = (total - below) / (sorted.length - index);
+    const score = index * (sorted.length - index) * (slowMean - fastMean) ** 2;
+    if (score > best.score) best = { index, score };
+  }
+  const fast = sorted.slice(0, best.index);
+  const slow = sorted.slice(best.index);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const deviation = (values: number[], m: number) => Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+  const fastMean = mean(fast);
+  const slowMean = mean(slow);
+  const spread = deviation(fast, fastMean) + deviation(slow, slowMean);
+  const threshold = (fast[fast.length - 1] + slow[0]) / 2;
+  const margin = (slowMean - fastMean) / 10;
+  return {
+    threshold, fastMean, slowMean,
+    separation: spread > 0 ? (slowMean - fastMean) / spread : Infinity,
+    slowPairs: slow.length,
+    ambiguousPairs: sorted.filter(value => Math.abs(value - threshold) < margin).length,
+  };
+}
+
+// Same-bank sets: addresses connected by conflicting pairs. Addresses without any conflict
+// are sets of their own.
+function setsFromPairs(pairs: TimingPair[], threshold: number): bigint[][] {
+  const parent = new Map<bigint, bigint>();
+  const find = (address: bigint): bigint => {
+    let root = address;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(address, root);
+    return root;
+  };
+  pairs.forEach(pair => { [pair.a, pair.b].forEach(address => { if (!parent.has(address)) parent.set(address, address); }); });
+  pairs.filter(pair => pair.latency >= threshold).forEach(pair => parent.set(find(pair.a), find(pair.b)));
+  const sets = new Map<bigint, bigint[]>();
+  parent.forEach((_, address) => { const root = find(address); sets.set(root, [...(sets.get(root) ?? []), address]); });
+  return [...sets.values()];
+}
+
+// Basis of the functions over `bits` that are 0 on every difference (constant between the
+// addresses the differences came from).
+function nullSpace(differences: bigint[], bits: number[]): bigint[] {
+  const { rows, pivotMask } = reduceEquations(differences.map(mask => ({ mask, value: 0 }))).system;
+  return bits.filter(bit => !((pivotMask >> BigInt(bit)) & 1n)).map(bit => rows.reduce(
+    (mask, row) => ((row.mask >> BigInt(bit)) & 1n ? mask | (1n << BigInt(row.bit)) : mask), 1n << BigInt(bit)));
+}
+
+// Adds `mask` to a XOR basis kept by highest bit; false when it is a combination of the basis.
+function insertIndependent(basis: Map<number, bigint>, mask: bigint): boolean {
+  let rest = mask;
+  while (rest > 0n) {
+    const top = rest.toString(2).length - 1;
+    const row = basis.get(top);
+    if (row === undefined) { basis.set(top, rest); return true; }
+    rest ^= row;
+  }
+  return false;
+}
+
+// `mask` with the top bit of every basis row cleared: the same for all masks that differ by a
+// combination of the basis.
+function reduceByBasis(basis: Map<number, bigint>, mask: bigint): bigint {
+  return [...basis.keys()].sort((a, b) => b - a).reduce((rest, top) => ((rest >> BigInt(top)) & 1n ? rest ^ basis.get(top)! : rest), mask);
+}
+
+export function inferBankFunctions(data: TimingData): MappingInference | string {
+  let latency: LatencySplit | null = null;
+  let sets: bigint[][];
+  if (data.kind === 'pairs') {
+    const split = splitLatencies(data.pairs.map(pair => pair.latency));
+    if (typeof split === 'string') return split;
+    latency = split;
+    sets = setsFromPairs(data.pairs, split.threshold);
+  } else {
+    sets = data.sets;
+  }
+  const addresses = [...new Set(sets.flat())];
+  if (addresses.length < 2) return 'At least two addresses are needed';
+
+  const varyingMask = addresses.reduce((mask, address) => mask | (address ^ addresses[0]), 0n);
+  const varyingBits = bitsFromMask(varyingMask);
+  const withinSets = sets.flatMap(set => set.slice(1).map(address => address ^ set[0]));
+  const functionSpace = nullSpace(withinSets, varyingBits);
+  // Functions constant over all addresses say nothing about banks (e.g. two bits that happen to be equal),
+  // so only the functions modulo them are searched; few wide addresses leave many of them.
+  const constant = nullSpace(addresses.slice(1).map(address => address ^ addresses[0]), varyingBits);
+  const constantBasis = new Map<number, bigint>();
+  constant.forEach(mask => insertIndependent(constantBasis, mask));
+  const spanned = new Map(constantBasis);
+  const quotient = functionSpace.filter(mask => insertIndependent(spanned, mask)).map(mask => reduceByBasis(constantBasis, mask));
+  if (quotient.length > MAX_FREE_FUNCTIONS) {
+    return `${quotient.length} independent functions fit the data; measure more same-bank addresses`;
+  }
+
+  // The lightest functions that span the space: XOR functions of real controllers use few bits.
+  const candidates: bigint[] = [];
+  for (let combination = 1; combination < 2 ** quotient.length; combination++) {
+    candidates.push(quotient.reduce((mask, basisMask, index) => ((combination >> index) & 1 ? mask ^ basisMask : mask), 0n));
+  }
+  const weight = (mask: bigint) => bitsFromMask(mask).length;
+  candidates.sort((a, b) => weight(a) - weight(b) || (a < b ? -1 : a > b ? 1 : 0));
+  const basis = new Map(constantBasis);
+  const masks = candidates.filter(mask => insertIndependent(basis, mask));
+  masks.sort((a, b) => weight(b) - weight(a) || bitsFromMask(a)[0] - bitsFromMask(b)[0]);
+
+  const functions: InferredFunction[] = masks.map(mask => {
+    const ones = sets.filter(set => parity(mask & set[0]) === 1).length;
+    return { mask, bits: bitsFromMask(mask), setsByValue: [sets.length - ones, ones] };
+  });
+  const banksSeen = new Set(sets.map(set => masks.map(mask => parity(mask & set[0])).join(''))).size;
+
+  const notes: string[] = [];
+  let confidence: InferenceConfidence = 'high';
+  const lower = (to: InferenceConfidence) => { if (to === 'low' || confidence === 'high') confidence = to; };
+  if (functions.length === 0) { notes.push('No function separates the sets: every address may be in one bank, or noise merged the banks.'); lower('low'); }
+  if (latency) {
+    if (latency.separation < 2) { notes.push(`Fast and slow latencies overlap (separation ${latency.separation.toFixed(1)}); the threshold of ${latency.threshold.toFixed(0)} is a guess.`); lower('low'); }
+    else if (latency.ambiguousPairs > 0) { notes.push(`${latency.ambiguousPairs} pairs are close to the threshold of ${latency.threshold.toFixed(0)}.`); lower('medium'); }
+  }
+  if (functions.length > 0 && banksSeen < 2 ** functions.length) {
+    notes.push(`Only ${banksSeen} of the ${2 ** functions.length} banks these functions describe were seen; a function may be missing or spurious.`);
+    lower('medium');
+  }
+  if (sets.length > banksSeen) {
+    notes.push(`${sets.length} sets fall into ${banksSeen} banks: sets of one bank were not linked by a conflict, or a function is missing.`);
+    lower('medium');
+  }
+  return { functions, addressCount: addresses.length, setCount: sets.length, banksSeen, varyingBits, latency, confidence, notes };
+}
+
+// Writes the functions into the Nbit fields of the levels above the row (see
+// splitRowBufferLevels), outermost level and first function first.
+export function assignInferredFunctions(levels: HierarchyLevel[], functions: InferredFunction[]): HierarchyLevel[] | string {
+  const { bankLevels } = splitRowBufferLevels(levels);
+  const idBits = bankLevels.reduce((sum, level) => sum + getBit(level.count), 0);
+  if (idBits !== functions.length) {
+    return `${functions.length} functions were found, but ${bankLevels.map(level => level.name).join(', ') || 'the levels above the row'} have ${idBits} ID bits; set their counts first`;
+  }
+  let next = 0;
+  return levels.map(level => (!bankLevels.includes(level) ? level
+    : { ...level, nbits: level.nbits.map(() => functions[next++].bits.join(',')) }));
+}
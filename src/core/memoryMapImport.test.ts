@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseMemoryMap, memoryMapToConfig, type ImportedMemoryMap } from './memoryMapImport';
+import { parsePageList } from './vmMemory';
+
+const IOMEM = `00000000-00000fff : Reserved
+00001000-0009ffff : System RAM
+000a0000-000fffff : Reserved
+  000a0000-000bffff : PCI Bus 0000:00
+00100000-bfffffff : System RAM
+  01000000-01e0240f : Kernel code
+c0000000-fed1bfff : PCI Bus 0000:00
+100000000-43fffffff : System RAM
+`;
+
+const E820 = `[    0.000000] BIOS-provided physical RAM map:
+[    0.000000] BIOS-e820: [mem 0x0000000000000000-0x000000000009fbff] usable
+[    0.000000] BIOS-e820: [mem 0x000000000009fc00-0x000000000009ffff] reserved
+[    0.000000] BIOS-e820: [mem 0x0000000000100000-0x000000007ffdffff] usable
+[    0.000000] BIOS-e820: [mem 0x000000007ffe0000-0x000000007fffffff] reserved
+[    0.000000] e820: update [mem 0x00000000-0x00000fff] usable ==> reserved
+`;
+
+const UEFI = `efi: mem00: [Boot Code          |   |  |  |  |  |  |  |  |   |WB|WT|WC|UC] range=[0x0000000000000000-0x0000000000000fff] (0MB)
+efi: mem01: [Conventional Memory|   |  |  |  |  |  |  |  |   |WB|WT|WC|UC] range=[0x0000000000001000-0x000000000009ffff] (0MB)
+efi: mem02: [Loader Data        |   |  |  |  |  |  |  |  |   |WB|WT|WC|UC] range=[0x0000000000100000-0x00000000001fffff] (1MB)
+efi: mem03: [ACPI Reclaim Memory|   |  |  |  |  |  |  |  |   |WB|WT|WC|UC] range=[0x0000000000200000-0x00000000002fffff] (1MB)
+efi: mem04: [Conventional Memory|   |  |  |  |  |  |  |  |   |WB|WT|WC|UC] range=[0x0000000000300000-0x0000000000ffffff] (13MB)
+`;
+
+function parsed(text: string): ImportedMemoryMap {
+  const map = parseMemoryMap(text);
+  if (typeof map === 'string') throw new Error(map);
+  return map;
+}
+
+describe('parseMemoryMap', () => {
+  it('reads the top-level System RAM entries of /proc/iomem and the holes between them', () => {
+    const map = parsed(IOMEM);
+    expect(map.format).toBe('iomem');
+    expect(map.regions.map(region => region.ranges)).toEqual([
+      [{ start: 0x1000n, end: 0x9ffffn }], [{ start: 0x100000n, end: 0xbfffffffn }], [{ start: 0x100000000n, end: 0x43fffffffn }],
+    ]);
+    expect(map.holes.map(hole => [hole.name, hole.range.start, hole.range.end])).toEqual([
+      ['Reserved', 0n, 0xfffn], ['Reserved', 0xa0000n, 0xfffffn], ['PCI Bus 0000:00', 0xc0000000n, 0xffffffffn],
+    ]);
+    expect(map.top).toBe(17n << 30n);
+    expect(map.skippedLines).toBe(2);
+  });
+
+  it('reads e820 and UEFI maps from a boot log', () => {
+    const e820 = parsed(E820);
+    expect(e820.format).toBe('e820');
+    expect(e820.regions.map(region => region.ranges[0])).toEqual([{ start: 0n, end: 0x9fbffn }, { start: 0x100000n, end: 0x7ffdffffn }]);
+    expect(e820.holes.map(hole => hole.name)).toEqual(['reserved']);
+    const uefi = parsed(UEFI);
+    expect(uefi.format).toBe('uefi');
+    expect(uefi.regions.map(region => region.name)).toEqual(['Conventional Memory', 'Loader Data', 'Conventional Memory']);
+    expect(uefi.holes.map(hole => [hole.name, hole.range.start])).toEqual([['Boot Code', 0n], ['Unlisted', 0xa0000n], ['ACPI Reclaim Memory', 0x200000n]]);
+  });
+
+  it('reads frame numbers and raw pagemap entries', () => {
+    const map = parsed('# vaddr pfn\n0x7f0000000000 0x1234\n0x7f0000001000 0x1235\n0x8600000000000777\n0x0080000000000001\n');
+    expect(map.format).toBe('pagemap');
+    expect(map.regions[0].ranges).toEqual([{ start: 0x777000n, end: 0x777fffn }, { start: 0x1234000n, end: 0x1235fffn }]);
+    expect(map.skippedLines).toBe(1);
+  });
+
+  it('explains files it cannot use', () => {
+    expect(parseMemoryMap('00000000-00000000 : System RAM\n')).toMatch(/without root privileges$/);
+    expect(parseMemoryMap('hello world\nthis is not a map\n')).toMatch(/^Unrecognised format/);
+    expect(parseMemoryMap('00000000-00000fff : Reserved\n')).toBe('No usable memory found in the /proc/iomem');
+  });
+});
+
+describe('memoryMapToConfig', () => {
+  it('turns regions into named VMs and holes into reserved regions', () => {
+    const config = memoryMapToConfig(parsed(IOMEM));
+    expect(config.totalCapacity).toBe('17GB');
+    expect(config.vms[1]).toEqual({ name: 'System RAM 2', baseAddress: '0x100000', size: '0xbff00000' });
+    expect(config.reserved[2]).toEqual({ name: 'PCI Bus 0000:00', baseAddress: '0xc0000000', size: '0x40000000' });
+  });
+
+  it('keeps pagemap frames as a page list', () => {
+    const [vm] = memoryMapToConfig(parsed('0x10\n0x11\n0x20\n')).vms;
+    expect(vm.pages).toBe('0x10-0x11, 0x20');
+    expect(parsePageList(vm.pages ?? '', 4096n)).toEqual([{ start: 0x10000n, end: 0x11fffn }, { start: 0x20000n, end: 0x20fffn }]);
+    expect(vm.size).toBe('0x3000');
+  });
+});
@@ -0,0 +1,147 @@
+import { formatCapacity, formatHexAddress, parseHexAddress } from './helpers';
+import type { AddressRange } from './addressSet';
+import type { ReservedRegion, VmConfig } from './config';
+import { formatPageList, mergeRanges, rangesBytes } from './vmMemory';
+
+// --- Memory Map Import ---
+// Text dumps of how Linux sees physical memory, turned into named regions with DRAM behind
+// them and the holes between them:
+//   iomem:   /proc/iomem, e.g. "00100000-bfffffff : System RAM" (top-level entries only)
+//   e820:    the firmware map printed at boot, e.g. "BIOS-e820: [mem 0x0-0x9fbff] usable"
+//   uefi:    the UEFI map printed with efi=debug, e.g. "efi: mem07: [Conventional Memory|...] range=[0x...-0x...]"
+//   pagemap: physical frames of a process, one per line as "PFN" or "vaddr PFN"; raw 64-bit
+//            /proc/pid/pagemap entries are accepted too (bit 63 = present, bits 0-54 = PFN)
+
+export type MemoryMapFormat = 'iomem' | 'e820' | 'uefi' | 'pagemap';
+
+export const MEMORY_MAP_FORMAT_LABELS: Record<MemoryMapFormat, string> = {
+  iomem: '/proc/iomem',
+  e820: 'e820 map',
+  uefi: 'UEFI memory map',
+  pagemap: 'Pagemap frames',
+};
+
+export interface MemoryMapEntry { name: string; usable: boolean; range: AddressRange; }
+
+export interface ImportedMemoryMap {
+  format: MemoryMapFormat;
+  // Memory with DRAM behind it, in address order.
+  regions: { name: string; ranges: AddressRange[] }[];
+  // Addresses below `top` without DRAM behind them, named after the entry that claims them.
+  holes: { name: string; range: AddressRange }[];
+  // One past the highest usable address.
+  top: bigint;
+  skippedLines: number;
+}
+
+// Frames in /proc/pid/pagemap are always 4 KB, whatever page backs them.
+const PAGEMAP_FRAME_BYTES = 4096n;
+const PAGEMAP_PRESENT = 1n << 63n;
+const PAGEMAP_PFN_MASK = (1n << 55n) - 1n;
+
+// Where each field sits in a line, and the entry types with DRAM behind them (lower case).
+// Only top-level /proc/iomem entries describe memory; indented ones are drivers and kernel sections.
+const ENTRY_FORMATS: Record<Exclude<MemoryMapFormat, 'pagemap'>, { pattern: RegExp; start: number; end: number; name: number; usable: string[] }> = {
+  iomem: { pattern: /^([0-9a-f]+)-([0-9a-f]+) : (.+?)\s*$/i, start: 1, end: 2, name: 3, usable: ['system ram'] },
+  e820: { pattern: /(?:BIOS-e820|e820|user):\s*\[mem (0x[0-9a-f]+)-(0x[0-9a-f]+)\]\s+(.+?)\s*$/i, start: 1, end: 2, name: 3, usable: ['usable'] },
+  // Boot services memory is handed to the kernel once it has booted.
+  uefi: {
+    pattern: /efi:\s+mem\d+:\s+\[([^|\]]+?)\s*\|.*range=\[(0x[0-9a-f]+)-(0x[0-9a-f]+)\]/i, start: 2, end: 3, name: 1,
+    usable: ['conventional memory', 'loader code', 'loader data', 'boot services code', 'boot services data'],
+  },
+};
+
+function parseEntries(lines: string[], format: Exclude<MemoryMapFormat, 'pagemap'>): MemoryMapEntry[] {
+  const { pattern, start, end, name, usable } = ENTRY_FORMATS[format];
+  return lines.flatMap(line => {
+    const match = line.match(pattern);
+    const first = match ? parseHexAddress(match[start]) : null;
+    const last = match ? parseHexAddress(match[end]) : null;
+    if (!match || first === null || last === null || last < first) return [];
+    return [{ name: match[name], usable: usable.includes(match[name].toLowerCase()), range: { start: first, end: last } }];
+  });
+}
+
+// Usable entries become regions (neighbours of the same name are joined). Everything else
+// below the top of usable memory is a hole, whether or not the map lists it.
+function buildMap(format: MemoryMapFormat, entries: MemoryMapEntry[], skippedLines: number): ImportedMemoryMap | string {
+  const usable = entries.filter(entry => entry.usable).sort((a, b) => (a.range.start < b.range.start ? -1 : 1));
+  if (usable.length === 0) return `No usable memory found in the ${MEMORY_MAP_FORMAT_LABELS[format]}`;
+  if (usable.every(entry => entry.range.end === 0n)) return 'Every address is zero; the file was probably read without root privileges';
+
+  const regions: ImportedMemoryMap['regions'] = [];
+  for (const entry of usable) {
+    const last = regions[regions.length - 1];
+    const lastRange = last?.ranges[last.ranges.length - 1];
+    if (last && last.name === entry.name && lastRange && entry.range.start <= lastRange.end + 1n) {
+      if (entry.range.end > lastRange.end) lastRange.end = entry.range.end;
+    } else {
+      regions.push({ name: entry.name, ranges: [{ ...entry.range }] });
+    }
+  }
+  const covered = mergeRanges(usable.map(entry => entry.range));
+  const top = covered[covered.length - 1].end + 1n;
+  const holes: ImportedMemoryMap['holes'] = [];
+  let next = 0n;
+  for (const range of [...covered, { start: top, end: top }]) {
+    if (range.start > next) {
+      const gap = { start: next, end: range.start - 1n };
+      const claimedBy = entries.find(entry => !entry.usable && entry.range.start <= gap.end && entry.range.end >= gap.start);
+      holes.push({ name: claimedBy?.name ?? 'Unlisted', range: gap });
+    }
+    next = range.end + 1n;
+  }
+  return { format, regions, holes, top, skippedLines };
+}
+
+function parsePagemap(lines: string[]): ImportedMemoryMap | string {
+  const frames: AddressRange[] = [];
+  let unparsed = 0;
+  let absent = 0;
+  for (const line of lines) {
+    const tokens = line.trim().split(/\s+/);
+    const value = tokens.length <= 2 ? parseHexAddress(tokens[tokens.length - 1]) : null;
+    if (value === null) { unparsed++; continue; }
+    // A raw entry without the present bit belongs to a page that is swapped out or not mapped.
+    if (value > PAGEMAP_PFN_MASK && !(value & PAGEMAP_PRESENT)) { absent++; continue; }
+    const frame = value & PAGEMAP_PFN_MASK;
+    frames.push({ start: frame * PAGEMAP_FRAME_BYTES, end: (frame + 1n) * PAGEMAP_FRAME_BYTES - 1n });
+  }
+  if (unparsed > lines.length / 2) return 'Unrecognised format. Expected /proc/iomem, an e820 or UEFI memory map, or a list of page frame numbers';
+  if (frames.length === 0) return 'No page of the process is present in memory';
+  if (frames.every(range => range.start === 0n)) return 'Every frame number is zero; the pagemap was probably read without root privileges';
+  const ranges = mergeRanges(frames);
+  return { format: 'pagemap', regions: [{ name: 'Process frames', ranges }], holes: [], top: ranges[ranges.length - 1].end + 1n, skippedLines: unparsed + absent };
+}
+
+// Detects the format from the lines it recognises. Blank lines and lines starting with '#'
+// are ignored.
+export function parseMemoryMap(text: string): ImportedMemoryMap | string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  if (lines.length === 0) return 'The file is empty';
+  for (const format of ['iomem', 'e820', 'uefi'] as const) {
+    const entries = parseEntries(lines, format);
+    if (entries.length > 0) return buildMap(format, entries, lines.length - entries.length);
+  }
+  return parsePagemap(lines);
+}
+
+// The imported map as configuration: one VM per region, the holes as reserved regions and
+// the top of usable memory as the total capacity.
+export function memoryMapToConfig(map: ImportedMemoryMap): { totalCapacity: string; vms: VmConfig[]; reserved: ReservedRegion[] } {
+  const vms = map.regions.map((region, index): VmConfig => {
+    const name = map.regions.length > 1 ? `${region.name} ${index + 1}` : region.name;
+    const first = region.ranges[0];
+    if (region.ranges.length === 1) {
+      return { name, baseAddress: formatHexAddress(first.start), size: formatHexAddress(first.end - first.start + 1n) };
+    }
+    return {
+      name, baseAddress: formatHexAddress(first.start), size: formatHexAddress(rangesBytes(region.ranges)),
+      pages: formatPageList(region.ranges, PAGEMAP_FRAME_BYTES), pageSize: '4KB',
+    };
+  });
+  const reserved = map.holes.map(hole => ({
+    name: hole.name, baseAddress: formatHexAddress(hole.range.start), size: formatHexAddress(hole.range.end - hole.range.start + 1n),
+  }));
+  return { totalCapacity: formatCapacity(map.top), vms, reserved };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { pageSpread, misalignedVms, misalignedWindows } from './pageAlignment';
+import { parseSystemMap } from './systemMap';
+import { XOR_LEVELS } from './testMappings';
+
+describe('pageSpread', () => {
+  it('splits ID bits into fixed and varying per page size', () => {
+    // A 512-byte page holds PA bits 0-8: the low halves of both bank hashes, row bit 0 and every column bit.
+    expect(pageSpread(XOR_LEVELS, 512n)).toEqual([
+      { level: 'Bank', fixedBits: [], varyingBits: [0, 1], ids: 4, elements: 4 },
+      { level: 'Row', fixedBits: [1, 2, 3], varyingBits: [0], ids: 2, elements: 8 },
+      { level: 'Column', fixedBits: [], varyingBits: [0, 1, 2, 3, 4, 5], ids: 64, elements: 512 },
+    ]);
+    expect(pageSpread(XOR_LEVELS, 64n).map(level => level.ids)).toEqual([1, 1, 64]);
+    expect(pageSpread(XOR_LEVELS, 4096n).map(level => level.elements)).toEqual([4, 64, 4096]);
+  });
+
+  it('counts IDs by rank, not by varying bits', () => {
+    // Both bank bits vary with PA bit 6 alone, so a 128-byte page sees only two banks.
+    const levels = XOR_LEVELS.map(level => (level.name === 'Bank' ? { ...level, nbits: ['6,9', '6,10'] } : level));
+    expect(pageSpread(levels, 128n)[0]).toMatchObject({ varyingBits: [0, 1], ids: 2 });
+  });
+});
+
+describe('alignment checks', () => {
+  it('flags VMs that start or end inside a page', () => {
+    const vms = [
+      { baseAddress: '0x200000', size: '0x200000' },
+      { name: 'Odd', baseAddress: '0x201000', size: '0x200000' },
+      { baseAddress: '0x0', size: '0x1000', pages: '0x200-0x3ff', pageSize: '4KB' },
+      { baseAddress: '0x0', size: '0x1000', pages: '0x200-0x201', pageSize: '4KB' },
+    ];
+    expect(misalignedVms(vms, 0x200000n)).toEqual([
+      { label: 'Odd', start: 0x201000n, startOffset: 0x1000n, endOffset: 0x1000n },
+      { label: 'VM 4', start: 0x200000n, startOffset: 0n, endOffset: 0x2000n },
+    ]);
+    expect(misalignedVms(vms, 0x1000n)).toEqual([]);
+  });
+
+  it('flags system-map windows that shift pages off their alignment', () => {
+    const windows = parseSystemMap([
+      { name: 'Low', systemBase: '0x0', size: '0x80000000', dramBase: '0x0' },
+      { name: 'High', systemBase: '0x100000000', size: '0x80000000', dramBase: '0x80001000' },
+    ]);
+    expect(misalignedWindows(windows, 0x1000n)).toEqual([]);
+    expect(misalignedWindows(windows, 0x200000n).map(window => window.name)).toEqual(['High']);
+  });
+});
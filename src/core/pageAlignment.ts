@@ -0,0 +1,72 @@
+import { getBit, parseNbitMappingToPositions } from './helpers';
+import type { HierarchyLevel } from './hierarchy';
+import { rankOf, maskFromBits } from './gf2';
+import type { VmConfig } from './config';
+import type { SystemWindow } from './systemMap';
+import { vmAddressRanges, vmLabel } from './vmMemory';
+
+// --- Page Alignment ---
+// Within an aligned page the address bits above the offset are constant, so an ID bit whose
+// PA bits all lie above the offset is fixed for the whole page, and every other ID bit takes
+// both values. The IDs one page touches are the image of the offset bits, 2^rank of the
+// offset parts of the ID bits.
+
+export interface LevelPageSpread {
+  level: string;
+  // ID bit indices, lowest first.
+  fixedBits: number[];
+  varyingBits: number[];
+  // IDs of this level one page touches.
+  ids: number;
+  // Elements of this level one page touches, telling apart equal IDs under different parents
+  // (e.g. all banks of all channels).
+  elements: number;
+}
+
+export interface MisalignedVm {
+  label: string;
+  start: bigint;
+  // Bytes past the last page boundary at the start, and at the end (0 when aligned).
+  startOffset: bigint;
+  endOffset: bigint;
+}
+
+function idBitMask(level: HierarchyLevel, bit: number): bigint {
+  return maskFromBits(parseNbitMappingToPositions(level.nbits[bit] ?? '') ?? []);
+}
+
+export function pageSpread(levels: HierarchyLevel[], pageBytes: bigint): LevelPageSpread[] {
+  const offsetMask = pageBytes - 1n;
+  const offsetParts: bigint[] = [];
+  return levels.map(level => {
+    const parts = Array.from({ length: getBit(level.count) }, (_, bit) => idBitMask(level, bit) & offsetMask);
+    offsetParts.push(...parts);
+    const bits = parts.map((part, bit) => ({ part, bit }));
+    return {
+      level: level.name,
+      fixedBits: bits.filter(({ part }) => part === 0n).map(({ bit }) => bit),
+      varyingBits: bits.filter(({ part }) => part !== 0n).map(({ bit }) => bit),
+      ids: 2 ** rankOf(parts),
+      elements: 2 ** rankOf(offsetParts),
+    };
+  });
+}
+
+// VMs whose ranges start or end inside a page. Page-list VMs are checked frame by frame, so a
+// list of 4 KB frames is flagged for 2 MB pages unless the frames come in aligned 2 MB runs.
+export function misalignedVms(vms: VmConfig[], pageBytes: bigint): MisalignedVm[] {
+  return vms.flatMap((vm, index) => {
+    const ranges = vmAddressRanges(vm);
+    if (typeof ranges === 'string') return [];
+    const misaligned = ranges.find(range => range.start % pageBytes !== 0n || (range.end + 1n) % pageBytes !== 0n);
+    return misaligned ? [{
+      label: vmLabel(vm, index), start: misaligned.start, startOffset: misaligned.start % pageBytes, endOffset: (misaligned.end + 1n) % pageBytes,
+    }] : [];
+  });
+}
+
+// System-map windows that move memory by a distance that is not a whole number of pages, so
+// aligned system pages are not aligned in DRAM.
+export function misalignedWindows(windows: SystemWindow[], pageBytes: bigint): SystemWindow[] {
+  return windows.filter(window => (window.start - window.dramStart) % pageBytes !== 0n);
+}
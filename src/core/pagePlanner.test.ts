@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { pageColoring, planPageColoring, findSharedElements, formatColorBits, exclusiveLevels, type PageColoring } from './pagePlanner';
+import { decodeAddress } from './decode';
+import { parseSystemMap, usableDramRanges } from './systemMap';
+import { XOR_LEVELS, XOR_MAPPING, XOR_CAPACITY, XOR_USABLE, xorLevels } from './testMappings';
+import type { AddressRange } from './addressSet';
+
+function coloringOf(levels: typeof XOR_LEVELS, policy: string, pageBytes: bigint): PageColoring {
+  const coloring = pageColoring(levels, policy, pageBytes, XOR_USABLE);
+  if (typeof coloring === 'string') throw new Error(coloring);
+  return coloring;
+}
+
+// Reference: the banks each VM's addresses decode to.
+function banksOf(ranges: AddressRange[]): Set<number> {
+  const banks = new Set<number>();
+  for (const range of ranges) {
+    for (let address = range.start; address <= range.end; address++) banks.add(decodeAddress(address, XOR_MAPPING).bank);
+  }
+  return banks;
+}
+
+describe('pageColoring', () => {
+  it('uses the ID bits above the page offset as color bits', () => {
+    const coloring = coloringOf(XOR_LEVELS, 'Bank', 64n);
+    expect(formatColorBits(coloring.colorBits)).toBe('Bank[1], Bank[0]');
+    expect(coloring.colors.map(color => [color.label, color.bytes])).toEqual([['00', 1024n], ['01', 1024n], ['10', 1024n], ['11', 1024n]]);
+  });
+
+  it('reports ID bits that change inside a page', () => {
+    const coloring = coloringOf(xorLevels({ Bank: ['6,9', '10'] }), 'Bank', 256n);
+    expect(formatColorBits(coloring.colorBits)).toBe('Bank[1]');
+    expect(formatColorBits(coloring.uncolorableBits)).toBe('Bank[0]');
+    expect(coloring.colors).toHaveLength(2);
+    expect(pageColoring(XOR_LEVELS, 'Bank', 256n, XOR_USABLE)).toMatch(/cannot be colored$/);
+  });
+
+  it('groups the policy level with every level above it', () => {
+    expect(exclusiveLevels(XOR_LEVELS, 'row').map(level => level.name)).toEqual(['Bank', 'Row']);
+    expect(coloringOf(XOR_LEVELS, 'Row', 256n).colorBits.map(bit => bit.level)).toEqual(['Row', 'Row', 'Row', 'Row']);
+  });
+});
+
+describe('planPageColoring', () => {
+  const coloring = coloringOf(XOR_LEVELS, 'Bank', 64n);
+
+  it('gives every VM its own banks and fills its size', () => {
+    const plan = planPageColoring(coloring, [1024n, null, 100n], 64n);
+    if (typeof plan === 'string') throw new Error(plan);
+    expect(plan.vms.map(vm => vm.colors)).toEqual([[0], [1, 3], [2]]);
+    expect(plan.vms.map(vm => vm.allocatedBytes)).toEqual([1024n, 2048n, 128n]);
+    expect(plan.spareColors).toEqual([]);
+    const banks = plan.vms.map(vm => banksOf(vm.ranges));
+    expect(banks.map(set => set.size)).toEqual([1, 2, 1]);
+    expect(new Set(banks.flatMap(set => [...set])).size).toBe(4);
+    expect(findSharedElements(coloring.levels, plan.vms.map(vm => vm.ranges))).toEqual({ count: 0, example: null });
+  });
+
+  it('gives extra colors to the VM that misses the most bytes', () => {
+    const plan = planPageColoring(coloring, [3000n, 64n], 64n);
+    expect(typeof plan !== 'string' && plan.vms.map(vm => vm.colors)).toEqual([[0, 2, 3], [1]]);
+    const sized = planPageColoring(coloring, [64n, 64n], 64n);
+    expect(typeof sized !== 'string' && sized.spareColors).toEqual([2, 3]);
+  });
+
+  it('keeps VMs out of the page frames a reserved region cuts into', () => {
+    // The hole covers 0x420-0x51f, so the frames 0x400-0x53f are out of every color.
+    const usable = usableDramRanges(XOR_CAPACITY, [{ name: 'MMIO', baseAddress: '0x420', size: '0x100' }], []);
+    const holed = pageColoring(XOR_LEVELS, 'Bank', 64n, usable);
+    if (typeof holed === 'string') throw new Error(holed);
+    expect(holed.colors.reduce((sum, color) => sum + color.bytes, 0n)).toBe(XOR_CAPACITY - 0x140n);
+    const plan = planPageColoring(holed, [null, null], 64n);
+    if (typeof plan === 'string') throw new Error(plan);
+    const ranges = plan.vms.flatMap(vm => vm.ranges);
+    expect(ranges.some(range => range.start <= 0x53fn && range.end >= 0x400n)).toBe(false);
+    expect(ranges.every(range => range.start % 64n === 0n && (range.end + 1n) % 64n === 0n)).toBe(true);
+    expect(plan.vms.reduce((sum, vm) => sum + vm.allocatedBytes, 0n)).toBe(XOR_CAPACITY - 0x140n);
+    // DRAM that no system-map window reaches is left out the same way.
+    const windows = parseSystemMap([{ name: 'Low', systemBase: '0x0', size: '0x800', dramBase: '0x0' }]);
+    const unbacked = pageColoring(XOR_LEVELS, 'Bank', 64n, usableDramRanges(XOR_CAPACITY, [], windows));
+    expect(typeof unbacked !== 'string' && unbacked.colors.reduce((sum, color) => sum + color.bytes, 0n)).toBe(0x800n);
+  });
+
+  it('refuses more VMs than colors', () => {
+    expect(planPageColoring(coloring, [null, null, null, null, null], 64n)).toMatch(/^Only 4 page colors for 5 VMs/);
+  });
+});
+
+describe('findSharedElements', () => {
+  it('names an element that two VMs share', () => {
+    const shared = findSharedElements(exclusiveLevels(XOR_LEVELS, 'Bank'), [[{ start: 0n, end: 0xfffn }], [{ start: 0n, end: 0x3fn }]]);
+    expect(shared).toEqual({ count: 1, example: { element: 'Bk0', vms: [0, 1] } });
+  });
+});
@@ -0,0 +1,207 @@
+import { getBit, parseNbitMappingToPositions } from './helpers';
+import { elementLabel, findLevel, type HierarchyLevel } from './hierarchy';
+import { maskFromBits } from './gf2';
+import { addressSetIntervals, addressSetSize, buildAddressSet, type AddressRange, type AddressSet } from './addressSet';
+import { idBitMasks, markRangeKeys, splitKey } from './idImage';
+import { mergeRanges, rangesBytes } from './vmMemory';
+
+// --- Page Coloring ---
+// A hypervisor places memory page by page, so it controls exactly the ID bits that depend
+// only on address bits above the page offset. Fixing those bits ("the page color") fixes part
+// of the DRAM location of every byte of the page. Giving VMs disjoint colors of the bank
+// bits (or channel bits, ...) keeps them out of each other's banks.
+
+export interface ColorBit {
+  level: string;
+  // ID bit index within the level.
+  bit: number;
+  mask: bigint;
+}
+
+export interface PageColor {
+  // Color bit values, colorBits[0] in the highest bit.
+  key: number;
+  // Color bit values as a bit string in colorBits order, e.g. "0110".
+  label: string;
+  // Bytes of the usable page frames with this color.
+  bytes: bigint;
+  set: AddressSet;
+}
+
+export interface PageColoring {
+  // The levels each VM gets exclusively: the policy level and every level above it.
+  levels: HierarchyLevel[];
+  colorBits: ColorBit[];
+  // ID bits that change inside a page. Every page touches both of their values.
+  uncolorableBits: ColorBit[];
+  // Colors that some usable page frame has, in key order.
+  colors: PageColor[];
+}
+
+// 2^12 colors are far more than any sensible number of VMs and keep the planner instant.
+const MAX_COLOR_BITS = 12;
+// Per VM. A plan is stored as a page list in the config, so it has to stay a sensible size.
+export const MAX_PLANNED_RANGES = 1 << 14;
+
+// The levels an "exclusive <level>" policy keeps apart: that level and all levels above it.
+export function exclusiveLevels(levels: HierarchyLevel[], policyLevel: string): HierarchyLevel[] {
+  const level = findLevel(levels, policyLevel);
+  return level ? levels.slice(0, levels.indexOf(level) + 1) : [];
+}
+
+const bitLabel = (bit: ColorBit) => `${bit.level}[${bit.bit}]`;
+
+export function formatColorBits(bits: ColorBit[]): string {
+  return bits.map(bitLabel).join(', ');
+}
+
+// The whole page frames of the usable ranges. A frame that a reserved region or a gap between
+// system-map windows cuts into cannot be given to a VM, so it is left out of every color.
+function usableFrames(usable: AddressRange[], pageBytes: bigint): AddressRange[] {
+  return usable.flatMap(range => {
+    const start = ((range.start + pageBytes - 1n) / pageBytes) * pageBytes;
+    const end = ((range.end + 1n) / pageBytes) * pageBytes - 1n;
+    return start <= end ? [{ start, end }] : [];
+  });
+}
+
+// `usable` are the DRAM ranges memory can be at (see usableDramRanges); colors only hold
+// their whole page frames.
+export function pageColoring(levels: HierarchyLevel[], policyLevel: string, pageBytes: bigint, usable: AddressRange[]): PageColoring | string {
+  const group = exclusiveLevels(levels, policyLevel);
+  if (group.length === 0) return `Unknown level "${policyLevel}"`;
+  const pageMask = pageBytes - 1n;
+  const colorBits: ColorBit[] = [];
+  const uncolorableBits: ColorBit[] = [];
+  for (const level of group) {
+    for (let bit = getBit(level.count) - 1; bit >= 0; bit--) {
+      const mask = maskFromBits(parseNbitMappingToPositions(level.nbits[bit] ?? '') ?? []);
+      // An ID bit without PA bits is always 0 and never tells elements apart.
+      if (mask === 0n) continue;
+      (mask & pageMask ? uncolorableBits : colorBits).push({ level: level.name, bit, mask });
+    }
+  }
+  const groupName = group.map(level => level.name).join('/');
+  if (colorBits.length === 0) return `No ${groupName} ID bit lies above the page offset, so pages of this size cannot be colored`;
+  if (colorBits.length > MAX_COLOR_BITS) return `Too many color bits (${colorBits.length}; the limit is ${MAX_COLOR_BITS})`;
+
+  const frames = usableFrames(usable, pageBytes);
+  const colors: PageColor[] = [];
+  for (let key = 0; key < 2 ** colorBits.length; key++) {
+    const equations = colorBits.map(({ mask }, index) => ({ mask, value: (key >> (colorBits.length - 1 - index)) & 1 }));
+    const set = buildAddressSet(equations, frames);
+    const bytes = set ? addressSetSize(set) : 0n;
+    if (!set || bytes === 0n) continue;
+    colors.push({ key, label: key.toString(2).padStart(colorBits.length, '0'), bytes, set });
+  }
+  return { levels: group, colorBits, uncolorableBits, colors };
+}
+
+export interface VmAllocation {
+  // Keys of the colors only this VM may use.
+  colors: number[];
+  // Capacity of those colors.
+  availableBytes: bigint;
+  // Page-aligned ranges of those colors, cut at the VM's size.
+  ranges: AddressRange[];
+  allocatedBytes: bigint;
+  // The ranges hit MAX_PLANNED_RANGES before the VM's size was reached.
+  truncated: boolean;
+}
+
+export interface PagePlan {
+  vms: VmAllocation[];
+  // Colors no VM needed.
+  spareColors: number[];
+}
+
+// Splits the colors among the VMs. `demands` holds each VM's size in bytes, or null for a VM
+// that takes what is left. Every VM gets one color first; the rest go, one at a time, to the
+// VM that misses the most bytes, and then in turn to the VMs without a size.
+export function planPageColoring(coloring: PageColoring, demands: (bigint | null)[], pageBytes: bigint): PagePlan | string {
+  const { colors } = coloring;
+  if (demands.length === 0) return 'There are no VMs to plan for';
+  if (colors.length < demands.length) {
+    return `Only ${colors.length} page color${colors.length === 1 ? '' : 's'} for ${demands.length} VMs; choose a coarser policy or a smaller page size`;
+  }
+  const roundedDemands = demands.map(demand => (demand === null ? null : ((demand + pageBytes - 1n) / pageBytes) * pageBytes));
+  const assigned: PageColor[][] = demands.map((_, vm) => [colors[vm]]);
+  const available = (vm: number) => assigned[vm].reduce((sum, color) => sum + color.bytes, 0n);
+  const spare: PageColor[] = [];
+  let nextOpen = 0;
+  for (const color of colors.slice(demands.length)) {
+    let neediest = -1;
+    let missing = 0n;
+    roundedDemands.forEach((demand, vm) => {
+      if (demand !== null && demand - available(vm) > missing) { neediest = vm; missing = demand - available(vm); }
+    });
+    if (neediest < 0) {
+      const open = roundedDemands.flatMap((demand, vm) => (demand === null ? [vm] : []));
+      if (open.length === 0) { spare.push(color); continue; }
+      neediest = open[nextOpen++ % open.length];
+    }
+    assigned[neediest].push(color);
+  }
+
+  const vms = assigned.map((vmColors, vm): VmAllocation => {
+    const target = roundedDemands[vm] ?? available(vm);
+    // Colors are taken one after another until the VM's size or the range limit is reached.
+    const pieces: AddressRange[] = [];
+    let gathered = 0n;
+    for (const color of vmColors) {
+      for (const interval of addressSetIntervals(color.set)) {
+        if (gathered >= target || pieces.length === MAX_PLANNED_RANGES) break;
+        pieces.push(interval);
+        gathered += interval.end - interval.start + 1n;
+      }
+    }
+    const ranges: AddressRange[] = [];
+    let remaining = target;
+    for (const range of mergeRanges(pieces)) {
+      if (remaining <= 0n || ranges.length === MAX_PLANNED_RANGES) break;
+      const bytes = range.end - range.start + 1n;
+      ranges.push(bytes <= remaining ? range : { start: range.start, end: range.start + remaining - 1n });
+      remaining -= bytes <= remaining ? bytes : remaining;
+    }
+    return {
+      colors: vmColors.map(color => color.key),
+      availableBytes: available(vm),
+      ranges,
+      allocatedBytes: rangesBytes(ranges),
+      truncated: remaining > 0n && rangesBytes(ranges) < available(vm),
+    };
+  });
+  return { vms, spareColors: spare.map(color => color.key) };
+}
+
+export interface SharedElements {
+  // Elements of the exclusive levels that more than one VM touches.
+  count: number;
+  example: { element: string; vms: number[] } | null;
+}
+
+// Each owner mask is 32 bits wide, and one entry per element keeps memory bounded.
+const MAX_CHECKED_VMS = 32;
+const MAX_CHECKED_ELEMENTS = 1 << 22;
+
+// Checks whether VMs (one list of address ranges each) share any element of `group`, i.e.
+// whether a placement isolates them under an "exclusive <last level of group>" policy.
+export function findSharedElements(group: HierarchyLevel[], vms: AddressRange[][]): SharedElements | string {
+  const keyBits = group.reduce((sum, level) => sum + getBit(level.count), 0);
+  if (2 ** keyBits > MAX_CHECKED_ELEMENTS) return `Too many elements to check (the limit is ${MAX_CHECKED_ELEMENTS.toLocaleString()})`;
+  if (vms.length > MAX_CHECKED_VMS) return `At most ${MAX_CHECKED_VMS} VMs can be checked`;
+  const owners = new Uint32Array(2 ** keyBits);
+  const masks = idBitMasks(group);
+  vms.forEach((ranges, vm) => markRangeKeys(owners, masks, ranges, 1 << vm));
+  let count = 0;
+  let example: SharedElements['example'] = null;
+  owners.forEach((owner, key) => {
+    if ((owner & (owner - 1)) === 0) return;
+    count++;
+    example ??= {
+      element: elementLabel(group, splitKey(group, key)),
+      vms: vms.flatMap((_, vm) => ((owner >>> vm) & 1 ? [vm] : [])),
+    };
+  });
+  return { count, example };
+}
@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_PRESETS, isPresetConsistent } from '../presets';
+import { parseSizeInputToAddressBits } from './helpers';
+import { validateMapping } from './validation';
+
+describe('BUILT_IN_PRESETS', () => {
+  it.each(BUILT_IN_PRESETS.map(preset => [preset.id, preset] as const))('%s passes the consistency checks', (_, preset) => {
+    expect(isPresetConsistent(preset.config)).toBe(true);
+    const addressBits = parseSizeInputToAddressBits(preset.config.totalCapacity);
+    const errors = validateMapping(preset.config.levels, typeof addressBits === 'number' ? addressBits : null).issues.filter(issue => issue.severity === 'error');
+    expect(errors).toEqual([]);
+  });
+});
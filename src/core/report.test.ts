@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { reportToCsv, reportToMarkdown, type AnalysisReport } from './report';
+import { levelUsage } from './usageStats';
+import { resolveAddressSet } from './addressSet';
+import { XOR_LEVELS, XOR_MAPPING, XOR_USABLE } from './testMappings';
+
+const usage = levelUsage([0, 1, 2, 3].map(id => resolveAddressSet([{ type: 'bank', id }], XOR_MAPPING, XOR_USABLE)), [[{ start: 0n, end: 0x3ffn }]]);
+
+const REPORT: AnalysisReport = {
+  totalCapacity: '4KB',
+  levels: XOR_LEVELS,
+  consistency: ['Status: Consistent'],
+  issues: [{ kind: 'unused', severity: 'warning', message: 'PA bits 12, 13 are unused, "for now"' }],
+  decoded: [{ address: '0x440', ids: { bank: 3, row: 4, column: 0 } }],
+  usage: typeof usage === 'string' ? null : { view: 'Banks', levelLabel: 'BK', vmLabels: ['Web | DB'], usage },
+};
+
+describe('reports', () => {
+  it('writes every table as a CSV section with quoted fields', () => {
+    const csv = reportToCsv(REPORT);
+    expect(csv.split('\n\n').map(section => section.split('\n')[0])).toEqual([
+      'Address Mapping', 'Consistency', 'Decoded Addresses', 'VM Usage: Banks', 'VM Usage Summary: Banks',
+    ]);
+    expect(csv).toContain('Bank,4,0,"6,9"');
+    expect(csv).toContain('Warning,"PA bits 12, 13 are unused, ""for now"""');
+    expect(csv).toContain('BK 0,1024,256,25.0%');
+  });
+
+  it('writes Markdown tables and escapes pipes', () => {
+    const markdown = reportToMarkdown(REPORT);
+    expect(markdown).toContain('## Decoded Addresses\n\n| Address | Bank | Row | Column |\n| --- | --- | --- | --- |\n| 0x440 | 3 | 4 | 0 |');
+    expect(markdown).toContain('| Web \\| DB bytes |');
+  });
+});
@@ -0,0 +1,106 @@
+import { levelKey, type HierarchyLevel } from './hierarchy';
+import type { MappingIssue } from './validation';
+import type { LevelUsage } from './usageStats';
+
+// --- Analysis Report ---
+// The mapping and what the tool concluded about it, as Markdown for documents and as CSV for
+// spreadsheets. Both are built from the same tables.
+
+export interface DecodedAddressRow {
+  address: string;
+  // Present when the system map moves the address.
+  dramAddress?: string;
+  // Per level key; a string is a message such as "Invalid address".
+  ids: Record<string, number | string>;
+}
+
+export interface AnalysisReport {
+  totalCapacity: string;
+  levels: HierarchyLevel[];
+  // Lines of the bit-count consistency check, e.g. "Status: Consistent".
+  consistency: string[];
+  issues: MappingIssue[];
+  decoded: DecodedAddressRow[];
+  // Per-element VM usage of one view; `view` names it, e.g. "Banks in Ch0 > Rk1".
+  usage: { view: string; levelLabel: string; vmLabels: string[]; usage: LevelUsage } | null;
+}
+
+interface ReportTable { title: string; header: string[]; rows: string[][]; }
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+function reportTables(report: AnalysisReport): ReportTable[] {
+  const tables: ReportTable[] = [{
+    title: 'Address Mapping',
+    header: ['Level', 'Count', 'ID bit', 'PA bits'],
+    rows: report.levels.flatMap(level => (level.nbits.length === 0
+      ? [[level.name, String(level.count), '', '']]
+      : level.nbits.map((bits, index) => [level.name, String(level.count), String(index), bits]))),
+  }, {
+    title: 'Consistency',
+    header: ['Check', 'Result'],
+    rows: [
+      ['Total capacity', report.totalCapacity || '(not set)'],
+      ...report.consistency.map(line => {
+        const colon = line.indexOf(':');
+        return colon < 0 ? ['', line] : [line.slice(0, colon), line.slice(colon + 1).trim()];
+      }),
+      ...report.issues.map(issue => [issue.severity === 'error' ? 'Error' : 'Warning', issue.message]),
+    ],
+  }];
+  if (report.decoded.length > 0) {
+    const withDram = report.decoded.some(row => row.dramAddress !== undefined);
+    tables.push({
+      title: 'Decoded Addresses',
+      header: ['Address', ...(withDram ? ['DRAM address'] : []), ...report.levels.map(level => level.name)],
+      rows: report.decoded.map(row => [
+        row.address, ...(withDram ? [row.dramAddress ?? row.address] : []), ...report.levels.map(level => String(row.ids[levelKey(level.name)] ?? '')),
+      ]),
+    });
+  }
+  if (report.usage) {
+    const { view, levelLabel, vmLabels, usage } = report.usage;
+    tables.push({
+      title: `VM Usage: ${view}`,
+      header: ['Element', 'Capacity', ...vmLabels.flatMap(label => [`${label} bytes`, `${label} share`])],
+      rows: usage.elements.map(element => [
+        `${levelLabel} ${element.id}`, String(element.capacity),
+        ...element.vmBytes.flatMap(bytes => [String(bytes), element.capacity > 0n ? percent(Number(bytes) / Number(element.capacity)) : '']),
+      ]),
+    }, {
+      title: `VM Usage Summary: ${view}`,
+      header: ['VM', 'Bytes', 'Share', 'Min', 'Max', 'Mean', 'Std dev', 'Touched'],
+      rows: usage.vms.map((summary, vm) => [
+        vmLabels[vm], String(summary.total), percent(summary.share), String(summary.min), String(summary.max),
+        summary.mean.toFixed(1), summary.stddev.toFixed(1), `${summary.touched} / ${usage.elements.length}`,
+      ]),
+    });
+  }
+  return tables;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One CSV file with a section per table: a title line, the header and the rows, then a blank line.
+export function reportToCsv(report: AnalysisReport): string {
+  return reportTables(report)
+    .map(table => [[table.title], table.header, ...table.rows].map(row => row.map(csvField).join(',')).join('\n'))
+    .join('\n\n') + '\n';
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ') || ' ';
+}
+
+export function reportToMarkdown(report: AnalysisReport): string {
+  const sections = reportTables(report).map(table => [
+    `## ${table.title}`,
+    '',
+    `| ${table.header.map(markdownCell).join(' | ')} |`,
+    `| ${table.header.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+  ].join('\n'));
+  return ['# DRAM Mapping Report', '', ...sections.flatMap(section => [section, ''])].join('\n');
+}
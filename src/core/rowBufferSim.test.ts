@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { generateAccessStream, simulateRowBuffer } from './rowBufferSim';
+import { decodeTrace, parseTraceText } from './trace';
+import { XOR_LEVELS, XOR_MAPPING } from './testMappings';
+
+// Bank 0 row 0, the same row again, bank 0 row 1 (PA bit 8), bank 1 row 0, bank 0 row 1 again.
+const trace = parseTraceText('0x000\n0x010\n0x100\n0x040\n0x100', 'hand-made');
+const decoded = decodeTrace(trace, XOR_MAPPING);
+const TIMINGS = { tRCD: 10, tRP: 30, tCAS: 1 };
+
+describe('simulateRowBuffer', () => {
+  it('counts hits, misses and conflicts with an open-page policy', () => {
+    const result = simulateRowBuffer(decoded, trace.count, XOR_LEVELS, 'open', TIMINGS);
+    expect(result.totals).toEqual({ accesses: 5, hits: 2, misses: 2, conflicts: 1 });
+    expect(result.banks).toMatchObject([
+      { accesses: 4, hits: 2, misses: 1, conflicts: 1 },
+      { accesses: 1, hits: 0, misses: 1, conflicts: 0 },
+    ]);
+    // Two misses of 11 ns, two hits of 1 ns and a 41 ns conflict.
+    expect(result.averageLatency).toBe(13);
+  });
+
+  it('misses on every access with a closed-page policy', () => {
+    const result = simulateRowBuffer(decoded, trace.count, XOR_LEVELS, 'closed', TIMINGS);
+    expect(result.totals).toEqual({ accesses: 5, hits: 0, misses: 5, conflicts: 0 });
+    expect(result.banks.map(bank => bank.misses)).toEqual([4, 1]);
+    expect(result.averageLatency).toBe(11);
+  });
+});
+
+describe('generateAccessStream', () => {
+  it('skips holes between the usable ranges and wraps at their end', () => {
+    const usable = [{ start: 0n, end: 0x7fn }, { start: 0x200n, end: 0x27fn }];
+    const stream = generateAccessStream({ pattern: 'sequential', count: 5, start: 0x40n, stride: 0n, usable, seed: 1 });
+    expect(Array.from(stream.addressLo)).toEqual([0x40, 0x200, 0x240, 0x0, 0x40]);
+    const random = generateAccessStream({ pattern: 'random', count: 100, start: 0n, stride: 0n, usable, seed: 1 });
+    expect(Array.from(random.addressLo).every(address => address < 0x80 || (address >= 0x200 && address < 0x280))).toBe(true);
+  });
+});
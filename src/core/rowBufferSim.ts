@@ -0,0 +1,140 @@
+import { getBit } from './helpers';
+import { elementLabel, levelKey, splitRowBufferLevels, type HierarchyLevel } from './hierarchy';
+import type { DecodedTrace, MemoryTrace } from './trace';
+import type { AddressRange } from './addressSet';
+import { rangesBytes } from './vmMemory';
+
+// --- Row-Buffer Simulation ---
+// A deliberately simple model: one row buffer per bank (see splitRowBufferLevels), no
+// queueing and no bank parallelism. It is meant for comparing mappings, not for absolute timing.
+
+export type PagePolicy = 'open' | 'closed';
+
+// All timings in nanoseconds.
+export interface DramTimings { tRCD: number; tRP: number; tCAS: number; }
+
+export interface RowBufferCounts { accesses: number; hits: number; misses: number; conflicts: number; }
+
+export interface BankRowBufferStats extends RowBufferCounts { label: string; }
+
+export interface RowBufferSimulation {
+  totals: RowBufferCounts;
+  banks: BankRowBufferStats[];
+  averageLatency: number;
+}
+
+export type AccessPattern = 'sequential' | 'strided' | 'random';
+
+export interface AccessStreamOptions {
+  pattern: AccessPattern;
+  count: number;
+  start: bigint;
+  stride: bigint;
+  // The DRAM ranges accesses may hit. Random accesses are drawn from them and strided accesses
+  // wrap around at their end; offsets count usable bytes only, so holes are skipped. Empty
+  // ranges leave strided accesses unwrapped.
+  usable: AddressRange[];
+  seed: number;
+}
+
+const ACCESS_GRANULARITY = 64n;
+
+// mulberry32: small, fast and reproducible for a given seed.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The address `offset` bytes into the usable ranges.
+function usableAddress(usable: AddressRange[], offset: bigint): bigint {
+  for (const range of usable) {
+    const bytes = range.end - range.start + 1n;
+    if (offset < bytes) return range.start + offset;
+    offset -= bytes;
+  }
+  return offset;
+}
+
+export function generateAccessStream(options: AccessStreamOptions): MemoryTrace {
+  const { pattern, count, start, usable } = options;
+  const limit = rangesBytes(usable);
+  const addressLo = new Uint32Array(count);
+  const addressHi = new Uint32Array(count);
+  const random = createRandom(options.seed);
+  const stride = pattern === 'sequential' ? ACCESS_GRANULARITY : options.stride;
+  const lineCount = limit / ACCESS_GRANULARITY;
+  for (let i = 0; i < count; i++) {
+    let address: bigint;
+    if (pattern === 'random') {
+      const line = (BigInt(Math.floor(random() * 2 ** 26)) << 26n) | BigInt(Math.floor(random() * 2 ** 26));
+      address = usableAddress(usable, (line % (lineCount > 0n ? lineCount : 1n)) * ACCESS_GRANULARITY);
+    } else {
+      address = limit > 0n ? usableAddress(usable, (start + BigInt(i) * stride) % limit) : start + BigInt(i) * stride;
+    }
+    addressLo[i] = Number(address & 0xffffffffn);
+    addressHi[i] = Number((address >> 32n) & 0xffffffffn);
+  }
+  return {
+    name: pattern === 'random' ? `${count} random accesses` : `${count} ${pattern} accesses (stride ${stride})`,
+    count, addressLo, addressHi, isWrite: new Uint8Array(count), skippedLines: 0,
+  };
+}
+
+export function simulateRowBuffer(
+  decoded: DecodedTrace,
+  accessCount: number,
+  levels: HierarchyLevel[],
+  policy: PagePolicy,
+  timings: DramTimings
+): RowBufferSimulation {
+  const { bankLevels, rowLevels } = splitRowBufferLevels(levels);
+  // Sized by ID bit width rather than count, so every decodable ID has a slot.
+  const bankSizes = bankLevels.map(level => 2 ** getBit(level.count));
+  const bankCount = bankSizes.reduce((product, size) => product * size, 1);
+  const bankIds = bankLevels.map(level => decoded[levelKey(level.name)]);
+  const rowIds = rowLevels.map(level => ({ ids: decoded[levelKey(level.name)], size: 2 ** getBit(level.count) }));
+  const openRows = new Float64Array(bankCount).fill(-1);
+  const perBank = new Map<number, RowBufferCounts>();
+  const totals: RowBufferCounts = { accesses: 0, hits: 0, misses: 0, conflicts: 0 };
+  let totalLatency = 0;
+
+  for (let i = 0; i < accessCount; i++) {
+    let bank = 0;
+    bankIds.forEach((ids, index) => { bank = bank * bankSizes[index] + (ids?.[i] ?? 0); });
+    let row = 0;
+    rowIds.forEach(({ ids, size }) => { row = row * size + (ids?.[i] ?? 0); });
+    const stats = perBank.get(bank) ?? { accesses: 0, hits: 0, misses: 0, conflicts: 0 };
+    perBank.set(bank, stats);
+    stats.accesses++; totals.accesses++;
+
+    if (policy === 'closed' || openRows[bank] < 0) {
+      stats.misses++; totals.misses++;
+      totalLatency += timings.tRCD + timings.tCAS;
+    } else if (openRows[bank] === row) {
+      stats.hits++; totals.hits++;
+      totalLatency += timings.tCAS;
+    } else {
+      stats.conflicts++; totals.conflicts++;
+      totalLatency += timings.tRP + timings.tRCD + timings.tCAS;
+    }
+    openRows[bank] = policy === 'open' ? row : -1;
+  }
+
+  const banks = Array.from(perBank.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bank, stats]) => {
+      const ids: number[] = [];
+      let rest = bank;
+      for (let index = bankLevels.length - 1; index >= 0; index--) { ids.unshift(rest % bankSizes[index]); rest = Math.floor(rest / bankSizes[index]); }
+      const label = elementLabel(bankLevels, ids) || 'Bank';
+      return { label, ...stats };
+    });
+
+  return { totals, banks, averageLatency: accessCount > 0 ? totalLatency / accessCount : 0 };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { remapRow, rowNeighbours, findAdjacentVmRows, type RowRemapping } from './rowHammer';
+import { decodeAddress } from './decode';
+import { XOR_LEVELS, XOR_MAPPING, XOR_CAPACITY } from './testMappings';
+import type { AddressRange } from './addressSet';
+
+const neighbourRows = (row: number, remapping: RowRemapping) =>
+  rowNeighbours([{ type: 'Bank', id: 1 }, { type: 'Row', id: row }], XOR_LEVELS, remapping)
+    .map(neighbour => [neighbour.offset, neighbour.path[1].id]);
+
+// Reference: decode every address and compare owners of rows in the same bank directly.
+function bruteForcePairs(vms: AddressRange[][], remapping: RowRemapping): Record<string, number[]> {
+  const owners = new Map<string, Set<number>>();
+  for (let address = 0n; address < XOR_CAPACITY; address++) {
+    const ids = decodeAddress(address, XOR_MAPPING);
+    const key = `${ids.bank}/${remapRow(ids.row, 4, remapping)}`;
+    vms.forEach((ranges, vm) => {
+      if (ranges.some(range => address >= range.start && address <= range.end)) owners.set(key, (owners.get(key) ?? new Set()).add(vm));
+    });
+  }
+  const pairs: Record<string, number[]> = {};
+  for (let bank = 0; bank < 4; bank++) {
+    for (let row = 0; row < 16; row++) {
+      for (let distance = 1; distance <= 2 && row + distance < 16; distance++) {
+        const here = owners.get(`${bank}/${row}`) ?? new Set();
+        const there = owners.get(`${bank}/${row + distance}`) ?? new Set();
+        for (let a = 0; a < vms.length; a++) {
+          for (let b = a + 1; b < vms.length; b++) {
+            if (!((here.has(a) && there.has(b)) || (here.has(b) && there.has(a)))) continue;
+            pairs[`${a}-${b}`] ??= [0, 0];
+            pairs[`${a}-${b}`][distance - 1]++;
+          }
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+describe('row remapping', () => {
+  it('mirrors and scrambles row bits reversibly', () => {
+    expect(remapRow(0b01000, 16, 'mirror')).toBe(0b10000);
+    expect(remapRow(0b01000, 16, 'scramble')).toBe(0b01110);
+    for (const remapping of ['mirror', 'scramble'] as RowRemapping[]) {
+      const images = new Set(Array.from({ length: 512 }, (_, row) => remapRow(row, 9, remapping)));
+      expect(images.size).toBe(512);
+      for (let row = 0; row < 512; row++) expect(remapRow(remapRow(row, 9, remapping), 9, remapping)).toBe(row);
+    }
+  });
+});
+
+describe('rowNeighbours', () => {
+  it('lists the rows within two physical rows in the same bank', () => {
+    expect(neighbourRows(5, 'none')).toEqual([[-2, 3], [-1, 4], [1, 6], [2, 7]]);
+    expect(neighbourRows(0, 'none')).toEqual([[1, 1], [2, 2]]);
+  });
+
+  it('follows the remapping', () => {
+    // Logical row 7 is physical row 7; physical rows 8 and 9 are logical rows 14 and 15.
+    expect(neighbourRows(7, 'scramble')).toEqual([[-2, 5], [-1, 6], [1, 14], [2, 15]]);
+  });
+});
+
+describe('findAdjacentVmRows', () => {
+  // The last VM is made of two separate pieces, like a VM backed by page frames.
+  const vms = [
+    [{ start: 0x000n, end: 0x1ffn }],
+    [{ start: 0x200n, end: 0x5ffn }],
+    [{ start: 0xa40n, end: 0xa7fn }, { start: 0xe00n, end: 0xe3fn }],
+  ];
+
+  it('matches a brute-force check of every address', () => {
+    for (const remapping of ['none', 'scramble'] as RowRemapping[]) {
+      const result = findAdjacentVmRows(XOR_LEVELS, vms, remapping);
+      if (typeof result === 'string') throw new Error(result);
+      const pairs = Object.fromEntries(result.map(pair => [`${pair.vmA}-${pair.vmB}`, pair.pairsByDistance]));
+      expect(pairs).toEqual(bruteForcePairs(vms, remapping));
+    }
+  });
+
+  it('gives an example location and refuses oversized hierarchies', () => {
+    const result = findAdjacentVmRows(XOR_LEVELS, vms.slice(0, 2), 'none');
+    expect(typeof result !== 'string' && result[0].example).toEqual({ bank: 'Bk0', rowA: 'Row1', rowB: 'Row2', distance: 1 });
+    const huge = XOR_LEVELS.map(level => (level.name === 'Row' ? { ...level, count: 1 << 22 } : level));
+    expect(findAdjacentVmRows(huge, vms, 'none')).toMatch(/^Too many rows to analyze/);
+  });
+});
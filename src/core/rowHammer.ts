@@ -0,0 +1,144 @@
+import { getBit } from './helpers';
+import { elementLabel, levelKey, splitRowBufferLevels, type HierarchyLevel } from './hierarchy';
+import { idBitMasks, markRangeKeys, splitKey } from './idImage';
+import type { AddressRange, HierarchyPathSegment } from './addressSet';
+
+// --- Row-Hammer Adjacency ---
+// Rows can only disturb each other within one bank. Banks are identified as in the
+// row-buffer model (splitRowBufferLevels), and the row address inside a bank is formed from
+// the row levels' IDs, outermost first. Some DIMMs remap that address before it reaches the
+// cell array, so adjacency is decided on the remapped (physical) row address.
+
+export type RowRemapping = 'none' | 'mirror' | 'scramble';
+
+export const ROW_REMAPPING_LABELS: Record<RowRemapping, string> = {
+  none: 'None (logical = physical)',
+  mirror: 'Mirrored (swap row bits 3/4, 5/6, 7/8)',
+  scramble: 'Scrambled (row bit 3 XOR into bits 1 and 2)',
+};
+
+// DDR4 address mirroring, as applied to the odd ranks of many dual-rank modules.
+const MIRRORED_BIT_PAIRS = [[3, 4], [5, 6], [7, 8]];
+
+// Both remappings are involutions, so the same function also maps physical rows back.
+export function remapRow(row: number, rowBits: number, remapping: RowRemapping): number {
+  if (remapping === 'mirror') {
+    return MIRRORED_BIT_PAIRS.reduce((result, [a, b]) => (
+      b < rowBits && ((result >> a) & 1) !== ((result >> b) & 1) ? result ^ ((1 << a) | (1 << b)) : result
+    ), row);
+  }
+  if (remapping === 'scramble' && rowBits > 3 && (row >> 3) & 1) return row ^ 0b110;
+  return row;
+}
+
+interface RowGeometry {
+  bankLevels: HierarchyLevel[];
+  rowLevels: HierarchyLevel[];
+  bankBits: number;
+  rowBits: number;
+}
+
+function rowGeometry(levels: HierarchyLevel[]): RowGeometry {
+  const { bankLevels, rowLevels } = splitRowBufferLevels(levels);
+  const bitsOf = (group: HierarchyLevel[]) => group.reduce((sum, level) => sum + getBit(level.count), 0);
+  return { bankLevels, rowLevels, bankBits: bitsOf(bankLevels), rowBits: bitsOf(rowLevels) };
+}
+
+// The level whose elements are rows (the last of the row levels).
+export function rowLevelOf(levels: HierarchyLevel[]): HierarchyLevel | undefined {
+  const { rowLevels } = splitRowBufferLevels(levels);
+  return rowLevels[rowLevels.length - 1];
+}
+
+export interface RowNeighbour {
+  // Physical distance from the selected row, negative for rows below it.
+  offset: number;
+  path: HierarchyPathSegment[];
+}
+
+// The rows up to `maxDistance` physical rows away from the row on `path`, in the same bank.
+// `path` must name every bank and row level; neighbours differ from it only in the row levels.
+export function rowNeighbours(path: HierarchyPathSegment[], levels: HierarchyLevel[], remapping: RowRemapping, maxDistance = 2): RowNeighbour[] {
+  const { rowLevels, rowBits } = rowGeometry(levels);
+  const idOf = (level: HierarchyLevel) => path.find(segment => levelKey(segment.type) === levelKey(level.name))?.id ?? 0;
+  const logical = rowLevels.reduce((row, level) => row * 2 ** getBit(level.count) + idOf(level), 0);
+  const physical = remapRow(logical, rowBits, remapping);
+  const neighbours: RowNeighbour[] = [];
+  for (let offset = -maxDistance; offset <= maxDistance; offset++) {
+    const neighbour = physical + offset;
+    if (offset === 0 || neighbour < 0 || neighbour >= 2 ** rowBits) continue;
+    const ids = splitKey(rowLevels, remapRow(neighbour, rowBits, remapping));
+    // IDs past a non-power-of-two count have no element behind them.
+    if (ids.some((id, index) => id >= rowLevels[index].count)) continue;
+    const idByLevel = new Map(rowLevels.map((level, index) => [levelKey(level.name), ids[index]]));
+    neighbours.push({ offset, path: path.map(segment => ({ type: segment.type, id: idByLevel.get(levelKey(segment.type)) ?? segment.id })) });
+  }
+  return neighbours;
+}
+
+export interface VmRowAdjacency {
+  // Indices into the VMs passed to findAdjacentVmRows, vmA < vmB.
+  vmA: number;
+  vmB: number;
+  // Row pairs one VM owns one row of and the other VM the other, by distance (index 0 = ±1).
+  pairsByDistance: number[];
+  example: { bank: string; rowA: string; rowB: string; distance: number };
+}
+
+// One bit per (bank, physical row) and VM; the owner masks are 32 bits wide.
+export const MAX_ANALYZED_ROWS = 1 << 22;
+const MAX_ANALYZED_VMS = 32;
+
+// Every pair of VMs that own physically adjacent rows in some bank, busiest pair first, or a
+// message when the hierarchy has too many rows or there are too many VMs. `vms` holds the
+// address ranges of each VM.
+export function findAdjacentVmRows(levels: HierarchyLevel[], vms: AddressRange[][], remapping: RowRemapping, maxDistance = 2): VmRowAdjacency[] | string {
+  const geometry = rowGeometry(levels);
+  const { bankLevels, rowLevels, bankBits, rowBits } = geometry;
+  const rowsPerBank = 2 ** rowBits;
+  const keyCount = 2 ** (bankBits + rowBits);
+  if (keyCount > MAX_ANALYZED_ROWS) return `Too many rows to analyze (${keyCount.toLocaleString()} across all banks; the limit is ${MAX_ANALYZED_ROWS.toLocaleString()})`;
+  if (vms.length > MAX_ANALYZED_VMS) return `At most ${MAX_ANALYZED_VMS} VMs can be analyzed`;
+
+  const masks = idBitMasks([...bankLevels, ...rowLevels]);
+  const toIndex = (key: number) => key - (key % rowsPerBank) + remapRow(key % rowsPerBank, rowBits, remapping);
+  const owners = new Uint32Array(keyCount);
+  vms.forEach((ranges, vm) => markRangeKeys(owners, masks, ranges, 1 << vm, toIndex));
+
+  const pairs = new Map<number, VmRowAdjacency>();
+  const labelRow = (physical: number) => elementLabel(rowLevels, splitKey(rowLevels, remapRow(physical, rowBits, remapping)));
+  for (let bankStart = 0; bankStart < keyCount; bankStart += rowsPerBank) {
+    for (let row = 0; row < rowsPerBank; row++) {
+      const here = owners[bankStart + row];
+      if (here === 0) continue;
+      for (let distance = 1; distance <= maxDistance && row + distance < rowsPerBank; distance++) {
+        const there = owners[bankStart + row + distance];
+        if (there === 0 || (here === there && (here & (here - 1)) === 0)) continue;
+        const involved = here | there;
+        for (let a = 0; a < vms.length; a++) {
+          if (!((involved >>> a) & 1)) continue;
+          for (let b = a + 1; b < vms.length; b++) {
+            const adjacent = (((here >>> a) & (there >>> b)) | ((here >>> b) & (there >>> a))) & 1;
+            if (!adjacent) continue;
+            const pairKey = a * MAX_ANALYZED_VMS + b;
+            const example = () => ({
+              bank: elementLabel(bankLevels, splitKey(bankLevels, bankStart / rowsPerBank)) || 'Bank',
+              rowA: labelRow(row), rowB: labelRow(row + distance), distance,
+            });
+            let pair = pairs.get(pairKey);
+            if (!pair) {
+              pair = { vmA: a, vmB: b, pairsByDistance: Array.from({ length: maxDistance }, () => 0), example: example() };
+              pairs.set(pairKey, pair);
+            } else if (distance < pair.example.distance) {
+              // The example shows the closest pair found.
+              pair.example = example();
+            }
+            pair.pairsByDistance[distance - 1]++;
+          }
+        }
+      }
+    }
+  }
+  const total = (pair: VmRowAdjacency) => pair.pairsByDistance.reduce((sum, count) => sum + count, 0);
+  return [...pairs.values()].sort((x, y) => total(y) - total(x) || x.vmA - y.vmA || x.vmB - y.vmB);
+}
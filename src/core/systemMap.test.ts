@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseSystemMap, systemToDram, dramToSystem, systemRangesToDram, dramRangesToSystem, systemMapFromReserved, usableDramRanges } from './systemMap';
+
+// 2 KB of DRAM: the first KB at system 0x0, the second remapped above a hole to 0x1000.
+const WINDOWS = parseSystemMap([
+  { name: 'High', systemBase: '0x1000', size: '0x400', dramBase: '0x400' },
+  { name: 'Low', systemBase: '0x0', size: '0x400', dramBase: '0x0' },
+  { name: 'Broken', systemBase: 'zz', size: '0x400', dramBase: '0x0' },
+]);
+
+describe('system map', () => {
+  it('keeps valid windows in system-address order', () => {
+    expect(WINDOWS.map(window => window.name)).toEqual(['Low', 'High']);
+  });
+
+  it('translates single addresses both ways', () => {
+    expect(systemToDram(WINDOWS, 0x3ffn)).toBe(0x3ffn);
+    expect(systemToDram(WINDOWS, 0x1010n)).toBe(0x410n);
+    expect(systemToDram(WINDOWS, 0x800n)).toBeNull();
+    expect(dramToSystem(WINDOWS, 0x410n)).toBe(0x1010n);
+    expect(dramToSystem(WINDOWS, 0x800n)).toBeNull();
+    expect(systemToDram([], 0x800n)).toBe(0x800n);
+  });
+
+  it('translates ranges and drops the holes', () => {
+    const system = [{ start: 0x200n, end: 0x11ffn }];
+    expect(systemRangesToDram(WINDOWS, system)).toEqual([{ start: 0x200n, end: 0x5ffn }]);
+    expect(dramRangesToSystem(WINDOWS, [{ start: 0x200n, end: 0x5ffn }])).toEqual([{ start: 0x200n, end: 0x3ffn }, { start: 0x1000n, end: 0x11ffn }]);
+  });
+
+  it('packs the memory between reserved regions into DRAM', () => {
+    const { entries, dramBytes } = systemMapFromReserved([{ name: 'PCI', baseAddress: '0x400', size: '0xc00' }], 0x1400n);
+    expect(dramBytes).toBe(0x800n);
+    expect(parseSystemMap(entries)).toEqual(WINDOWS.map((window, index) => ({ ...window, name: `DRAM ${index + 1}` })));
+  });
+
+  it('finds the DRAM that memory can be at', () => {
+    const reserved = [{ name: 'PCI', baseAddress: '0x400', size: '0x100' }];
+    expect(usableDramRanges(0x800n, reserved, [])).toEqual([{ start: 0n, end: 0x3ffn }, { start: 0x500n, end: 0x7ffn }]);
+    // With windows the holes are system addresses; only DRAM behind a window counts.
+    expect(usableDramRanges(0x1000n, reserved, WINDOWS)).toEqual([{ start: 0n, end: 0x7ffn }]);
+    expect(usableDramRanges(0n, reserved, [])).toEqual([]);
+  });
+});
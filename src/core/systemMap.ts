@@ -0,0 +1,95 @@
+import { formatHexAddress, parseHexAddress, parseHexDataSizeToBytes } from './helpers';
+import type { AddressRange } from './addressSet';
+import type { ReservedRegion, SystemMapEntry } from './config';
+import { clipRanges, intersectRanges, mergeRanges, reservedRanges, subtractRanges } from './vmMemory';
+
+// --- System Address Map ---
+// The mapping decodes DRAM addresses, which only equal system physical addresses when DRAM
+// starts at 0 and has no holes. Real systems put MMIO below 4 GB and remap the DRAM behind
+// it above 4 GB, and multi-socket systems give each node its own range. A system map lists
+// the system-address windows backed by DRAM and where in DRAM each one starts. Without a
+// map, system and DRAM addresses are the same.
+
+export interface SystemWindow {
+  name: string;
+  start: bigint;
+  end: bigint;
+  // DRAM address of `start`.
+  dramStart: bigint;
+}
+
+// Windows of the valid entries in system-address order; invalid entries are left out
+// (validateConfig reports them).
+export function parseSystemMap(entries: SystemMapEntry[]): SystemWindow[] {
+  return entries.flatMap(entry => {
+    const start = parseHexAddress(entry.systemBase);
+    const size = parseHexDataSizeToBytes(entry.size);
+    const dramStart = parseHexAddress(entry.dramBase);
+    if (start === null || typeof size === 'string' || dramStart === null) return [];
+    return [{ name: entry.name, start, end: start + size - 1n, dramStart }];
+  }).sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+}
+
+// Null when no window covers the address, i.e. there is no DRAM behind it.
+export function systemToDram(windows: SystemWindow[], address: bigint): bigint | null {
+  if (windows.length === 0) return address;
+  const window = windows.find(candidate => address >= candidate.start && address <= candidate.end);
+  return window ? address - window.start + window.dramStart : null;
+}
+
+// The first system address that reaches a DRAM address, or null when none does.
+export function dramToSystem(windows: SystemWindow[], address: bigint): bigint | null {
+  if (windows.length === 0) return address;
+  const window = windows.find(candidate => address >= candidate.dramStart && address <= candidate.dramStart + candidate.end - candidate.start);
+  return window ? address - window.dramStart + window.start : null;
+}
+
+// The DRAM behind system ranges; parts that fall into no window are dropped.
+export function systemRangesToDram(windows: SystemWindow[], ranges: AddressRange[]): AddressRange[] {
+  if (windows.length === 0) return ranges;
+  return mergeRanges(windows.flatMap(window => ranges.flatMap(range => {
+    const start = range.start > window.start ? range.start : window.start;
+    const end = range.end < window.end ? range.end : window.end;
+    return start <= end ? [{ start: start - window.start + window.dramStart, end: end - window.start + window.dramStart }] : [];
+  })));
+}
+
+// The system ranges that reach DRAM ranges; DRAM no window reaches is dropped.
+export function dramRangesToSystem(windows: SystemWindow[], ranges: AddressRange[]): AddressRange[] {
+  if (windows.length === 0) return ranges;
+  return mergeRanges(windows.flatMap(window => ranges.flatMap(range => {
+    const dramEnd = window.dramStart + window.end - window.start;
+    const start = range.start > window.dramStart ? range.start : window.dramStart;
+    const end = range.end < dramEnd ? range.end : dramEnd;
+    return start <= end ? [{ start: start - window.dramStart + window.start, end: end - window.dramStart + window.start }] : [];
+  })));
+}
+
+// The DRAM addresses below the capacity that memory can be at. Without a map, system and DRAM
+// addresses are the same, so the reserved holes are cut out; with one, the holes are system
+// addresses the windows already skip, and only the DRAM behind some window is reachable.
+export function usableDramRanges(capacity: bigint, reserved: ReservedRegion[], windows: SystemWindow[]): AddressRange[] {
+  if (capacity <= 0n) return [];
+  const whole = [{ start: 0n, end: capacity - 1n }];
+  if (windows.length === 0) return subtractRanges(whole, reservedRanges(reserved));
+  return intersectRanges(mergeRanges(windows.map(window => ({ start: window.dramStart, end: window.dramStart + window.end - window.start }))), whole);
+}
+
+// A map that packs the memory between reserved regions back to back into DRAM, the way a
+// memory controller remaps the DRAM hidden behind an MMIO hole. `top` is one past the
+// highest system address with DRAM behind it.
+export function systemMapFromReserved(reserved: ReservedRegion[], top: bigint): { entries: SystemMapEntry[]; dramBytes: bigint } {
+  const holes = clipRanges(reservedRanges(reserved), top);
+  const entries: SystemMapEntry[] = [];
+  let dramBytes = 0n;
+  let next = 0n;
+  for (const hole of [...holes, { start: top, end: top }]) {
+    if (hole.start > next) {
+      const size = hole.start - next;
+      entries.push({ name: `DRAM ${entries.length + 1}`, systemBase: formatHexAddress(next), size: formatHexAddress(size), dramBase: formatHexAddress(dramBytes) });
+      dramBytes += size;
+    }
+    next = hole.end + 1n;
+  }
+  return { entries, dramBytes };
+}
@@ -0,0 +1,30 @@
+import { buildHierarchy, mappingOf, type HierarchyLevel } from './hierarchy';
+import type { NbitMappingConfig } from './helpers';
+import type { AddressRange } from './addressSet';
+
+// Shared fixture for the unit tests: a 4 KiB system with 64-byte columns (byte offset
+// included), 4 banks selected by XOR hashes and 16 rows. All 12 PA bits are used once
+// as a direct bit or as part of a hash, so the mapping is a bijection on [0, 4096).
+const XOR_NBITS: Record<string, string[]> = {
+  Bank: ['6,9', '7,10'],
+  Row: ['8', '9', '10', '11'],
+  Column: ['0', '1', '2', '3', '4', '5'],
+};
+
+// The XOR hierarchy (Bank > Row > Column), optionally with some levels' fields replaced.
+export function xorLevels(nbits: Record<string, string[]> = {}): HierarchyLevel[] {
+  return buildHierarchy(['Bank', 'Row', 'Column'], {
+    Bank: [4, nbits.Bank ?? XOR_NBITS.Bank],
+    Row: [16, nbits.Row ?? XOR_NBITS.Row],
+    Column: [64, nbits.Column ?? XOR_NBITS.Column],
+  });
+}
+
+export const XOR_LEVELS = xorLevels();
+
+export const XOR_MAPPING: NbitMappingConfig = mappingOf(XOR_LEVELS);
+
+export const XOR_CAPACITY = 4096n;
+
+// The whole capacity, without holes.
+export const XOR_USABLE: AddressRange[] = [{ start: 0n, end: XOR_CAPACITY - 1n }];
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseTraceText, decodeTrace, traceAddressAt, countAccessesPerElement } from './trace';
+import { XOR_MAPPING } from './testMappings';
+
+const TRACE_TEXT = '# ramulator trace\n0x0 R\n0x40 W 100\n\n240 read\nbogus\n0x300000040 WRITE\n0x80 X 5';
+
+describe('parseTraceText', () => {
+  it('skips comments and blank lines and counts unparsable lines', () => {
+    const trace = parseTraceText(TRACE_TEXT, 'test');
+    expect(trace).toMatchObject({ name: 'test', count: 4, skippedLines: 2 });
+    expect(Array.from(trace.isWrite)).toEqual([0, 1, 0, 1]);
+  });
+
+  it('keeps addresses above 2^32 in the high half', () => {
+    const trace = parseTraceText(TRACE_TEXT, 'test');
+    expect(Array.from({ length: trace.count }, (_, index) => traceAddressAt(trace, index))).toEqual([0x0n, 0x40n, 0x240n, 0x300000040n]);
+    expect(trace.addressHi[3]).toBe(3);
+  });
+});
+
+describe('decodeTrace', () => {
+  it('decodes every access like decodeAddress', () => {
+    const decoded = decodeTrace(parseTraceText(TRACE_TEXT, 'test'), XOR_MAPPING);
+    // 0x240: bank bit 0 = 6^9 = 0 and row bit 1 = PA 9; 0x300000040 decodes by its low half.
+    expect(Array.from(decoded.bank)).toEqual([0, 1, 0, 1]);
+    expect(Array.from(decoded.row)).toEqual([0, 0, 2, 0]);
+    expect(Array.from(decoded.column)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('XORs PA bits of the high half', () => {
+    const decoded = decodeTrace(parseTraceText(TRACE_TEXT, 'test'), { bank: ['33', '6'] });
+    expect(Array.from(decoded.bank)).toEqual([0, 2, 2, 3]);
+  });
+
+  it('buckets accesses per element under a path', () => {
+    const trace = parseTraceText(TRACE_TEXT, 'test');
+    const decoded = decodeTrace(trace, XOR_MAPPING);
+    expect(Array.from(countAccessesPerElement(decoded, trace.count, [], 'Bank', 4))).toEqual([2, 2, 0, 0]);
+    const rows = countAccessesPerElement(decoded, trace.count, [{ type: 'Bank', id: 0 }], 'Row', 16);
+    expect(rows[0]).toBe(1);
+    expect(rows[2]).toBe(1);
+    expect(rows.reduce((sum, value) => sum + value, 0)).toBe(2);
+  });
+});
@@ -0,0 +1,149 @@
+import { parseNbitMappingToPositions, type NbitMappingConfig } from './helpers';
+
+// --- Memory Access Traces ---
+// Addresses are stored as two 32-bit halves in typed arrays rather than as BigInts, so
+// traces with millions of accesses stay compact and can be transferred from the worker.
+
+export interface MemoryTrace {
+  name: string;
+  count: number;
+  addressLo: Uint32Array;
+  addressHi: Uint32Array;
+  isWrite: Uint8Array;
+  skippedLines: number;
+}
+
+// Decoded ID of every access, per lower-case level key.
+export type DecodedTrace = Record<string, Uint32Array>;
+
+const HEX_DIGITS = /^[0-9a-f]{1,16}$/;
+const WRITE_TOKENS = new Set(['w', 'wr', 'write', 'p_mem_wr']);
+const READ_TOKENS = new Set(['r', 'rd', 'read', 'p_mem_rd', 'ifetch']);
+
+// Accepts one access per line, either a bare hex address ("0x1f40" or "1f40") or the
+// Ramulator/DRAMSim style "<addr> <R|W|READ|WRITE> [cycle]". Blank lines and lines starting
+// with '#' are ignored; anything else that does not parse is counted as skipped.
+export function parseTraceText(text: string, name: string): MemoryTrace {
+  const lines = text.split(/\r?\n/);
+  const addressLo = new Uint32Array(lines.length);
+  const addressHi = new Uint32Array(lines.length);
+  const isWrite = new Uint8Array(lines.length);
+  let count = 0;
+  let skippedLines = 0;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const tokens = line.split(/[\s,]+/);
+    const hex = tokens[0].toLowerCase().replace(/^0x/, '');
+    const operation = tokens.length > 1 ? tokens[1].toLowerCase() : '';
+    if (!HEX_DIGITS.test(hex) || (operation && !WRITE_TOKENS.has(operation) && !READ_TOKENS.has(operation) && !/^\d+$/.test(operation))) {
+      skippedLines++;
+      continue;
+    }
+    addressLo[count] = parseInt(hex.slice(-8), 16) >>> 0;
+    addressHi[count] = hex.length > 8 ? parseInt(hex.slice(0, -8), 16) >>> 0 : 0;
+    isWrite[count] = WRITE_TOKENS.has(operation) ? 1 : 0;
+    count++;
+  }
+
+  return {
+    name, count, skippedLines,
+    addressLo: addressLo.slice(0, count), addressHi: addressHi.slice(0, count), isWrite: isWrite.slice(0, count),
+  };
+}
+
+export function traceAddressAt(trace: MemoryTrace, index: number): bigint {
+  return (BigInt(trace.addressHi[index]) << 32n) | BigInt(trace.addressLo[index]);
+}
+
+function parity32(value: number): number {
+  let v = value ^ (value >>> 16);
+  v ^= v >>> 8;
+  v ^= v >>> 4;
+  v &= 0xf;
+  return (0x6996 >>> v) & 1;
+}
+
+// Same semantics as decodePhysicalAddress (an empty or invalid field yields a 0 bit), but
+// on 32-bit halves so that a whole trace decodes without BigInt arithmetic.
+export function decodeTrace(trace: MemoryTrace, mapping: NbitMappingConfig): DecodedTrace {
+  const decoded: DecodedTrace = {};
+  for (const [level, nbits] of Object.entries(mapping)) {
+    const ids = new Uint32Array(trace.count);
+    const fields = nbits.map(text => {
+      const positions = parseNbitMappingToPositions(text) ?? [];
+      let lo = 0;
+      let hi = 0;
+      positions.filter(pos => pos >= 0 && pos < 64).forEach(pos => {
+        if (pos < 32) lo ^= 1 << pos; else hi ^= 1 << (pos - 32);
+      });
+      return { lo, hi };
+    });
+    for (let i = 0; i < trace.count; i++) {
+      let id = 0;
+      for (let bit = 0; bit < fields.length; bit++) {
+        const value = parity32((trace.addressLo[i] & fields[bit].lo) ^ (trace.addressHi[i] & fields[bit].hi));
+        id |= value << bit;
+      }
+      ids[i] = id >>> 0;
+    }
+    decoded[level] = ids;
+  }
+  return decoded;
+}
+
+// Access count per element of `level` among the accesses that lie under `path`.
+export function countAccessesPerElement(
+  decoded: DecodedTrace,
+  count: number,
+  path: { type: string; id: number }[],
+  level: string,
+  elementCount: number
+): Uint32Array {
+  const counts = new Uint32Array(Math.max(elementCount, 0));
+  const levelIds = decoded[level.toLowerCase()];
+  if (!levelIds) return counts;
+  const pathIds = path.map(segment => ({ ids: decoded[segment.type.toLowerCase()], id: segment.id }));
+  for (let i = 0; i < count; i++) {
+    if (!pathIds.every(segment => segment.ids && segment.ids[i] === segment.id)) continue;
+    const id = levelIds[i];
+    if (id < counts.length) counts[id]++;
+  }
+  return counts;
+}
+
+export interface DistributionSummary {
+  total: number;
+  touched: number;
+  busiest: number;
+  busiestShare: number;
+  // Coefficient of variation (standard deviation / mean); 0 means perfectly even.
+  cv: number;
+}
+
+export function summarizeDistribution(perElement: Uint32Array): DistributionSummary {
+  const length = Math.max(perElement.length, 1);
+  let total = 0;
+  let touched = 0;
+  let busiest = 0;
+  perElement.forEach((value, id) => {
+    total += value;
+    if (value > 0) touched++;
+    if (value > perElement[busiest]) busiest = id;
+  });
+  const mean = total / length;
+  let squares = 0;
+  perElement.forEach(value => { squares += (value - mean) ** 2; });
+  return {
+    total, touched, busiest,
+    busiestShare: total > 0 ? perElement[busiest] / total : 0,
+    cv: mean > 0 ? Math.sqrt(squares / length) / mean : 0,
+  };
+}
+
+// Yellow (few accesses) to red (most accesses).
+export function heatColor(fraction: number): string {
+  const clamped = Math.max(0, Math.min(1, fraction));
+  return `hsl(${Math.round(55 * (1 - clamped))}, 100%, ${Math.round(88 - clamped * 38)}%)`;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { levelUsage, hierarchyUsage, MAX_USAGE_CHECKS } from './usageStats';
+import { resolveAddressSet } from './addressSet';
+import { decodeAddress } from './decode';
+import { XOR_LEVELS, XOR_MAPPING, XOR_CAPACITY, XOR_USABLE } from './testMappings';
+
+const VMS = [[{ start: 0x0n, end: 0x3ffn }], [{ start: 0x500n, end: 0x5ffn }, { start: 0xf00n, end: 0xfffn }]];
+
+// Reference: decode every address and add it to its bank.
+function bruteForceBankBytes(): bigint[][] {
+  const bytes = Array.from({ length: 4 }, () => VMS.map(() => 0n));
+  for (let address = 0n; address < XOR_CAPACITY; address++) {
+    const { bank } = decodeAddress(address, XOR_MAPPING);
+    VMS.forEach((ranges, vm) => {
+      if (ranges.some(range => address >= range.start && address <= range.end)) bytes[bank][vm]++;
+    });
+  }
+  return bytes;
+}
+
+describe('levelUsage', () => {
+  it('counts the bytes every VM maps into every element', () => {
+    const sets = [0, 1, 2, 3].map(id => resolveAddressSet([{ type: 'bank', id }], XOR_MAPPING, XOR_USABLE));
+    const usage = levelUsage(sets, VMS);
+    if (typeof usage === 'string') throw new Error(usage);
+    expect(usage.elements.map(element => element.vmBytes)).toEqual(bruteForceBankBytes());
+    expect(usage.elements.every(element => element.capacity === 0x400n)).toBe(true);
+    expect(usage.vms[0]).toMatchObject({ total: 0x400n, min: 0x100n, max: 0x100n, stddev: 0, touched: 4, share: 0.25 });
+    expect(usage.vms[1].total).toBe(0x200n);
+  });
+
+  it('refuses views with too many element/range pairs', () => {
+    expect(levelUsage(new Array(MAX_USAGE_CHECKS + 1).fill(null), [[{ start: 0n, end: 0n }]])).toMatch(/^Too many elements/);
+  });
+});
+
+describe('hierarchyUsage', () => {
+  it('rolls every level up by its own ID', () => {
+    const rollup = hierarchyUsage(XOR_LEVELS, XOR_USABLE, VMS);
+    expect(rollup.map(entry => entry.level)).toEqual(['Bank', 'Row', 'Column']);
+    const rows = rollup[1].usage;
+    if (typeof rows === 'string') throw new Error(rows);
+    // VM 1 owns rows 5 and 15 entirely.
+    expect(rows.elements[5].vmBytes[1]).toBe(0x100n);
+    expect(rows.elements[15].vmBytes[1]).toBe(0x100n);
+    expect(rows.vms[1]).toMatchObject({ touched: 2, min: 0n, max: 0x100n });
+  });
+});
@@ -0,0 +1,83 @@
+import { levelKey, mappingOf, type HierarchyLevel } from './hierarchy';
+import { addressSetSize, bytesInRange, resolveAddressSet, type AddressRange, type AddressSet } from './addressSet';
+
+// --- VM Usage per Element ---
+// Not just whether a VM maps any byte of an element, but how many: 4 KB of a bank and 4 GB
+// of it look the same in the VM coloring.
+
+export interface ElementUsage {
+  id: number;
+  // Bytes of the element below the capacity.
+  capacity: bigint;
+  // Bytes each VM maps into the element, in VM order.
+  vmBytes: bigint[];
+}
+
+// One VM over all elements of a level, including the ones it does not touch.
+export interface VmUsageSummary {
+  total: bigint;
+  min: bigint;
+  max: bigint;
+  mean: number;
+  stddev: number;
+  touched: number;
+  // Fraction of the capacity of all elements together.
+  share: number;
+}
+
+export interface LevelUsage {
+  elements: ElementUsage[];
+  vms: VmUsageSummary[];
+}
+
+// Element/range pairs counted per level; each is one GF(2) count, so this keeps a view instant.
+export const MAX_USAGE_CHECKS = 1 << 18;
+
+function checkLimit(elementCount: number, vms: AddressRange[][]): string | null {
+  const checks = elementCount * vms.reduce((sum, ranges) => sum + ranges.length, 0);
+  return checks > MAX_USAGE_CHECKS
+    ? `Too many elements and VM ranges to count (${checks.toLocaleString()} pairs; the limit is ${MAX_USAGE_CHECKS.toLocaleString()})`
+    : null;
+}
+
+function summarize(elements: ElementUsage[], vm: number): VmUsageSummary {
+  const bytes = elements.map(element => element.vmBytes[vm]);
+  const total = bytes.reduce((sum, value) => sum + value, 0n);
+  const capacity = elements.reduce((sum, element) => sum + element.capacity, 0n);
+  const mean = bytes.length > 0 ? Number(total) / bytes.length : 0;
+  const variance = bytes.length > 0 ? bytes.reduce((sum, value) => sum + (Number(value) - mean) ** 2, 0) / bytes.length : 0;
+  return {
+    total,
+    min: bytes.reduce((min, value) => (value < min ? value : min), bytes[0] ?? 0n),
+    max: bytes.reduce((max, value) => (value > max ? value : max), 0n),
+    mean,
+    stddev: Math.sqrt(variance),
+    touched: bytes.filter(value => value > 0n).length,
+    share: capacity > 0n ? Number(total) / Number(capacity) : 0,
+  };
+}
+
+// Bytes of every VM (a list of ranges each) in every element; `sets[id]` is the address set
+// of element `id`, or null when no address decodes to it.
+export function levelUsage(sets: (AddressSet | null)[], vms: AddressRange[][]): LevelUsage | string {
+  const limitError = checkLimit(sets.length, vms);
+  if (limitError) return limitError;
+  const elements = sets.map((set, id): ElementUsage => ({
+    id,
+    capacity: set ? addressSetSize(set) : 0n,
+    vmBytes: vms.map(ranges => (set ? ranges.reduce((sum, range) => sum + bytesInRange(set, range), 0n) : 0n)),
+  }));
+  return { elements, vms: vms.map((_, vm) => summarize(elements, vm)) };
+}
+
+// Usage per level by the level's own ID alone, e.g. Bank 3 summed over every channel and rank.
+// Levels with a single element are left out.
+export function hierarchyUsage(levels: HierarchyLevel[], usable: AddressRange[], vms: AddressRange[][]): { level: string; usage: LevelUsage | string }[] {
+  const mapping = mappingOf(levels);
+  return levels.filter(level => level.count > 1).map(level => {
+    const limitError = checkLimit(level.count, vms);
+    if (limitError) return { level: level.name, usage: limitError };
+    const sets = Array.from({ length: level.count }, (_, id) => resolveAddressSet([{ type: levelKey(level.name), id }], mapping, usable));
+    return { level: level.name, usage: levelUsage(sets, vms) };
+  });
+}
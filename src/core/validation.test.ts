@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { validateMapping } from './validation';
+import { xorLevels, XOR_LEVELS } from './testMappings';
+
+const kinds = (levels: typeof XOR_LEVELS, addressBits: number | null) =>
+  validateMapping(levels, addressBits).issues.map(issue => `${issue.kind}:${issue.level ?? ''}${issue.bitIndex ?? ''}`);
+
+describe('validateMapping', () => {
+  it('accepts a full-rank XOR mapping', () => {
+    expect(validateMapping(XOR_LEVELS, 12)).toEqual({ issues: [], fieldCount: 12, rank: 12, unusedBits: [] });
+  });
+
+  it('flags PA bits used directly by two fields', () => {
+    expect(kinds(xorLevels({ Column: ['0', '1', '2', '3', '4', '8'] }), null)).toEqual(['duplicate:row0', 'duplicate:column5']);
+  });
+
+  it('explains linearly dependent fields as an XOR of others', () => {
+    const result = validateMapping(xorLevels({ Bank: ['6,9', '8,9'] }), 12);
+    const dependent = result.issues.find(issue => issue.kind === 'dependent');
+    expect(result.rank).toBe(11);
+    expect(dependent?.message).toBe('Row1bit is linearly dependent: it always equals Bank1bit XOR Row0bit, so some ID combinations can never be reached');
+  });
+
+  it('reports invalid, empty, repeated, out-of-range and unused bits', () => {
+    const levels = xorLevels({ Bank: ['6,x', ''], Row: ['8,8', '9', '10', '13'] });
+    expect(kinds(levels, 12)).toEqual([
+      'invalid:bank0', 'empty:bank1', 'repeated:row0', 'out-of-range:row3', 'dependent:row0', 'unused:',
+    ]);
+    expect(validateMapping(levels, 12).unusedBits).toEqual([6, 7, 11]);
+  });
+});
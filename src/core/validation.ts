@@ -0,0 +1,133 @@
+import { levelKey, type HierarchyLevel } from './hierarchy';
+import { maskFromBits, lowestSetBit, bitsFromMask } from './gf2';
+
+// --- Mapping Validation ---
+// All Nbit fields together form a binary matrix (one row per ID bit, one column per PA
+// bit). The checks below look at that matrix rather than only at the bit counts.
+
+export type MappingIssueKind = 'invalid' | 'empty' | 'repeated' | 'duplicate' | 'out-of-range' | 'dependent' | 'unused';
+
+export interface MappingIssue {
+  kind: MappingIssueKind;
+  severity: 'error' | 'warning';
+  // Lower-case level key and ID bit index of the offending field; absent for global issues.
+  level?: string;
+  bitIndex?: number;
+  message: string;
+}
+
+export interface MappingValidation {
+  issues: MappingIssue[];
+  fieldCount: number;
+  rank: number;
+  unusedBits: number[];
+}
+
+interface MappingField { level: string; levelName: string; bitIndex: number; positions: number[]; }
+
+export function fieldLabel(levelName: string, bitIndex: number): string {
+  return `${levelName}${bitIndex}bit`;
+}
+
+export function fieldKey(level: string, bitIndex: number): string {
+  return `${level}:${bitIndex}`;
+}
+
+// Gaussian elimination that remembers which original fields each basis row is made of,
+// so a dependent field can be explained as the XOR of specific other fields.
+function findDependencies(masks: bigint[]): { rank: number; dependencies: Map<number, number[]> } {
+  const basis: { mask: bigint; combination: bigint }[] = [];
+  const dependencies = new Map<number, number[]>();
+  masks.forEach((original, index) => {
+    let mask = original;
+    let combination = 1n << BigInt(index);
+    for (const row of basis) {
+      if ((mask >> BigInt(lowestSetBit(row.mask))) & 1n) {
+        mask ^= row.mask;
+        combination ^= row.combination;
+      }
+    }
+    if (mask === 0n) {
+      dependencies.set(index, bitsFromMask(combination).filter(other => other !== index));
+      return;
+    }
+    const pivot = 1n << BigInt(lowestSetBit(mask));
+    basis.forEach(row => {
+      if (row.mask & pivot) { row.mask ^= mask; row.combination ^= combination; }
+    });
+    basis.push({ mask, combination });
+  });
+  return { rank: basis.length, dependencies };
+}
+
+export function validateMapping(levels: HierarchyLevel[], addressBits: number | null): MappingValidation {
+  const issues: MappingIssue[] = [];
+  const fields: MappingField[] = [];
+
+  levels.forEach(({ name: levelName, nbits }) => {
+    const level = levelKey(levelName);
+    nbits.forEach((text, bitIndex) => {
+      const label = fieldLabel(levelName, bitIndex);
+      if (!text.trim()) {
+        issues.push({ kind: 'empty', severity: 'warning', level, bitIndex, message: `${label} is empty, so this ID bit is always 0 and half of the ${levelName} IDs are unreachable` });
+        return;
+      }
+      const tokens = text.split(',').map(token => token.trim());
+      if (tokens.some(token => !/^\d+$/.test(token))) {
+        issues.push({ kind: 'invalid', severity: 'error', level, bitIndex, message: `${label} "${text}" is not a comma-separated list of PA bit positions` });
+        return;
+      }
+      const positions = tokens.map(token => parseInt(token, 10));
+      const repeated = positions.filter((pos, i) => positions.indexOf(pos) !== i);
+      if (repeated.length > 0) {
+        issues.push({ kind: 'repeated', severity: 'warning', level, bitIndex, message: `${label} lists PA bit ${repeated.join(', ')} more than once; repeated bits cancel out in the XOR` });
+      }
+      if (addressBits !== null) {
+        const outOfRange = positions.filter(pos => pos >= addressBits);
+        if (outOfRange.length > 0) {
+          issues.push({ kind: 'out-of-range', severity: 'error', level, bitIndex, message: `${label} uses PA bit ${outOfRange.join(', ')}, but the capacity only spans bits 0-${addressBits - 1}` });
+        }
+      }
+      fields.push({ level, levelName, bitIndex, positions });
+    });
+  });
+
+  const directUsers = new Map<number, MappingField[]>();
+  fields.filter(field => field.positions.length === 1).forEach(field => {
+    const users = directUsers.get(field.positions[0]) ?? [];
+    directUsers.set(field.positions[0], [...users, field]);
+  });
+  const duplicated = new Set<MappingField>();
+  directUsers.forEach((users, bit) => {
+    if (users.length < 2) return;
+    users.forEach(field => {
+      duplicated.add(field);
+      const others = users.filter(other => other !== field).map(other => fieldLabel(other.levelName, other.bitIndex));
+      issues.push({ kind: 'duplicate', severity: 'error', level: field.level, bitIndex: field.bitIndex, message: `${fieldLabel(field.levelName, field.bitIndex)} uses PA bit ${bit} directly, as does ${others.join(', ')}` });
+    });
+  });
+
+  const { rank, dependencies } = findDependencies(fields.map(field => maskFromBits(field.positions)));
+  dependencies.forEach((combination, index) => {
+    const field = fields[index];
+    if (duplicated.has(field)) return;
+    const label = fieldLabel(field.levelName, field.bitIndex);
+    const message = combination.length === 0
+      ? `${label} always evaluates to 0 (its PA bits cancel out)`
+      : `${label} is linearly dependent: it always equals ${combination.map(other => fieldLabel(fields[other].levelName, fields[other].bitIndex)).join(' XOR ')}, so some ID combinations can never be reached`;
+    issues.push({ kind: 'dependent', severity: 'error', level: field.level, bitIndex: field.bitIndex, message });
+  });
+
+  const unusedBits: number[] = [];
+  if (addressBits !== null) {
+    const used = new Set(fields.flatMap(field => field.positions));
+    for (let bit = 0; bit < addressBits; bit++) {
+      if (!used.has(bit)) unusedBits.push(bit);
+    }
+    if (unusedBits.length > 0) {
+      issues.push({ kind: 'unused', severity: 'warning', message: `PA bit${unusedBits.length > 1 ? 's' : ''} ${unusedBits.join(', ')} ${unusedBits.length > 1 ? 'are' : 'is'} not used by any field; addresses differing only there map to the same element` });
+    }
+  }
+
+  return { issues, fieldCount: fields.length, rank, unusedBits };
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { renderViewSvg } from './viewExport';
+
+describe('renderViewSvg', () => {
+  it('draws one striped cell per element and a legend', () => {
+    const svg = renderViewSvg({
+      title: 'Banks <root>', layout: 'grid',
+      cells: [{ label: 'BK0', colors: ['rgba(255, 105, 97, 0.7)', '#00ff00'] }, { label: 'BK1', colors: [] }],
+      legend: [{ label: 'VM 1', color: 'rgba(255, 105, 97, 0.7)' }],
+    });
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain('Banks &lt;root&gt;');
+    expect(svg.match(/fill="rgb\(255,105,97\)" fill-opacity="0.7"/g)).toHaveLength(2);
+    expect(svg).toContain('<title>BK1</title>');
+  });
+});
@@ -0,0 +1,85 @@
+import type { LevelLayout } from './hierarchy';
+
+// --- View Export ---
+// The drill-down view as a standalone SVG, drawn from what the visualizer shows rather than
+// from the DOM, so the image looks the same wherever it is rendered.
+
+export interface ViewCell {
+  label: string;
+  // Fill colors; several are drawn as side-by-side stripes. Empty means unused.
+  colors: string[];
+  // Extra text after the label, e.g. an access count.
+  detail?: string;
+}
+
+export interface ViewSnapshot {
+  title: string;
+  layout: LevelLayout;
+  cells: ViewCell[];
+  legend: { label: string; color: string }[];
+}
+
+const FONT = 'font-family="sans-serif" font-size="11"';
+const MARGIN = 12;
+const TITLE_HEIGHT = 24;
+const LEGEND_ROW = 18;
+const UNUSED_FILL = '#ffffff';
+
+// Cell size and cells per row for each layout, matching the visualizer's grid, list and pixels.
+const LAYOUT_GEOMETRY: Record<LevelLayout, { width: number; height: number; perRow: number; gap: number; labels: boolean }> = {
+  grid: { width: 72, height: 32, perRow: 12, gap: 6, labels: true },
+  list: { width: 420, height: 22, perRow: 1, gap: 1, labels: true },
+  pixel: { width: 10, height: 10, perRow: 64, gap: 2, labels: false },
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// rgba() is not an SVG 1.1 paint; it is split into a color and an opacity so every viewer agrees.
+function fillAttributes(color: string): string {
+  const match = color.match(/^rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([\d.]+)\s*\)$/);
+  if (!match) return `fill="${escapeXml(color)}"`;
+  return `fill="rgb(${match[1]},${match[2]},${match[3]})" fill-opacity="${match[4]}"`;
+}
+
+function cellSvg(cell: ViewCell, x: number, y: number, width: number, height: number, labels: boolean): string {
+  const parts: string[] = [];
+  const colors = cell.colors.length > 0 ? cell.colors : [UNUSED_FILL];
+  const stripe = width / colors.length;
+  colors.forEach((color, index) => {
+    parts.push(`<rect x="${x + index * stripe}" y="${y}" width="${stripe}" height="${height}" ${fillAttributes(color)}/>`);
+  });
+  parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="#bbbbbb"/>`);
+  const text = escapeXml(cell.detail ? `${cell.label} (${cell.detail})` : cell.label);
+  if (labels) parts.push(`<text x="${x + 6}" y="${y + height / 2 + 4}" ${FONT}>${text}</text>`);
+  return `<g><title>${text}</title>${parts.join('')}</g>`;
+}
+
+export function renderViewSvg(view: ViewSnapshot): string {
+  const { width, height, perRow, gap, labels } = LAYOUT_GEOMETRY[view.layout];
+  const columns = Math.max(1, Math.min(perRow, view.cells.length));
+  const rows = Math.ceil(view.cells.length / columns);
+  const gridWidth = columns * (width + gap) - gap;
+  const gridHeight = rows * (height + gap) - gap;
+  const totalWidth = Math.max(gridWidth, 240) + 2 * MARGIN;
+  const legendTop = MARGIN + TITLE_HEIGHT + Math.max(gridHeight, 0) + MARGIN;
+  const totalHeight = legendTop + view.legend.length * LEGEND_ROW + MARGIN;
+
+  const cells = view.cells.map((cell, index) => cellSvg(
+    cell, MARGIN + (index % columns) * (width + gap), MARGIN + TITLE_HEIGHT + Math.floor(index / columns) * (height + gap), width, height, labels,
+  ));
+  const legend = view.legend.map((entry, index) => {
+    const y = legendTop + index * LEGEND_ROW;
+    return `<rect x="${MARGIN}" y="${y}" width="12" height="12" ${fillAttributes(entry.color)} stroke="#bbbbbb"/>`
+      + `<text x="${MARGIN + 18}" y="${y + 10}" ${FONT}>${escapeXml(entry.label)}</text>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${totalHeight}" viewBox="0 0 ${totalWidth} ${totalHeight}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<text x="${MARGIN}" y="${MARGIN + 14}" font-family="sans-serif" font-size="15" font-weight="bold">${escapeXml(view.title)}</text>`,
+    ...cells,
+    ...legend,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parsePageList, formatPageList, vmAddressRanges, clipRanges, mergeRanges, intersectRanges, subtractRanges, usableCapacity } from './vmMemory';
+
+describe('page lists', () => {
+  it('parses frames and frame ranges into merged address ranges', () => {
+    expect(parsePageList('0x4, 0x0-0x1 0x2', 4096n)).toEqual([{ start: 0x0n, end: 0x2fffn }, { start: 0x4000n, end: 0x4fffn }]);
+    expect(parsePageList('1', 2n << 20n)).toEqual([{ start: 0x200000n, end: 0x3fffffn }]);
+    expect(parsePageList('', 4096n)).toEqual([]);
+  });
+
+  it('reports malformed entries', () => {
+    expect(parsePageList('0x10, zz', 4096n)).toBe('Invalid page frame "zz". Expected e.g. 0x100 or 0x100-0x1ff');
+    expect(parsePageList('0x3-0x1', 4096n)).toBe('Page range "0x3-0x1" ends before it starts');
+  });
+
+  it('formats ranges back into the same list', () => {
+    const ranges = [{ start: 0x0n, end: 0x2fffn }, { start: 0x5000n, end: 0x5fffn }];
+    expect(formatPageList(ranges, 4096n)).toBe('0x0-0x2, 0x5');
+    expect(parsePageList(formatPageList(ranges, 4096n), 4096n)).toEqual(ranges);
+  });
+});
+
+describe('VM ranges', () => {
+  it('resolves contiguous and page-framed VMs', () => {
+    expect(vmAddressRanges({ baseAddress: '0x1000', size: '0x800' })).toEqual([{ start: 0x1000n, end: 0x17ffn }]);
+    expect(vmAddressRanges({ baseAddress: '0x1000', size: '' })).toEqual([]);
+    expect(vmAddressRanges({ baseAddress: '0x0', size: '0x10', pages: '0x2', pageSize: '4KB' })).toEqual([{ start: 0x2000n, end: 0x2fffn }]);
+  });
+
+  it('clips and merges ranges', () => {
+    expect(clipRanges([{ start: 0n, end: 0xfffn }, { start: 0x2000n, end: 0x2fffn }], 0x800n)).toEqual([{ start: 0n, end: 0x7ffn }]);
+    expect(mergeRanges([{ start: 0x10n, end: 0x1fn }, { start: 0n, end: 0xfn }, { start: 0x18n, end: 0x30n }])).toEqual([{ start: 0n, end: 0x30n }]);
+  });
+
+  it('intersects and subtracts ranges', () => {
+    const ranges = [{ start: 0n, end: 0xfffn }, { start: 0x2000n, end: 0x2fffn }];
+    const within = [{ start: 0x800n, end: 0x27ffn }];
+    expect(intersectRanges(ranges, within)).toEqual([{ start: 0x800n, end: 0xfffn }, { start: 0x2000n, end: 0x27ffn }]);
+    expect(subtractRanges(ranges, [{ start: 0x100n, end: 0x1ffn }, { start: 0x2800n, end: 0x3fffn }])).toEqual([
+      { start: 0n, end: 0xffn }, { start: 0x200n, end: 0xfffn }, { start: 0x2000n, end: 0x27ffn },
+    ]);
+  });
+});
+
+describe('reserved regions', () => {
+  it('are excluded from the usable capacity below the total', () => {
+    const reserved = [{ name: 'PCI', baseAddress: '0xc00', size: '0x800' }, { name: 'ROM', baseAddress: '0x100', size: '0x100' }];
+    expect(usableCapacity(0x1000n, reserved)).toBe(0xb00n);
+    expect(usableCapacity(0n, reserved)).toBe(0n);
+  });
+});
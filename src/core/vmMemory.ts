@@ -0,0 +1,125 @@
+import { parseHexAddress, parseHexDataSizeToBytes, parseUnitBasedSizeToBytes } from './helpers';
+import type { AddressRange } from './addressSet';
+import type { ReservedRegion, VmConfig } from './config';
+
+// --- VM Memory ---
+// A VM is either one contiguous range (baseAddress/size) or a list of page frames, the way
+// a hypervisor hands out memory. Either way it resolves to sorted, non-overlapping ranges.
+
+export const PAGE_SIZES = ['4KB', '2MB', '1GB'];
+export const DEFAULT_PAGE_SIZE = '4KB';
+
+export function pageSizeBytes(pageSize: string | undefined): bigint {
+  const bytes = parseUnitBasedSizeToBytes(pageSize ?? DEFAULT_PAGE_SIZE);
+  return typeof bytes === 'bigint' ? bytes : 4096n;
+}
+
+// Sorts ranges and merges the ones that overlap or touch.
+export function mergeRanges(ranges: AddressRange[]): AddressRange[] {
+  const sorted = [...ranges].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged: AddressRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1n) { if (range.end > last.end) last.end = range.end; }
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// Frame numbers in hex, separated by commas or whitespace; "a-b" is an inclusive frame range.
+// E.g. "0x100-0x1ff, 0x400" with 4 KB pages is [0x100000, 0x1fffff] and [0x400000, 0x400fff].
+export function parsePageList(text: string, pageBytes: bigint): AddressRange[] | string {
+  const ranges: AddressRange[] = [];
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    const [first, last, extra] = token.split('-');
+    const start = parseHexAddress(first);
+    const end = last === undefined ? start : parseHexAddress(last);
+    if (start === null || end === null || extra !== undefined) return `Invalid page frame "${token}". Expected e.g. 0x100 or 0x100-0x1ff`;
+    if (end < start) return `Page range "${token}" ends before it starts`;
+    ranges.push({ start: start * pageBytes, end: (end + 1n) * pageBytes - 1n });
+  }
+  return mergeRanges(ranges);
+}
+
+// The inverse of parsePageList for page-aligned ranges.
+export function formatPageList(ranges: AddressRange[], pageBytes: bigint): string {
+  return ranges.map(range => {
+    const first = range.start / pageBytes;
+    const last = range.end / pageBytes;
+    return first === last ? `0x${first.toString(16)}` : `0x${first.toString(16)}-0x${last.toString(16)}`;
+  }).join(', ');
+}
+
+export function vmLabel(vm: VmConfig, index: number): string {
+  return vm.name?.trim() || `VM ${index + 1}`;
+}
+
+export function hasPageList(vm: VmConfig): boolean {
+  return (vm.pages ?? '').trim() !== '';
+}
+
+// The memory of a VM. An incomplete contiguous VM (no base or size yet) has no ranges.
+export function vmAddressRanges(vm: VmConfig): AddressRange[] | string {
+  if (hasPageList(vm)) return parsePageList(vm.pages ?? '', pageSizeBytes(vm.pageSize));
+  if (!vm.baseAddress.trim() || !vm.size.trim()) return [];
+  const base = parseHexAddress(vm.baseAddress);
+  if (base === null) return `Invalid hexadecimal address "${vm.baseAddress}"`;
+  const size = parseHexDataSizeToBytes(vm.size);
+  if (typeof size === 'string') return size;
+  return [{ start: base, end: base + size - 1n }];
+}
+
+// Ranges cut to [0, capacity); a capacity of 0 means unknown and leaves them as they are.
+export function clipRanges(ranges: AddressRange[], capacity: bigint): AddressRange[] {
+  if (capacity <= 0n) return ranges;
+  return ranges
+    .filter(range => range.start < capacity)
+    .map(range => ({ start: range.start, end: range.end < capacity ? range.end : capacity - 1n }));
+}
+
+// The parts of `ranges` that lie within `within`, in the order of `ranges`.
+export function intersectRanges(ranges: AddressRange[], within: AddressRange[]): AddressRange[] {
+  return ranges.flatMap(range => within.flatMap(other => {
+    const start = range.start > other.start ? range.start : other.start;
+    const end = range.end < other.end ? range.end : other.end;
+    return start <= end ? [{ start, end }] : [];
+  }));
+}
+
+// The parts of `ranges` outside every hole.
+export function subtractRanges(ranges: AddressRange[], holes: AddressRange[]): AddressRange[] {
+  const sortedHoles = mergeRanges(holes);
+  return mergeRanges(ranges).flatMap(range => {
+    const parts: AddressRange[] = [];
+    let next = range.start;
+    for (const hole of sortedHoles) {
+      if (hole.end < next || hole.start > range.end) continue;
+      if (hole.start > next) parts.push({ start: next, end: hole.start - 1n });
+      next = hole.end + 1n;
+    }
+    if (next <= range.end) parts.push({ start: next, end: range.end });
+    return parts;
+  });
+}
+
+export function rangesBytes(ranges: AddressRange[]): bigint {
+  return ranges.reduce((sum, range) => sum + range.end - range.start + 1n, 0n);
+}
+
+// --- Reserved Regions ---
+// Holes in the physical address space have no DRAM behind them, so they do not count
+// towards the DRAM capacity the mapping has to cover.
+
+export function reservedRanges(reserved: ReservedRegion[]): AddressRange[] {
+  return mergeRanges(reserved.flatMap(region => {
+    const base = parseHexAddress(region.baseAddress);
+    const size = parseHexDataSizeToBytes(region.size);
+    return base === null || typeof size === 'string' ? [] : [{ start: base, end: base + size - 1n }];
+  }));
+}
+
+// The capacity minus the reserved bytes below it.
+export function usableCapacity(capacity: bigint, reserved: ReservedRegion[]): bigint {
+  if (capacity <= 0n) return capacity;
+  return capacity - rangesBytes(clipRanges(reservedRanges(reserved), capacity));
+}
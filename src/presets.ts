@@ -0,0 +1,161 @@
+import { parseSizeInputToAddressBits } from './core/helpers';
+import { createConfig, validateConfig, type DramConfig } from './core/config';
+import { buildHierarchy, totalIdBits, DEFAULT_HIERARCHY, type HierarchyLevel } from './core/hierarchy';
+
+// --- Mapping Presets ---
+// A preset carries capacity, hierarchy counts and Nbit mappings. VMs, reserved regions and
+// the memory map are not part of a preset: applying one keeps the current ones.
+export interface MappingPreset {
+  id: string;
+  name: string;
+  description: string;
+  citation: string;
+  builtIn: boolean;
+  config: DramConfig;
+}
+
+const USER_PRESETS_STORAGE_KEY = 'dram-visualizer:user-presets';
+
+function bitRange(from: number, to: number): string[] {
+  return Array.from({ length: to - from + 1 }, (_, index) => String(from + index));
+}
+
+// Built-in presets use the default level order; levels not listed get a count of 1.
+function levels(counts: Record<string, [number, string[]]>): HierarchyLevel[] {
+  return buildHierarchy(DEFAULT_HIERARCHY.map(level => level.name), counts);
+}
+
+// In every built-in preset the Column level includes the byte offset within a bus beat
+// (e.g. 1024 columns x 8 bytes = 8192), because the tool has no separate byte-offset level.
+export const BUILT_IN_PRESETS: MappingPreset[] = [
+  {
+    id: 'intel-coffee-lake-ddr4-1ch-1rk',
+    name: 'Intel Coffee Lake DDR4 - 1 channel, 1 rank, 16 banks (8 GB)',
+    description: 'Single DDR4 DIMM, single rank. Four two-bit XOR bank functions; rows are PA bits 17-32.',
+    citation: 'Bank functions 0x2040, 0x24000, 0x48000, 0x90000 as used by Jattke et al., "Blacksmith: Scalable Rowhammering in the Frequency Domain", IEEE S&P 2022 (reverse-engineered with DRAMA). The split of the four functions into bank group and bank is illustrative.',
+    builtIn: true,
+    config: createConfig('8GB', levels({
+      BankGroup: [4, ['6,13', '14,17']],
+      Bank: [4, ['15,18', '16,19']],
+      Subarray: [64, bitRange(27, 32)],
+      Row: [1024, bitRange(17, 26)],
+      Column: [8192, [...bitRange(0, 5), ...bitRange(7, 13)]],
+    }), []),
+  },
+  {
+    id: 'intel-skylake-ddr4-2ch',
+    name: 'Intel Skylake DDR4 - 2 channels, 1 rank, 16 banks (16 GB)',
+    description: 'Dual-channel DDR4. The channel is selected by a six-bit XOR hash; bank group and bank by two-bit XOR functions.',
+    citation: 'Channel function (8,9,12,13,18,19) and two-bit bank XOR functions after Pessl et al., "DRAMA: Exploiting DRAM Addressing for Cross-CPU Attacks", USENIX Security 2016 (Skylake, DDR4). Row/column split is illustrative.',
+    builtIn: true,
+    config: createConfig('16GB', levels({
+      Channel: [2, ['8,9,12,13,18,19']],
+      BankGroup: [4, ['7,14', '15,20']],
+      Bank: [4, ['16,21', '17,22']],
+      Subarray: [64, bitRange(28, 33)],
+      Row: [1024, bitRange(18, 27)],
+      Column: [8192, [...bitRange(0, 6), ...bitRange(9, 14)]],
+    }), []),
+  },
+  {
+    id: 'amd-zen-ddr4-2ch-2rk',
+    name: 'AMD Zen 2 DDR4 - 2 channels, 2 ranks, 16 banks (32 GB)',
+    description: 'Representative Zen-style mapping: channel, rank and bank functions are wide XORs that mix low column bits with many row bits.',
+    citation: 'Structure after Jattke et al., "ZenHammer: Rowhammer Attacks on AMD Zen-based Platforms", USENIX Security 2024. The exact bit sets differ per CPU and BIOS setting; these functions are representative, not measured.',
+    builtIn: true,
+    config: createConfig('32GB', levels({
+      Channel: [2, ['8,12,14,16,18,20,22,24,26,28,30,32,34']],
+      Rank: [2, ['13,18,21,24,27,30,33']],
+      BankGroup: [4, ['14,19,23,27,31', '15,20,24,28,32']],
+      Bank: [4, ['16,21,25,29,33', '17,22,26,30,34']],
+      Subarray: [64, bitRange(29, 34)],
+      Row: [1024, bitRange(19, 28)],
+      Column: [8192, [...bitRange(0, 7), ...bitRange(9, 12), '18']],
+    }), []),
+  },
+  {
+    id: 'ddr5-2subch-32banks',
+    name: 'DDR5 - 2 sub-channels, 8 bank groups x 4 banks (16 GB)',
+    description: 'One DDR5 DIMM with two 32-bit sub-channels (shown as Channel). Bank groups are interleaved at low bits and hashed with row bits to spread consecutive lines.',
+    citation: 'Geometry from JEDEC JESD79-5 (DDR5 SDRAM, 16 Gb x8: 8 bank groups, 4 banks per group, 64K rows, 1K columns). XOR interleaving is a typical controller configuration, not a specific product.',
+    builtIn: true,
+    config: createConfig('16GB', levels({
+      Channel: [2, ['6,22']],
+      BankGroup: [8, ['7,23', '8,24', '9,25']],
+      Bank: [4, ['16,26', '17,27']],
+      Subarray: [64, bitRange(28, 33)],
+      Row: [1024, bitRange(18, 27)],
+      Column: [4096, [...bitRange(0, 5), ...bitRange(10, 15)]],
+    }), []),
+  },
+  {
+    id: 'lpddr4-2ch-8banks',
+    name: 'LPDDR4 - 2 channels x16, 8 banks (2 GB)',
+    description: 'Two 16-bit LPDDR4 channels interleaved at 256 bytes, 8 banks without bank groups.',
+    citation: 'Geometry from JEDEC JESD209-4 (LPDDR4, 8 Gb per channel: 8 banks, 64K rows, 1K columns, x16). Channel/bank XOR interleaving is a typical SoC configuration.',
+    builtIn: true,
+    config: createConfig('2GB', levels({
+      Channel: [2, ['8,15']],
+      Bank: [8, ['12,16', '13,17', '14,18']],
+      Subarray: [64, bitRange(25, 30)],
+      Row: [1024, bitRange(15, 24)],
+      Column: [2048, [...bitRange(0, 7), ...bitRange(9, 11)]],
+    }), []),
+  },
+  {
+    id: 'lpddr5-2ch-4bg',
+    name: 'LPDDR5 - 2 channels x16, 4 bank groups x 4 banks (4 GB)',
+    description: 'Two 16-bit LPDDR5 channels in bank-group mode (4 bank groups of 4 banks).',
+    citation: 'Geometry from JEDEC JESD209-5 (LPDDR5, 16 Gb per channel in BG mode: 4 bank groups x 4 banks, 64K rows). Channel/bank-group XOR interleaving is a typical SoC configuration.',
+    builtIn: true,
+    config: createConfig('4GB', levels({
+      Channel: [2, ['8,16']],
+      BankGroup: [4, ['9,17', '10,18']],
+      Bank: [4, ['11,19', '12,20']],
+      Subarray: [64, bitRange(26, 31)],
+      Row: [1024, bitRange(16, 25)],
+      Column: [2048, [...bitRange(0, 7), ...bitRange(13, 15)]],
+    }), []),
+  },
+];
+
+// The same comparison the Bit Count Consistency panel makes: bits implied by the capacity
+// against the bits implied by the hierarchy counts.
+export function isPresetConsistent(config: DramConfig): boolean {
+  const capacityBits = parseSizeInputToAddressBits(config.totalCapacity);
+  return typeof capacityBits === 'number' && capacityBits === totalIdBits(config.levels);
+}
+
+export function loadUserPresets(): MappingPreset[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(USER_PRESETS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(entry => {
+      const result = validateConfig(entry?.config);
+      if (!result.ok || typeof entry.id !== 'string' || typeof entry.name !== 'string') return [];
+      return [{
+        id: entry.id, name: entry.name, builtIn: false, config: result.config,
+        description: typeof entry.description === 'string' ? entry.description : '',
+        citation: typeof entry.citation === 'string' ? entry.citation : '',
+      }];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: MappingPreset[]): void {
+  try {
+    localStorage.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+  } catch {
+    // Storage may be full or disabled; the presets still live for this session.
+  }
+}
+
+export function createUserPreset(name: string, citation: string, config: DramConfig): MappingPreset {
+  return {
+    id: `user-${Date.now().toString(36)}`, name, citation, builtIn: false,
+    description: `Saved ${new Date().toLocaleString()}`,
+    config: { ...config, vms: [] },
+  };
+}
@@ -0,0 +1,16 @@
+import coffeeLakePairs from './samples/coffee-lake-pairs.csv?raw';
+import skylakeSets from './samples/skylake-sets.txt?raw';
+
+// --- Timing Samples ---
+// Synthetic measurements in both formats the inference reads, generated from the functions of
+// two built-in presets, so the solver can be tried (and checked) without a measurement tool.
+export interface TimingSample {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export const TIMING_SAMPLES: TimingSample[] = [
+  { id: 'coffee-lake-pairs', name: 'Coffee Lake, 1 channel: 1,128 timed pairs (CSV)', text: coffeeLakePairs },
+  { id: 'skylake-sets', name: 'Skylake, 2 channels: 32 same-bank sets', text: skylakeSets },
+];
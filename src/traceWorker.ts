@@ -0,0 +1,33 @@
+import { decodeTrace, parseTraceText, type MemoryTrace } from './core/trace';
+import { mappingOf, type HierarchyLevel } from './core/hierarchy';
+import {
+  generateAccessStream, simulateRowBuffer, type AccessStreamOptions, type DramTimings, type PagePolicy, type RowBufferSimulation,
+} from './core/rowBufferSim';
+
+// Parses trace files and runs row-buffer simulations off the main thread; parsed typed arrays
+// are transferred, not copied.
+export type TraceWorkerRequest =
+  | { kind: 'parse'; file: File }
+  // A loaded trace (copied, since the page keeps it) or the options of a synthetic stream.
+  | { kind: 'simulate'; stream: MemoryTrace | AccessStreamOptions; levels: HierarchyLevel[]; policy: PagePolicy; timings: DramTimings };
+export type TraceWorkerResponse = { ok: true; trace: MemoryTrace } | { ok: false; message: string };
+export type SimulationWorkerResponse = { ok: true; simulation: RowBufferSimulation; streamName: string } | { ok: false; message: string };
+
+self.onmessage = async (event: MessageEvent<TraceWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.kind === 'parse') {
+      const trace = parseTraceText(await request.file.text(), request.file.name);
+      const response: TraceWorkerResponse = { ok: true, trace };
+      self.postMessage(response, { transfer: [trace.addressLo.buffer, trace.addressHi.buffer, trace.isWrite.buffer] });
+    } else {
+      const stream = 'pattern' in request.stream ? generateAccessStream(request.stream) : request.stream;
+      const simulation = simulateRowBuffer(decodeTrace(stream, mappingOf(request.levels)), stream.count, request.levels, request.policy, request.timings);
+      const response: SimulationWorkerResponse = { ok: true, simulation, streamName: stream.name };
+      self.postMessage(response);
+    }
+  } catch (error) {
+    const response: TraceWorkerResponse = { ok: false, message: (error as Error).message };
+    self.postMessage(response);
+  }
+};